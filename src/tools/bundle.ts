@@ -0,0 +1,307 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import yaml from 'js-yaml';
+import { readFile, realpath, stat } from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { type ToolResponse, successResponse, errorResponse } from '../types.js';
+import { resolveJsonPointer, toJsonPointer } from './pointer.js';
+
+/**
+ * Virtual root that in-memory bundle files are resolved against
+ */
+const VIRTUAL_ROOT = '/__bundle__/';
+
+/**
+ * Entry file names tried, in order, when no entry file is given
+ */
+const DEFAULT_ENTRY_FILES = [
+  'openapi.yaml',
+  'openapi.yml',
+  'openapi.json',
+  'swagger.yaml',
+  'swagger.yml',
+  'swagger.json',
+];
+
+/**
+ * Directory local spec paths and their file refs must stay inside. Unset,
+ * local paths are not read at all
+ */
+let specRoot: string | undefined = defaultSpecRoot();
+
+/**
+ * A $ref that could not be resolved while bundling
+ */
+export interface UnresolvedRef {
+  ref: string | null;
+  file: string;
+  pointer: string;
+  message: string;
+}
+
+export interface BundledSpec {
+  document: unknown;
+  entry_file: string;
+}
+
+interface RefParserError {
+  message: string;
+  source?: string;
+  path?: (string | number)[];
+}
+
+/**
+ * Bundle an in-memory map of spec files into a single document, fully offline
+ */
+export async function bundleSpecFiles(
+  files: Record<string, string>,
+  entryFile?: string
+): Promise<ToolResponse<BundledSpec>> {
+  const normalized = Object.fromEntries(
+    Object.entries(files).map(([name, content]) => [normalizeFileName(name), content])
+  );
+
+  const entry = entryFile
+    ? normalizeFileName(entryFile)
+    : DEFAULT_ENTRY_FILES.find((name) => name in normalized);
+
+  if (!entry || !(entry in normalized)) {
+    return errorResponse('INVALID_INPUT', 'Entry file not found in spec bundle', {
+      entry_file: entryFile ?? null,
+      tried: entryFile ? [entryFile] : DEFAULT_ENTRY_FILES,
+      files: Object.keys(normalized),
+    });
+  }
+
+  const readVirtual = (url: string): string => {
+    const name = url.startsWith(VIRTUAL_ROOT) ? url.slice(VIRTUAL_ROOT.length) : null;
+    if (name === null || !(name in normalized)) {
+      throw new Error(`File not found in spec bundle: ${url}`);
+    }
+    return normalized[name];
+  };
+
+  return bundle(VIRTUAL_ROOT + entry, VIRTUAL_ROOT, {
+    file: false,
+    http: false,
+    bundle: {
+      order: 1,
+      canRead: true,
+      read: (file: { url: string }) => readVirtual(file.url),
+    },
+  }, async (url) => readVirtual(url));
+}
+
+/**
+ * Set the directory local spec paths are confined to, or reset it to
+ * MCP_SPEC_ROOT
+ */
+export function configureSpecRoot(directory?: string): void {
+  specRoot = directory ? path.resolve(directory) : defaultSpecRoot();
+}
+
+/**
+ * Bundle a local spec file, or a directory containing one, without network
+ * access. The spec, its entry file and every file it refers to must be
+ * inside the spec root
+ */
+export async function bundleSpecPath(
+  specPath: string,
+  entryFile?: string
+): Promise<ToolResponse<BundledSpec>> {
+  if (!specRoot) {
+    return errorResponse('INVALID_INPUT', 'Local spec paths are disabled; set MCP_SPEC_ROOT to allow reading specs from a directory', {
+      path: specPath,
+    });
+  }
+
+  let confinedTo: string;
+  let root: string;
+  try {
+    confinedTo = await realpath(specRoot);
+    root = await realpath(path.resolve(specRoot, specPath));
+  } catch (error) {
+    return errorResponse('INVALID_INPUT', 'Local spec path not found', {
+      path: specPath,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  if (!isInside(confinedTo, root)) {
+    return errorResponse('INVALID_INPUT', 'Local spec path is outside the spec root', { path: specPath });
+  }
+  let entry: string | undefined = entryFile;
+
+  if ((await stat(root)).isDirectory()) {
+    if (!entry) {
+      for (const candidate of DEFAULT_ENTRY_FILES) {
+        if (await isFile(path.join(root, candidate))) {
+          entry = candidate;
+          break;
+        }
+      }
+    }
+  } else {
+    entry = path.basename(root);
+    root = path.dirname(root);
+  }
+
+  // Checked before and after following symlinks, so nothing outside the root is probed
+  const outside = () => errorResponse('INVALID_INPUT', 'Entry file is outside the spec root', { entry_file: entry });
+  if (entry && !isInside(confinedTo, path.resolve(root, entry))) {
+    return outside();
+  }
+
+  if (!entry || !(await isFile(path.join(root, entry)))) {
+    return errorResponse('INVALID_INPUT', 'Entry file not found in spec directory', {
+      directory: root,
+      entry_file: entryFile ?? null,
+      tried: entryFile ? [entryFile] : DEFAULT_ENTRY_FILES,
+    });
+  }
+  if (!isInside(confinedTo, await realpath(path.join(root, entry)))) {
+    return outside();
+  }
+
+  const readConfined = (url: string) => readInsideRoot(confinedTo, url);
+  return bundle(path.join(root, entry), root + path.sep, {
+    file: false,
+    http: false,
+    confined: {
+      order: 1,
+      canRead: true,
+      read: (file: { url: string }) => readConfined(file.url),
+    },
+  }, readConfined);
+}
+
+/**
+ * Check whether the input names an existing file or directory under the
+ * spec root, or outside it, which bundleSpecPath then rejects
+ */
+export async function isLocalSpecPath(input: string): Promise<boolean> {
+  if (!specRoot || /^[a-z][a-z0-9+.-]*:\/\//i.test(input)) return false;
+  try {
+    await stat(path.resolve(specRoot, input));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Bundle external refs into the entry document, collecting unresolved refs
+ */
+async function bundle(
+  entryUrl: string,
+  root: string,
+  resolve: Record<string, unknown>,
+  readSource: (url: string) => Promise<string>
+): Promise<ToolResponse<BundledSpec>> {
+  const entry = entryUrl.slice(root.length);
+
+  try {
+    const document = await SwaggerParser.bundle(entryUrl, {
+      resolve,
+      continueOnError: true,
+    } as SwaggerParser.Options);
+    return successResponse({ document, entry_file: entry });
+  } catch (error) {
+    const errors = (error as { errors?: RefParserError[] }).errors;
+    if (!errors) {
+      return errorResponse('PARSE_ERROR', 'Failed to bundle spec files', {
+        entry_file: entry,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    const unresolved: UnresolvedRef[] = [];
+    for (const refError of errors) {
+      const source = refError.source || entryUrl;
+      const tokens = (refError.path || []).map(String);
+      unresolved.push({
+        ref: await findRef(source, tokens, readSource),
+        file: source.startsWith(root) ? source.slice(root.length) : source,
+        pointer: toJsonPointer(tokens),
+        message: refError.message,
+      });
+    }
+
+    return errorResponse('PARSE_ERROR', `Unresolved $ref(s) in spec bundle (${unresolved.length})`, {
+      entry_file: entry,
+      unresolved,
+    });
+  }
+}
+
+/**
+ * Look up the $ref value at a location in a source file
+ */
+async function findRef(
+  source: string,
+  tokens: string[],
+  readSource: (url: string) => Promise<string>
+): Promise<string | null> {
+  try {
+    const node = resolveJsonPointer(yaml.load(await readSource(source)), toJsonPointer(tokens));
+    const ref = (node as { $ref?: unknown }).$ref;
+    return typeof ref === 'string' ? ref : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Normalize a bundle file name to a relative POSIX path
+ */
+function normalizeFileName(name: string): string {
+  return path.posix.normalize(name.replace(/\\/g, '/')).replace(/^(\.\/|\/)+/, '');
+}
+
+/**
+ * Check whether a path is an existing file
+ */
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a file a $ref points at, refusing files outside the spec root,
+ * including through symlinks
+ */
+async function readInsideRoot(confinedTo: string, url: string): Promise<string> {
+  const filePath = await realpath(url.startsWith('file:') ? fileURLToPath(url) : safeDecode(url));
+  if (!isInside(confinedTo, filePath)) {
+    throw new Error(`Refusing to read ${url}: it is outside the spec root`);
+  }
+  return readFile(filePath, 'utf-8');
+}
+
+/**
+ * Check whether a path is the directory itself or inside it
+ */
+function isInside(directory: string, filePath: string): boolean {
+  const relative = path.relative(directory, filePath);
+  return relative === '' || (relative.split(path.sep)[0] !== '..' && !path.isAbsolute(relative));
+}
+
+/**
+ * Undo the percent-encoding the ref parser applies to file paths
+ */
+function safeDecode(url: string): string {
+  try {
+    return decodeURI(url);
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * The spec root from the MCP_SPEC_ROOT environment variable
+ */
+function defaultSpecRoot(): string | undefined {
+  return process.env.MCP_SPEC_ROOT ? path.resolve(process.env.MCP_SPEC_ROOT) : undefined;
+}
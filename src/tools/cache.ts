@@ -0,0 +1,268 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rm, stat, utimes, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  type ParsedOpenAPISpec,
+  type SpecCacheOptions,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+const DEFAULT_TTL_SECONDS = 3600;
+const DEFAULT_MAX_BYTES = 64 * 1024 * 1024;
+const DEFAULT_MAX_DISK_BYTES = 256 * 1024 * 1024;
+
+/**
+ * Spec IDs are hex content hashes; anything else is never looked up on disk
+ */
+const SPEC_ID_PATTERN = /^[0-9a-f]{32}$/;
+
+interface CacheSettings {
+  ttl_seconds: number;
+  max_bytes: number;
+  directory?: string;
+  max_disk_bytes: number;
+}
+
+interface CacheEntry {
+  spec: ParsedOpenAPISpec;
+  bytes: number;
+  expires_at: number;
+}
+
+let settings: CacheSettings = defaultSettings();
+
+/**
+ * In-memory entries in least- to most-recently used order
+ */
+const entries = new Map<string, CacheEntry>();
+let totalBytes = 0;
+
+/**
+ * Replace the cache settings and drop every in-memory entry
+ */
+export function configureSpecCache(options: SpecCacheOptions = {}): void {
+  const defaults = defaultSettings();
+  settings = {
+    ttl_seconds: options.ttl_seconds ?? defaults.ttl_seconds,
+    max_bytes: options.max_bytes ?? defaults.max_bytes,
+    directory: options.directory ?? defaults.directory,
+    max_disk_bytes: options.max_disk_bytes ?? defaults.max_disk_bytes,
+  };
+  entries.clear();
+  totalBytes = 0;
+}
+
+/**
+ * Store a parsed spec and return its spec ID, a hash of its content. The
+ * cache keeps a frozen copy, so later changes to the spec do not reach it.
+ * Failures to persist to disk are reported in warnings, and a spec that
+ * could be stored nowhere gets no spec ID
+ */
+export async function cacheParsedSpec(spec: ParsedOpenAPISpec, warnings: string[]): Promise<string | undefined> {
+  const json = JSON.stringify(spec);
+  const bytes = Buffer.byteLength(json);
+  const specId = hashJson(json);
+
+  let stored = remember(specId, freezeCopy(json), bytes);
+
+  if (settings.directory && bytes <= settings.max_disk_bytes) {
+    try {
+      await mkdir(settings.directory, { recursive: true });
+      await writeFile(join(settings.directory, `${specId}.json`), json);
+      stored = true;
+      await pruneDirectory(settings.directory, specId, bytes);
+    } catch (error) {
+      warnings.push(`Could not persist spec ${specId} to cache directory: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (!stored) {
+    warnings.push(
+      `The spec (${bytes} bytes) is larger than the spec cache (${settings.max_bytes} bytes) and was not persisted to disk, so it has no spec_id; pass parsed_spec instead`
+    );
+    return undefined;
+  }
+
+  return specId;
+}
+
+/**
+ * Hash a parsed spec's content. This is the spec ID it is cached under
+ */
+export function hashSpec(spec: ParsedOpenAPISpec): string {
+  return hashJson(JSON.stringify(spec));
+}
+
+/**
+ * Look up a cached spec by ID, falling back to the cache directory. The spec
+ * is frozen: callers that need to change it work on a copy
+ */
+export async function getCachedSpec(specId: string): Promise<ParsedOpenAPISpec | undefined> {
+  evictExpired();
+
+  const entry = entries.get(specId);
+  if (entry) {
+    remember(specId, entry.spec, entry.bytes);
+    return entry.spec;
+  }
+
+  if (!settings.directory || !SPEC_ID_PATTERN.test(specId)) {
+    return undefined;
+  }
+
+  const file = join(settings.directory, `${specId}.json`);
+  try {
+    const { mtimeMs } = await stat(file);
+    if (mtimeMs + settings.ttl_seconds * 1000 < Date.now()) {
+      await rm(file, { force: true });
+      return undefined;
+    }
+    const json = await readFile(file, 'utf8');
+    const spec = freezeCopy(json);
+    // The file's modification time is its last use, for TTL and eviction
+    const now = new Date();
+    await utimes(file, now, now);
+    remember(specId, spec, Buffer.byteLength(json));
+    return spec;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Resolve the spec a generator works on from either a spec_id or an inline parsed_spec
+ */
+export async function resolveParsedSpec(
+  specId: unknown,
+  parsedSpec: unknown
+): Promise<ToolResponse<ParsedOpenAPISpec>> {
+  if (specId === undefined) {
+    return successResponse(parsedSpec as ParsedOpenAPISpec);
+  }
+
+  if (typeof specId !== 'string') {
+    return errorResponse('INVALID_INPUT', 'spec_id must be a string', { provided: specId });
+  }
+
+  const spec = await getCachedSpec(specId);
+  if (!spec) {
+    return errorResponse('INVALID_INPUT', 'Unknown or expired spec_id; parse the spec again to get a new one', {
+      spec_id: specId,
+    });
+  }
+
+  return successResponse(spec);
+}
+
+/**
+ * Insert or refresh an entry as most recently used, then evict down to the
+ * size bound. Returns false when the spec is too large to keep in memory
+ */
+function remember(specId: string, spec: ParsedOpenAPISpec, bytes: number): boolean {
+  const existing = entries.get(specId);
+  if (existing) {
+    entries.delete(specId);
+    totalBytes -= existing.bytes;
+  }
+
+  // A spec larger than the whole cache is only kept on disk
+  if (bytes > settings.max_bytes) {
+    return false;
+  }
+
+  entries.set(specId, { spec, bytes, expires_at: Date.now() + settings.ttl_seconds * 1000 });
+  totalBytes += bytes;
+
+  for (const [id, entry] of entries) {
+    if (totalBytes <= settings.max_bytes) break;
+    entries.delete(id);
+    totalBytes -= entry.bytes;
+  }
+  return true;
+}
+
+/**
+ * Delete expired spec files from the cache directory, then the least
+ * recently used ones until the directory fits max_disk_bytes with the
+ * newly written spec
+ */
+async function pruneDirectory(directory: string, keep: string, keepBytes: number): Promise<void> {
+  const now = Date.now();
+  const files: { path: string; bytes: number; used_at: number }[] = [];
+
+  for (const name of await readdir(directory)) {
+    const specId = name.replace(/\.json$/, '');
+    if (specId === name || specId === keep || !SPEC_ID_PATTERN.test(specId)) continue;
+
+    const path = join(directory, name);
+    try {
+      const { mtimeMs, size } = await stat(path);
+      if (mtimeMs + settings.ttl_seconds * 1000 < now) {
+        await rm(path, { force: true });
+      } else {
+        files.push({ path, bytes: size, used_at: mtimeMs });
+      }
+    } catch {
+      // Removed by another writer in the meantime
+    }
+  }
+
+  let total = files.reduce((sum, file) => sum + file.bytes, keepBytes);
+  for (const file of files.sort((a, b) => a.used_at - b.used_at)) {
+    if (total <= settings.max_disk_bytes) break;
+    await rm(file.path, { force: true });
+    total -= file.bytes;
+  }
+}
+
+/**
+ * Hash serialized spec content into a spec ID
+ */
+function hashJson(json: string): string {
+  return createHash('sha256').update(json).digest('hex').slice(0, 32);
+}
+
+/**
+ * Parse a serialized spec into a deeply frozen object
+ */
+function freezeCopy(json: string): ParsedOpenAPISpec {
+  const freeze = (value: unknown): void => {
+    if (typeof value !== 'object' || value === null) return;
+    Object.freeze(value);
+    for (const item of Object.values(value)) freeze(item);
+  };
+
+  const spec = JSON.parse(json) as ParsedOpenAPISpec;
+  freeze(spec);
+  return spec;
+}
+
+/**
+ * Drop in-memory entries whose TTL has passed
+ */
+function evictExpired(): void {
+  const now = Date.now();
+  for (const [id, entry] of entries) {
+    if (entry.expires_at <= now) {
+      entries.delete(id);
+      totalBytes -= entry.bytes;
+    }
+  }
+}
+
+/**
+ * Cache settings from MCP_SPEC_CACHE_* environment variables, or the defaults
+ */
+function defaultSettings(): CacheSettings {
+  const ttl = Number(process.env.MCP_SPEC_CACHE_TTL_SECONDS);
+  const maxBytes = Number(process.env.MCP_SPEC_CACHE_MAX_BYTES);
+  const maxDiskBytes = Number(process.env.MCP_SPEC_CACHE_MAX_DISK_BYTES);
+  return {
+    ttl_seconds: ttl > 0 ? ttl : DEFAULT_TTL_SECONDS,
+    max_bytes: maxBytes > 0 ? maxBytes : DEFAULT_MAX_BYTES,
+    directory: process.env.MCP_SPEC_CACHE_DIR || undefined,
+    max_disk_bytes: maxDiskBytes > 0 ? maxDiskBytes : DEFAULT_MAX_DISK_BYTES,
+  };
+}
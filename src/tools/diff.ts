@@ -0,0 +1,451 @@
+import {
+  type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type ParsedResponse,
+  type MCPToolSchema,
+  type DiffChange,
+  type DiffChangeKind,
+  type DiffOptions,
+  type DiffResult,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+import { GRAPHQL_EXTENSION } from './graphql.js';
+import { createToolNamer } from './naming.js';
+import { openapiParse } from './parse.js';
+import { operationToTool, selectToolOperations } from './schemas.js';
+
+/**
+ * Nesting depth at which schema comparison stops
+ */
+const MAX_COMPARE_DEPTH = 10;
+
+/**
+ * The schema keywords compared between versions, shared by tool input
+ * schemas and parsed response schemas
+ */
+interface SchemaShape {
+  type?: string | string[];
+  enum?: unknown[];
+  properties?: Record<string, SchemaShape>;
+  required?: string[];
+  items?: SchemaShape;
+  $ref?: string;
+}
+
+/**
+ * An operation together with the tool generated from it
+ */
+interface OperationEntry {
+  label: string;
+  operation: ParsedOperation;
+  tool: MCPToolSchema;
+}
+
+/**
+ * State for comparing one pair of schemas
+ */
+interface CompareContext {
+  scope: 'input' | 'response';
+  status?: string;
+  entry: OperationEntry;
+  changes: DiffChange[];
+  resolveBefore: (ref: string) => SchemaShape | undefined;
+  resolveAfter: (ref: string) => SchemaShape | undefined;
+  seenRefs: Set<string>;
+}
+
+/**
+ * Diff two OpenAPI spec versions and classify each change as breaking or
+ * non-breaking for the generated MCP tools. Either side may be a spec
+ * (URL, JSON or YAML) or a parsed spec from openapi_parse
+ */
+export async function openapiDiff(
+  base: string | ParsedOpenAPISpec,
+  revision: string | ParsedOpenAPISpec,
+  options: DiffOptions = {}
+): Promise<ToolResponse<DiffResult>> {
+  try {
+    const baseSpec = await resolveSpec(base, 'base', options);
+    if (!baseSpec.ok) {
+      return baseSpec;
+    }
+
+    const revisionSpec = await resolveSpec(revision, 'revision', options);
+    if (!revisionSpec.ok) {
+      return revisionSpec;
+    }
+
+    const namer = createToolNamer(options);
+    if (!namer.ok) {
+      return namer;
+    }
+
+    const changes = diffSpecs(baseSpec.data, revisionSpec.data, options);
+    const changedOperations = new Set(
+      changes
+        .filter((change) => change.kind !== 'operation_added' && change.kind !== 'operation_removed')
+        .map((change) => change.operation)
+    );
+
+    return successResponse({
+      changes,
+      summary: {
+        breaking: changes.filter((change) => change.breaking).length,
+        non_breaking: changes.filter((change) => !change.breaking).length,
+        operations_added: changes.filter((change) => change.kind === 'operation_added').length,
+        operations_removed: changes.filter((change) => change.kind === 'operation_removed').length,
+        operations_changed: changedOperations.size,
+      },
+    }, {
+      warnings: [...baseSpec.meta.warnings, ...revisionSpec.meta.warnings],
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Failed to diff OpenAPI specs', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Parse a raw spec, or accept an already parsed one
+ */
+async function resolveSpec(
+  input: string | ParsedOpenAPISpec,
+  side: 'base' | 'revision',
+  options: DiffOptions
+): Promise<ToolResponse<ParsedOpenAPISpec>> {
+  if (typeof input === 'string') {
+    const parsed = await openapiParse(input, options);
+    if (!parsed.ok) {
+      return errorResponse(parsed.error.code, `Failed to parse ${side} spec: ${parsed.error.message}`, {
+        ...parsed.error.details,
+        side,
+      });
+    }
+    return parsed;
+  }
+
+  if (!input || typeof input !== 'object' || !Array.isArray(input.paths)) {
+    return errorResponse('INVALID_INPUT', `${side} must be a spec string or a parsed spec from openapi_parse`, {
+      side,
+    });
+  }
+
+  return successResponse(input);
+}
+
+/**
+ * Compare operations matched by method and path
+ */
+function diffSpecs(base: ParsedOpenAPISpec, revision: ParsedOpenAPISpec, options: DiffOptions): DiffChange[] {
+  const changes: DiffChange[] = [];
+  const before = collectOperations(base, options);
+  const after = collectOperations(revision, options);
+
+  for (const [key, entry] of before) {
+    const next = after.get(key);
+    if (!next) {
+      changes.push(change(entry, 'operation_removed', true, 'operation', `Operation ${key} was removed`));
+      continue;
+    }
+    diffOperation(entry, next, base, revision, changes);
+  }
+
+  for (const [key, entry] of after) {
+    if (!before.has(key)) {
+      changes.push(change(entry, 'operation_added', false, 'operation', `Operation ${key} was added`));
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Index the operations that produce tools by "METHOD /path", named as
+ * generate_tool_schemas names them across the whole spec. GraphQL operations
+ * share their endpoint's path, so their root field is added to the key
+ */
+function collectOperations(spec: ParsedOpenAPISpec, options: DiffOptions): Map<string, OperationEntry> {
+  const entries = new Map<string, OperationEntry>();
+
+  // The naming options were checked up front, so selection cannot fail here
+  const selected = selectToolOperations(spec, options, []);
+  for (const { path, operation, name } of selected.ok ? selected.data.operations : []) {
+    const graphql = operation.extensions?.[GRAPHQL_EXTENSION] as { operation: string; field: string } | undefined;
+    const label = `${operation.method.toUpperCase()} ${path}${graphql ? ` (${graphql.operation} ${graphql.field})` : ''}`;
+    entries.set(label, { label, operation, tool: operationToTool(operation, spec.schemas || {}, {}, [], name) });
+  }
+
+  return entries;
+}
+
+/**
+ * Compare the tool name, input schema and responses of one operation
+ */
+function diffOperation(
+  before: OperationEntry,
+  after: OperationEntry,
+  base: ParsedOpenAPISpec,
+  revision: ParsedOpenAPISpec,
+  changes: DiffChange[]
+): void {
+  if (before.tool.name !== after.tool.name) {
+    changes.push(change(
+      after,
+      'tool_renamed',
+      true,
+      'operation',
+      `Tool for ${after.label} was renamed from '${before.tool.name}' to '${after.tool.name}'`
+    ));
+  }
+
+  compareSchemas(before.tool.inputSchema, after.tool.inputSchema, '', {
+    scope: 'input',
+    entry: after,
+    changes,
+    resolveBefore: (ref) => before.tool.inputSchema.$defs?.[ref.replace('#/$defs/', '')],
+    resolveAfter: (ref) => after.tool.inputSchema.$defs?.[ref.replace('#/$defs/', '')],
+    seenRefs: new Set(),
+  }, 0);
+
+  diffResponses(before, after, base, revision, changes);
+}
+
+/**
+ * Compare responses by status code. Losing a success response or changing
+ * its body shape breaks callers that read the tool output
+ */
+function diffResponses(
+  before: OperationEntry,
+  after: OperationEntry,
+  base: ParsedOpenAPISpec,
+  revision: ParsedOpenAPISpec,
+  changes: DiffChange[]
+): void {
+  const previous = new Map(before.operation.responses.map((response) => [response.status_code, response]));
+  const next = new Map(after.operation.responses.map((response) => [response.status_code, response]));
+
+  for (const [status, response] of previous) {
+    const updated = next.get(status);
+    if (!updated) {
+      changes.push(change(
+        after,
+        'response_removed',
+        status.startsWith('2'),
+        'response',
+        `Response ${status} of ${after.label} was removed`,
+        { status }
+      ));
+      continue;
+    }
+
+    const beforeSchema = responseSchema(response);
+    const afterSchema = responseSchema(updated);
+    if (beforeSchema && afterSchema) {
+      compareSchemas(beforeSchema, afterSchema, '', {
+        scope: 'response',
+        status,
+        entry: after,
+        changes,
+        resolveBefore: (ref) => base.schemas?.[ref.replace('#/components/schemas/', '')],
+        resolveAfter: (ref) => revision.schemas?.[ref.replace('#/components/schemas/', '')],
+        seenRefs: new Set(),
+      }, 0);
+    }
+  }
+
+  for (const status of next.keys()) {
+    if (!previous.has(status)) {
+      changes.push(change(
+        after,
+        'response_added',
+        false,
+        'response',
+        `Response ${status} of ${after.label} was added`,
+        { status }
+      ));
+    }
+  }
+}
+
+/**
+ * Pick the JSON (or first) body schema of a response
+ */
+function responseSchema(response: ParsedResponse): SchemaShape | undefined {
+  const content = response.content;
+  return (content?.['application/json'] || Object.values(content || {})[0])?.schema as SchemaShape | undefined;
+}
+
+/**
+ * Compare two schemas. Input schemas break when they accept less than
+ * before; response schemas break when they may return something new
+ */
+function compareSchemas(
+  beforeRaw: SchemaShape,
+  afterRaw: SchemaShape,
+  location: string,
+  ctx: CompareContext,
+  depth: number
+): void {
+  if (depth > MAX_COMPARE_DEPTH) return;
+
+  // Recursive schemas are compared once per pair of refs
+  if (beforeRaw.$ref && afterRaw.$ref) {
+    const key = `${beforeRaw.$ref}|${afterRaw.$ref}`;
+    if (ctx.seenRefs.has(key)) return;
+    ctx.seenRefs.add(key);
+  }
+
+  const before = resolveShape(beforeRaw, ctx.resolveBefore);
+  const after = resolveShape(afterRaw, ctx.resolveAfter);
+  const input = ctx.scope === 'input';
+  const where = describeLocation(ctx, location);
+  const at = (path: string) => ({ status: ctx.status, location: path });
+
+  const beforeTypes = toTypeList(before.type);
+  const afterTypes = toTypeList(after.type);
+  if (beforeTypes && afterTypes && !sameMembers(beforeTypes, afterTypes)) {
+    const widened = beforeTypes.every((type) => afterTypes.includes(type));
+    const narrowed = afterTypes.every((type) => beforeTypes.includes(type));
+    ctx.changes.push(change(
+      ctx.entry,
+      'type_changed',
+      input ? !widened : !narrowed,
+      ctx.scope,
+      `${where} type changed from ${beforeTypes.join(' | ')} to ${afterTypes.join(' | ')}`,
+      at(location)
+    ));
+  }
+
+  if (before.enum && after.enum) {
+    for (const value of before.enum.filter((v) => !after.enum!.includes(v))) {
+      ctx.changes.push(change(
+        ctx.entry,
+        'enum_value_removed',
+        input,
+        ctx.scope,
+        `${where} no longer allows ${JSON.stringify(value)}`,
+        at(location)
+      ));
+    }
+    for (const value of after.enum.filter((v) => !before.enum!.includes(v))) {
+      ctx.changes.push(change(
+        ctx.entry,
+        'enum_value_added',
+        !input,
+        ctx.scope,
+        `${where} now allows ${JSON.stringify(value)}`,
+        at(location)
+      ));
+    }
+  }
+
+  const beforeProps = before.properties || {};
+  const afterProps = after.properties || {};
+  const beforeRequired = new Set(before.required || []);
+  const afterRequired = new Set(after.required || []);
+
+  for (const [name, schema] of Object.entries(beforeProps)) {
+    const path = location ? `${location}.${name}` : name;
+    const label = describeLocation(ctx, path);
+
+    if (!(name in afterProps)) {
+      ctx.changes.push(change(ctx.entry, 'property_removed', true, ctx.scope, `${label} was removed`, at(path)));
+      continue;
+    }
+
+    if (!beforeRequired.has(name) && afterRequired.has(name)) {
+      ctx.changes.push(change(ctx.entry, 'property_required', input, ctx.scope, `${label} is now required`, at(path)));
+    } else if (beforeRequired.has(name) && !afterRequired.has(name)) {
+      ctx.changes.push(
+        change(ctx.entry, 'property_optional', !input, ctx.scope, `${label} is no longer required`, at(path))
+      );
+    }
+
+    compareSchemas(schema, afterProps[name], path, ctx, depth + 1);
+  }
+
+  for (const name of Object.keys(afterProps)) {
+    if (name in beforeProps) continue;
+    const path = location ? `${location}.${name}` : name;
+    const required = afterRequired.has(name);
+    ctx.changes.push(change(
+      ctx.entry,
+      'property_added',
+      input && required,
+      ctx.scope,
+      `${describeLocation(ctx, path)} was added${required ? ' as required' : ''}`,
+      at(path)
+    ));
+  }
+
+  if (before.items && after.items) {
+    compareSchemas(before.items, after.items, `${location}[]`, ctx, depth + 1);
+  }
+}
+
+/**
+ * Follow a chain of $refs to the schema they name
+ */
+function resolveShape(schema: SchemaShape, resolve: (ref: string) => SchemaShape | undefined): SchemaShape {
+  let current = schema;
+  for (let hops = 0; current.$ref && hops < MAX_COMPARE_DEPTH; hops++) {
+    const target = resolve(current.$ref);
+    if (!target) break;
+    current = target;
+  }
+  return current;
+}
+
+/**
+ * Describe a location for change messages
+ */
+function describeLocation(ctx: CompareContext, location: string): string {
+  if (ctx.scope === 'input') {
+    return location ? `Input '${location}' of ${ctx.entry.tool.name}` : `Input of ${ctx.entry.tool.name}`;
+  }
+  return location
+    ? `Response ${ctx.status} field '${location}' of ${ctx.entry.label}`
+    : `Response ${ctx.status} body of ${ctx.entry.label}`;
+}
+
+/**
+ * Normalize a type keyword to a list, if present
+ */
+function toTypeList(type?: string | string[]): string[] | undefined {
+  if (type === undefined) return undefined;
+  return Array.isArray(type) ? type : [type];
+}
+
+/**
+ * Check whether two lists contain the same members, ignoring order
+ */
+function sameMembers(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item) => b.includes(item));
+}
+
+/**
+ * Build a change entry for an operation
+ */
+function change(
+  entry: OperationEntry,
+  kind: DiffChangeKind,
+  breaking: boolean,
+  scope: DiffChange['scope'],
+  message: string,
+  where: { status?: string; location?: string } = {}
+): DiffChange {
+  const result: DiffChange = {
+    kind,
+    breaking,
+    scope,
+    operation: entry.label,
+    tool: entry.tool.name,
+    message,
+  };
+  if (where.status) result.status = where.status;
+  if (where.location) result.location = where.location;
+  return result;
+}
@@ -0,0 +1,506 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import yaml from 'js-yaml';
+import type { OpenAPI } from 'openapi-types';
+import {
+  type ExportOptions,
+  type ExportedOpenAPI,
+  type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type ParsedParameter,
+  type ParsedExample,
+  type ParsedRequestBody,
+  type ParsedResponse,
+  type ParsedLink,
+  type ParsedSchema,
+  type ParsedSecurityScheme,
+  type ParsedServer,
+  type ParameterStyle,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+type Node = Record<string, unknown>;
+type OpenAPIVersion = NonNullable<ExportOptions['openapi_version']>;
+
+/**
+ * Version string emitted when the target differs from the parsed spec's version line
+ */
+const VERSION_STRINGS: Record<OpenAPIVersion, string> = {
+  '3.0': '3.0.3',
+  '3.1': '3.1.0',
+};
+
+/**
+ * Default parameter serialization style per location, omitted from the export
+ */
+const DEFAULT_PARAMETER_STYLES: Record<ParsedParameter['in'], ParameterStyle> = {
+  query: 'form',
+  cookie: 'form',
+  path: 'simple',
+  header: 'simple',
+};
+
+/**
+ * JSON Schema 2020-12 keywords that OpenAPI 3.0 schemas cannot express
+ */
+const KEYWORDS_WITHOUT_30_EQUIVALENT = [
+  'prefixItems', '$defs', 'if', 'then', 'else', 'dependentRequired', 'contentEncoding', 'contentMediaType',
+];
+
+/**
+ * Keywords that give a schema enough structure to be worth a $ref to an equal component
+ */
+const STRUCTURAL_KEYWORDS = ['properties', 'items', 'oneOf', 'anyOf', 'allOf', 'enum'];
+
+/**
+ * State shared while exporting a spec
+ */
+interface ExportContext {
+  version: OpenAPIVersion;
+  /** Component schema refs by the JSON of the parsed schema they hold */
+  componentRefs: Map<string, string>;
+  /** Schema keywords dropped because the target version cannot express them */
+  dropped: Set<string>;
+  warnings: string[];
+}
+
+/**
+ * Serialize a parsed spec back to an OpenAPI 3.0 or 3.1 document as JSON or YAML.
+ * Parsing the result gives back the same parsed spec when the version line is kept
+ */
+export async function openapiExport(
+  spec: ParsedOpenAPISpec,
+  options: ExportOptions = {}
+): Promise<ToolResponse<ExportedOpenAPI>> {
+  if (!spec || typeof spec !== 'object' || !Array.isArray(spec.paths) || !spec.info) {
+    return errorResponse('INVALID_INPUT', 'parsed_spec must be a parsed spec returned by openapi_parse', {});
+  }
+
+  const version = options.openapi_version ?? (spec.openapi_version?.startsWith('3.1') ? '3.1' : '3.0');
+  if (!Object.hasOwn(VERSION_STRINGS, version)) {
+    return errorResponse('INVALID_INPUT', 'openapi_version must be "3.0" or "3.1"', {
+      provided: options.openapi_version,
+    });
+  }
+
+  const format = options.format ?? 'json';
+  if (format !== 'json' && format !== 'yaml') {
+    return errorResponse('INVALID_INPUT', 'format must be "json" or "yaml"', { provided: options.format });
+  }
+
+  try {
+    const ctx: ExportContext = {
+      version,
+      componentRefs: componentRefs(spec.schemas || {}),
+      dropped: new Set(),
+      warnings: [],
+    };
+
+    const document = exportDocument(ctx, spec);
+
+    if (ctx.dropped.size > 0) {
+      ctx.warnings.push(`Dropped schema keywords OpenAPI 3.0 cannot express: ${[...ctx.dropped].join(', ')}`);
+    }
+
+    try {
+      await SwaggerParser.validate(structuredClone(document) as OpenAPI.Document);
+    } catch (error) {
+      ctx.warnings.push(`Exported document does not validate: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return successResponse({
+      openapi_version: document.openapi as string,
+      format,
+      content: format === 'json'
+        ? JSON.stringify(document, null, 2)
+        : yaml.dump(document, { noRefs: true, lineWidth: -1 }),
+    }, {
+      warnings: ctx.warnings,
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while exporting OpenAPI spec', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Build the OpenAPI document. Operations keep their effective security and
+ * servers only where they differ from the spec-level defaults
+ */
+function exportDocument(ctx: ExportContext, spec: ParsedOpenAPISpec): Node {
+  const servers = spec.servers || [];
+  const paths: Node = {};
+
+  for (const { path, operations } of spec.paths) {
+    paths[path] = exportPathItem(ctx, path, operations, { servers, security: spec.security });
+  }
+
+  const document: Node = {
+    openapi: spec.openapi_version?.startsWith(ctx.version) ? spec.openapi_version : VERSION_STRINGS[ctx.version],
+    info: withoutUndefined({ ...spec.info }),
+  };
+  if (servers.length > 0) document.servers = servers.map(exportServer);
+  if (spec.security) document.security = spec.security;
+  document.paths = paths;
+
+  if (spec.webhooks?.length) {
+    if (ctx.version === '3.1') {
+      document.webhooks = Object.fromEntries(spec.webhooks.map((webhook) => [
+        webhook.name,
+        exportPathItem(ctx, webhook.name, webhook.operations, { servers: [] }),
+      ]));
+    } else {
+      ctx.warnings.push(`Dropped webhooks (${spec.webhooks.map((webhook) => webhook.name).join(', ')}); they need OpenAPI 3.1`);
+    }
+  }
+
+  const components: Node = {};
+  if (Object.keys(spec.schemas || {}).length > 0) {
+    components.schemas = mapValues(spec.schemas, (schema, name) => exportSchema(ctx, schema, name));
+  }
+  if (Object.keys(spec.security_schemes || {}).length > 0) {
+    components.securitySchemes = mapValues(spec.security_schemes, exportSecurityScheme);
+  }
+  if (Object.keys(components).length > 0) document.components = components;
+
+  return document;
+}
+
+/**
+ * Spec-level settings that operations leave out when theirs are the same
+ */
+interface ExportDefaults {
+  servers: ParsedServer[];
+  security?: ParsedOpenAPISpec['security'];
+}
+
+/**
+ * Build a path item from its operations; a second operation on the same method is skipped
+ */
+function exportPathItem(ctx: ExportContext, path: string, operations: ParsedOperation[], defaults: ExportDefaults): Node {
+  const pathItem: Node = {};
+
+  for (const operation of operations) {
+    const method = operation.method.toLowerCase();
+    if (pathItem[method]) {
+      ctx.warnings.push(
+        `Skipped ${operation.method} ${path} (${operation.operation_id}): another operation already uses that method and path`
+      );
+      continue;
+    }
+    pathItem[method] = exportOperation(ctx, operation, defaults);
+  }
+
+  return pathItem;
+}
+
+/**
+ * Build an operation object
+ */
+function exportOperation(ctx: ExportContext, operation: ParsedOperation, defaults: ExportDefaults): Node {
+  const result: Node = {};
+  if (operation.tags) result.tags = operation.tags;
+  if (operation.summary) result.summary = operation.summary;
+  if (operation.description) result.description = operation.description;
+  result.operationId = operation.operation_id;
+  if (operation.parameters.length > 0) {
+    result.parameters = operation.parameters.map((param) => exportParameter(ctx, param));
+  }
+  if (operation.request_body) result.requestBody = exportRequestBody(ctx, operation.request_body);
+  result.responses = Object.fromEntries(operation.responses.map((response) => [
+    response.status_code,
+    exportResponse(ctx, response),
+  ]));
+
+  if (operation.callbacks) {
+    const callbacks: Record<string, Node> = {};
+    for (const callback of operation.callbacks) {
+      callbacks[callback.name] = {
+        ...callbacks[callback.name],
+        [callback.expression]: exportPathItem(ctx, callback.expression, callback.operations, { servers: [] }),
+      };
+    }
+    result.callbacks = callbacks;
+  }
+
+  if (operation.deprecated) result.deprecated = true;
+  if (operation.security && !sameJson(operation.security, defaults.security)) {
+    result.security = operation.security;
+  }
+  if (operation.servers?.length && !sameJson(operation.servers, defaults.servers)) {
+    result.servers = operation.servers.map(exportServer);
+  }
+
+  return { ...result, ...operation.extensions };
+}
+
+/**
+ * Build a parameter object, or a header object when the name and location
+ * are given by the response's header map
+ */
+function exportParameter(ctx: ExportContext, param: ParsedParameter, asHeader = false): Node {
+  const result: Node = asHeader ? {} : { name: param.name, in: param.in };
+  if (param.description) result.description = param.description;
+  if (param.required) result.required = true;
+  if (param.deprecated) result.deprecated = true;
+
+  if (param.content) {
+    result.content = exportContent(ctx, param.content);
+  } else {
+    const defaultStyle = DEFAULT_PARAMETER_STYLES[param.in];
+    if (param.style && param.style !== defaultStyle) result.style = param.style;
+    if (param.explode !== undefined && param.explode !== ((param.style ?? defaultStyle) === 'form')) {
+      result.explode = param.explode;
+    }
+    result.schema = exportSchema(ctx, param.schema);
+  }
+
+  if (param.allow_reserved !== undefined) result.allowReserved = param.allow_reserved;
+  if (param.allow_empty_value !== undefined) result.allowEmptyValue = param.allow_empty_value;
+  if (param.example !== undefined) result.example = param.example;
+  if (param.examples) result.examples = mapValues(param.examples, exportExample);
+
+  return { ...result, ...param.extensions };
+}
+
+/**
+ * Build a named example
+ */
+function exportExample(example: ParsedExample): Node {
+  return withoutUndefined({
+    summary: example.summary,
+    description: example.description,
+    value: example.value,
+    externalValue: example.external_value,
+  });
+}
+
+/**
+ * Build a content map of media types to schemas
+ */
+function exportContent(ctx: ExportContext, content: Record<string, { schema: ParsedSchema }>): Node {
+  return mapValues(content, (media) => ({ schema: exportSchema(ctx, media.schema) }));
+}
+
+/**
+ * Build a request body object
+ */
+function exportRequestBody(ctx: ExportContext, body: ParsedRequestBody): Node {
+  return withoutUndefined({
+    description: body.description,
+    content: exportContent(ctx, body.content),
+    required: body.required || undefined,
+  });
+}
+
+/**
+ * Build a response object with its headers and links
+ */
+function exportResponse(ctx: ExportContext, response: ParsedResponse): Node {
+  const result: Node = { description: response.description };
+  if (response.headers) {
+    result.headers = mapValues(response.headers, (header) => exportParameter(ctx, header, true));
+  }
+  if (response.content) result.content = exportContent(ctx, response.content);
+  if (response.links) result.links = mapValues(response.links, exportLink);
+  return result;
+}
+
+/**
+ * Build a response link
+ */
+function exportLink(link: ParsedLink): Node {
+  return withoutUndefined({
+    operationRef: link.operation_ref,
+    operationId: link.operation_id,
+    parameters: link.parameters,
+    requestBody: link.request_body,
+    description: link.description,
+    server: link.server && exportServer(link.server),
+  });
+}
+
+/**
+ * Build a server object
+ */
+function exportServer(server: ParsedServer): Node {
+  return withoutUndefined({
+    url: server.url,
+    description: server.description,
+    variables: server.variables && mapValues(server.variables, (variable) => withoutUndefined({ ...variable })),
+  });
+}
+
+/**
+ * Build a security scheme object
+ */
+function exportSecurityScheme(scheme: ParsedSecurityScheme): Node {
+  return withoutUndefined({
+    type: scheme.type,
+    description: scheme.description,
+    name: scheme.name,
+    in: scheme.in,
+    scheme: scheme.scheme,
+    bearerFormat: scheme.bearer_format,
+    flows: scheme.flows && mapValues(scheme.flows, (flow) => withoutUndefined({
+      authorizationUrl: flow.authorization_url,
+      tokenUrl: flow.token_url,
+      refreshUrl: flow.refresh_url,
+      scopes: flow.scopes,
+    })),
+    openIdConnectUrl: scheme.open_id_connect_url,
+  });
+}
+
+/**
+ * Build a schema object in the target version's dialect. Inline schemas equal
+ * to a component become a $ref to it, which keeps circular schemas finite
+ */
+function exportSchema(ctx: ExportContext, schema: ParsedSchema, componentName?: string): Node {
+  if (schema.$ref) {
+    return { $ref: schema.$ref };
+  }
+  if (!componentName && STRUCTURAL_KEYWORDS.some((keyword) => keyword in schema)) {
+    const ref = ctx.componentRefs.get(JSON.stringify(schema));
+    if (ref) return { $ref: ref };
+  }
+
+  const { extensions, properties, items, prefixItems, oneOf, anyOf, allOf, additionalProperties, $defs, ...keywords } = schema;
+  const result: Node = { ...keywords };
+
+  if (properties) result.properties = mapValues(properties, (value) => exportSchema(ctx, value));
+  if (items) result.items = exportSchema(ctx, items);
+  if (prefixItems) result.prefixItems = prefixItems.map((value) => exportSchema(ctx, value));
+  if (oneOf) result.oneOf = oneOf.map((value) => exportSchema(ctx, value));
+  if (anyOf) result.anyOf = anyOf.map((value) => exportSchema(ctx, value));
+  if (allOf) result.allOf = allOf.map((value) => exportSchema(ctx, value));
+  for (const keyword of ['not', 'if', 'then', 'else'] as const) {
+    const value = schema[keyword];
+    if (value) result[keyword] = exportSchema(ctx, value);
+  }
+  if (additionalProperties !== undefined) {
+    result.additionalProperties = typeof additionalProperties === 'boolean'
+      ? additionalProperties
+      : exportSchema(ctx, additionalProperties);
+  }
+  if ($defs) result.$defs = mapValues($defs, (value) => exportSchema(ctx, value));
+
+  Object.assign(result, extensions);
+  return ctx.version === '3.0' ? toOpenAPI30Schema(ctx, result) : toOpenAPI31Schema(result);
+}
+
+/**
+ * Rewrite JSON Schema 2020-12 keywords into their OpenAPI 3.0 form: type
+ * arrays become nullable or anyOf, const an enum, examples an example and
+ * numeric exclusive bounds the boolean flags
+ */
+function toOpenAPI30Schema(ctx: ExportContext, schema: Node): Node {
+  if (Array.isArray(schema.type)) {
+    const types = (schema.type as string[]).filter((type) => type !== 'null');
+    if (types.length < schema.type.length) schema.nullable = true;
+    if (types.length === 1) {
+      schema.type = types[0];
+    } else {
+      delete schema.type;
+      if (types.length > 1) {
+        const variants = types.map((type) => ({ type }));
+        if (schema.anyOf) {
+          schema.allOf = [...(schema.allOf as Node[] || []), { anyOf: variants }];
+        } else {
+          schema.anyOf = variants;
+        }
+      }
+    }
+  }
+
+  if ('const' in schema) {
+    schema.enum ??= [schema.const];
+    delete schema.const;
+  }
+
+  if (Array.isArray(schema.examples)) {
+    if (schema.example === undefined && schema.examples.length > 0) schema.example = schema.examples[0];
+    delete schema.examples;
+  }
+
+  for (const [exclusive, inclusive, tighter] of [
+    ['exclusiveMinimum', 'minimum', (a: number, b: number) => a >= b],
+    ['exclusiveMaximum', 'maximum', (a: number, b: number) => a <= b],
+  ] as const) {
+    const bound = schema[exclusive];
+    if (typeof bound !== 'number') continue;
+    const current = schema[inclusive] as number | undefined;
+    if (current === undefined || tighter(bound, current)) {
+      schema[inclusive] = bound;
+      schema[exclusive] = true;
+    } else {
+      delete schema[exclusive];
+    }
+  }
+
+  for (const keyword of KEYWORDS_WITHOUT_30_EQUIVALENT) {
+    if (keyword in schema) {
+      delete schema[keyword];
+      ctx.dropped.add(keyword);
+    }
+  }
+
+  return schema;
+}
+
+/**
+ * Rewrite OpenAPI 3.0 nullable into a 'null' type (and enum value) for 3.1
+ */
+function toOpenAPI31Schema(schema: Node): Node {
+  if (!schema.nullable) {
+    return schema;
+  }
+
+  delete schema.nullable;
+  if (typeof schema.type === 'string') {
+    schema.type = [schema.type, 'null'];
+  } else if (Array.isArray(schema.type) && !schema.type.includes('null')) {
+    schema.type = [...schema.type, 'null'];
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.includes(null)) {
+    schema.enum = [...schema.enum, null];
+  }
+  return schema;
+}
+
+/**
+ * Index the structured component schemas by their JSON for ref restoration
+ */
+function componentRefs(schemas: Record<string, ParsedSchema>): Map<string, string> {
+  const refs = new Map<string, string>();
+  for (const [name, schema] of Object.entries(schemas)) {
+    const key = JSON.stringify(schema);
+    if (STRUCTURAL_KEYWORDS.some((keyword) => keyword in schema) && !refs.has(key)) {
+      refs.set(key, `#/components/schemas/${name}`);
+    }
+  }
+  return refs;
+}
+
+/**
+ * Map the values of a record, keeping its keys
+ */
+function mapValues<T, U>(record: Record<string, T>, map: (value: T, key: string) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, map(value, key)]));
+}
+
+/**
+ * Drop the keys whose value is undefined
+ */
+function withoutUndefined(node: Node): Node {
+  return Object.fromEntries(Object.entries(node).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Compare two values by their JSON form
+ */
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
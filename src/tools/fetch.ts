@@ -0,0 +1,331 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { lookup } from 'dns/promises';
+import type { LookupAddress } from 'dns';
+import { type IncomingMessage, request as httpRequest } from 'http';
+import { request as httpsRequest } from 'https';
+import { type LookupFunction, isIP } from 'net';
+import {
+  type FetchOptions,
+  type ToolResponse,
+  type ErrorResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_REDIRECTS = 5;
+
+/**
+ * IPv4 ranges that are not publicly routable: this network, private,
+ * carrier-grade NAT, loopback, link-local and multicast/reserved
+ */
+const PRIVATE_IPV4_RANGES: [number, number][] = [
+  [0x00000000, 8],
+  [0x0a000000, 8],
+  [0x64400000, 10],
+  [0x7f000000, 8],
+  [0xa9fe0000, 16],
+  [0xac100000, 12],
+  [0xc0a80000, 16],
+  [0xe0000000, 3],
+];
+
+/**
+ * Limits shared by every request made while loading one spec
+ */
+interface FetchBudget {
+  options: FetchOptions;
+  /** Origin of the spec URL, the only one sent the configured headers; unset for inline specs */
+  origin?: string;
+  signal: AbortSignal;
+  remainingBytes: number;
+}
+
+/**
+ * Fetch a spec from a URL and bundle the external refs it points at. Every
+ * file is fetched under the same host rules, and the timeout and size limit
+ * cover the spec and its referenced files together
+ */
+export async function bundleSpecUrl(url: string, options: FetchOptions = {}): Promise<ToolResponse<unknown>> {
+  let origin: string;
+  try {
+    origin = new URL(url).origin;
+  } catch (error) {
+    return errorResponse('UPSTREAM_ERROR', 'Failed to fetch or parse OpenAPI spec from URL', {
+      url,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  return bundleWithBudget(url, createBudget(options, origin), 'Failed to fetch or parse OpenAPI spec from URL', { url });
+}
+
+/**
+ * Bundle the remote refs of an inline spec under the same host rules and
+ * limits as a spec URL. An inline spec has no origin, so the configured
+ * headers only go to hosts listed in allow_hosts, and refs to local files
+ * are not read
+ */
+export async function bundleSpecRefs(document: object, options: FetchOptions = {}): Promise<ToolResponse<unknown>> {
+  return bundleWithBudget(document, createBudget(options), 'Failed to resolve external $refs in the spec', {});
+}
+
+/**
+ * Start the time and size budget for loading one spec
+ */
+function createBudget(options: FetchOptions, origin?: string): FetchBudget {
+  return {
+    options,
+    origin,
+    signal: AbortSignal.timeout(options.timeout_ms ?? DEFAULT_TIMEOUT_MS),
+    remainingBytes: options.max_bytes ?? DEFAULT_MAX_BYTES,
+  };
+}
+
+/**
+ * Bundle a spec, fetching every http(s) ref through fetchText and refusing
+ * every other kind of external ref
+ */
+async function bundleWithBudget(
+  spec: string | object,
+  budget: FetchBudget,
+  message: string,
+  details: Record<string, unknown>
+): Promise<ToolResponse<unknown>> {
+  // The ref parser only sees the thrown message, so the full error is kept here
+  let failure: ErrorResponse | undefined;
+  const read = async (file: { url: string }): Promise<string> => {
+    const fetched = await fetchText(file.url, budget);
+    if (!fetched.ok) {
+      failure ??= fetched;
+      throw new Error(fetched.error.message);
+    }
+    return fetched.data;
+  };
+
+  try {
+    return successResponse(await SwaggerParser.bundle(spec as string, {
+      resolve: {
+        file: false,
+        http: false,
+        fetch: { order: 1, canRead: /^https?:/i, read },
+      },
+    } as SwaggerParser.Options));
+  } catch (error) {
+    return failure ?? errorResponse('UPSTREAM_ERROR', message, {
+      ...details,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Fetch one file as text, following redirects by hand so each hop is
+ * checked against the host rules
+ */
+async function fetchText(url: string, budget: FetchBudget): Promise<ToolResponse<string>> {
+  const { options } = budget;
+  const maxRedirects = options.max_redirects ?? DEFAULT_MAX_REDIRECTS;
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const allowed = await checkHost(current, options);
+    if (!allowed.ok) {
+      return allowed;
+    }
+
+    const trusted = budget.origin
+      ? current.origin === budget.origin
+      : options.allow_hosts?.some((pattern) => matchesHost(current.hostname.toLowerCase(), pattern)) ?? false;
+
+    let response: IncomingMessage;
+    try {
+      response = await get(current, allowed.data, trusted ? options.headers : undefined, budget.signal);
+    } catch (error) {
+      return requestError(error, current, budget);
+    }
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      if (redirects >= maxRedirects) {
+        return errorResponse('UPSTREAM_ERROR', `Spec URL redirected more than ${maxRedirects} times`, {
+          url,
+          last_location: current.href,
+        });
+      }
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy();
+      return errorResponse(
+        status === 429 ? 'RATE_LIMITED' : 'UPSTREAM_ERROR',
+        `Fetching ${current.href} failed with HTTP ${status}`,
+        { url: current.href, status }
+      );
+    }
+
+    return readBody(response, current, budget);
+  }
+}
+
+/**
+ * Send a GET request. When the host was resolved to check it, the connection
+ * goes to that address, so a second DNS answer cannot point it elsewhere
+ */
+function get(
+  url: URL,
+  address: LookupAddress | undefined,
+  headers: Record<string, string> | undefined,
+  signal: AbortSignal
+): Promise<IncomingMessage> {
+  const pinned: LookupFunction | undefined = address && ((_hostname, lookupOptions, callback) => {
+    if (lookupOptions.all) {
+      callback(null, [address]);
+    } else {
+      callback(null, address.address, address.family);
+    }
+  });
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      headers,
+      signal,
+      ...(pinned && { lookup: pinned }),
+    }, resolve);
+    request.on('error', reject);
+    request.end();
+  });
+}
+
+/**
+ * Read a response body, giving up as soon as it outgrows the remaining byte budget
+ */
+async function readBody(response: IncomingMessage, url: URL, budget: FetchBudget): Promise<ToolResponse<string>> {
+  const tooLarge = () => errorResponse('UPSTREAM_ERROR', 'Spec exceeds the max_bytes limit', {
+    url: url.href,
+    max_bytes: budget.options.max_bytes ?? DEFAULT_MAX_BYTES,
+  });
+
+  const declared = Number(response.headers['content-length']);
+  if (declared > budget.remainingBytes) {
+    response.destroy();
+    return tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      budget.remainingBytes -= chunk.byteLength;
+      if (budget.remainingBytes < 0) {
+        response.destroy();
+        return tooLarge();
+      }
+      chunks.push(chunk);
+    }
+  } catch (error) {
+    return requestError(error, url, budget);
+  }
+
+  return successResponse(Buffer.concat(chunks).toString('utf-8'));
+}
+
+/**
+ * Map a failed request to TIMEOUT when the time budget ran out, and to
+ * UPSTREAM_ERROR otherwise
+ */
+function requestError(error: unknown, url: URL, budget: FetchBudget): ErrorResponse {
+  if (budget.signal.aborted) {
+    return errorResponse('TIMEOUT', 'Timed out fetching OpenAPI spec', {
+      url: url.href,
+      timeout_ms: budget.options.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+    });
+  }
+  const cause = (error as { cause?: unknown })?.cause;
+  return errorResponse('UPSTREAM_ERROR', `Failed to fetch ${url.href}`, {
+    url: url.href,
+    error: cause instanceof Error ? cause.message : error instanceof Error ? error.message : String(error),
+  });
+}
+
+/**
+ * Check a URL against the scheme, host lists and private-network rule,
+ * returning the checked address to connect to when the host was resolved
+ */
+async function checkHost(url: URL, options: FetchOptions): Promise<ToolResponse<LookupAddress | undefined>> {
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  const refuse = (reason: string) => errorResponse('INVALID_INPUT', `Refusing to fetch ${url.href}: ${reason}`, {
+    url: url.href,
+    host,
+  });
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return refuse('only http and https URLs can be fetched');
+  }
+  if (options.deny_hosts?.some((pattern) => matchesHost(host, pattern))) {
+    return refuse('host is in deny_hosts');
+  }
+
+  const listed = options.allow_hosts?.some((pattern) => matchesHost(host, pattern)) ?? false;
+  if (options.allow_hosts && !listed) {
+    return refuse('host is not in allow_hosts');
+  }
+  if (listed || options.allow_private_network) {
+    return successResponse(undefined);
+  }
+
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true });
+  } catch (error) {
+    return errorResponse('UPSTREAM_ERROR', `Could not resolve host ${host}`, {
+      url: url.href,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  const privateAddress = addresses.find((entry) => isPrivateAddress(entry.address));
+  if (privateAddress) {
+    return refuse(`${privateAddress.address} is a private network address; set allow_private_network or list the host in allow_hosts`);
+  }
+  return successResponse(addresses[0]);
+}
+
+/**
+ * Match a host name against a pattern, where '*.example.com' matches any
+ * subdomain of example.com
+ */
+function matchesHost(host: string, pattern: string): boolean {
+  const normalized = pattern.toLowerCase().replace(/^\[|\]$/g, '');
+  return normalized.startsWith('*.')
+    ? host.endsWith(normalized.slice(1))
+    : host === normalized;
+}
+
+/**
+ * Check whether an IP address is loopback, private, link-local or otherwise
+ * not publicly routable
+ */
+function isPrivateAddress(address: string): boolean {
+  if (isIP(address) === 4) {
+    const value = address.split('.').reduce((total, octet) => total * 256 + Number(octet), 0);
+    return PRIVATE_IPV4_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === Math.floor(base / 2 ** (32 - bits)));
+  }
+
+  const lower = address.toLowerCase();
+  // IPv4-mapped addresses, written dotted or (as URLs normalize them) in hex
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) {
+    return isPrivateAddress(mapped[1]);
+  }
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
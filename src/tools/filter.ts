@@ -0,0 +1,165 @@
+import {
+  type ParsedOperation,
+  type OperationFilter,
+  type OperationFilterOptions,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+/**
+ * Decide whether an operation becomes a tool. Returns the reason it is
+ * filtered out, or undefined when it is kept
+ */
+export type OperationMatcher = (path: string, operation: ParsedOperation) => string | undefined;
+
+/**
+ * A filter with its globs tokenized
+ */
+interface CompiledFilter {
+  tags?: string[];
+  paths?: { glob: string; tokens: GlobToken[] }[];
+  methods?: string[];
+  operationId?: { glob: string; tokens: GlobToken[] };
+}
+
+/**
+ * A glob wildcard, or a literal character
+ */
+type GlobToken = '*' | '**' | '?' | { char: string };
+
+/**
+ * Compile include/exclude filter options into an operation matcher
+ */
+export function createOperationMatcher(options: OperationFilterOptions = {}): ToolResponse<OperationMatcher> {
+  const include = compileFilter(options.include, 'include');
+  if (!include.ok) {
+    return include;
+  }
+
+  const exclude = compileFilter(options.exclude, 'exclude');
+  if (!exclude.ok) {
+    return exclude;
+  }
+
+  return successResponse((path: string, operation: ParsedOperation) =>
+    (options.exclude_deprecated && operation.deprecated ? 'deprecated' : undefined) ??
+    notIncluded(include.data, path, operation) ??
+    excluded(exclude.data, path, operation)
+  );
+}
+
+/**
+ * Validate a filter and tokenize its path and operation ID globs
+ */
+function compileFilter(filter: OperationFilter | undefined, field: string): ToolResponse<CompiledFilter> {
+  if (filter === undefined) {
+    return successResponse({});
+  }
+  if (typeof filter !== 'object' || filter === null) {
+    return errorResponse('INVALID_INPUT', `${field} must be an object`, { field });
+  }
+
+  if (filter.operation_id !== undefined && typeof filter.operation_id !== 'string') {
+    return errorResponse('INVALID_INPUT', `${field}.operation_id must be a string`, { field: `${field}.operation_id` });
+  }
+
+  for (const key of ['tags', 'paths', 'methods'] as const) {
+    const value = filter[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((item) => typeof item !== 'string'))) {
+      return errorResponse('INVALID_INPUT', `${field}.${key} must be an array of strings`, { field: `${field}.${key}` });
+    }
+  }
+
+  const compile = (glob: string) => ({ glob, tokens: tokenizeGlob(glob) });
+
+  return successResponse({
+    tags: filter.tags,
+    paths: filter.paths?.map(compile),
+    methods: filter.methods?.map((method) => method.toUpperCase()),
+    operationId: filter.operation_id !== undefined ? compile(filter.operation_id) : undefined,
+  });
+}
+
+/**
+ * Reason an operation fails an include filter, if it does
+ */
+function notIncluded(filter: CompiledFilter, path: string, operation: ParsedOperation): string | undefined {
+  if (filter.tags && !operation.tags?.some((tag) => filter.tags!.includes(tag))) {
+    return `no tag in include.tags (${filter.tags.join(', ')})`;
+  }
+  if (filter.paths && !filter.paths.some(({ tokens }) => matchGlob(tokens, path, '/'))) {
+    return `path does not match include.paths (${filter.paths.map(({ glob }) => glob).join(', ')})`;
+  }
+  if (filter.methods && !filter.methods.includes(operation.method.toUpperCase())) {
+    return `method not in include.methods (${filter.methods.join(', ')})`;
+  }
+  if (filter.operationId && !matchGlob(filter.operationId.tokens, operation.operation_id)) {
+    return `operationId does not match include.operation_id '${filter.operationId.glob}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Reason an operation matches an exclude filter, if it does
+ */
+function excluded(filter: CompiledFilter, path: string, operation: ParsedOperation): string | undefined {
+  const tag = operation.tags?.find((t) => filter.tags?.includes(t));
+  if (tag) {
+    return `tag '${tag}' is excluded`;
+  }
+  const glob = filter.paths?.find(({ tokens }) => matchGlob(tokens, path, '/'));
+  if (glob) {
+    return `path matches excluded glob '${glob.glob}'`;
+  }
+  if (filter.methods?.includes(operation.method.toUpperCase())) {
+    return `method ${operation.method.toUpperCase()} is excluded`;
+  }
+  if (filter.operationId && matchGlob(filter.operationId.tokens, operation.operation_id)) {
+    return `operationId matches excluded glob '${filter.operationId.glob}'`;
+  }
+  return undefined;
+}
+
+/**
+ * Split a glob into wildcards and literal characters
+ */
+function tokenizeGlob(glob: string): GlobToken[] {
+  const tokens: GlobToken[] = [];
+  for (let i = 0; i < glob.length; i++) {
+    if (glob[i] === '*' && glob[i + 1] === '*') {
+      tokens.push('**');
+      i++;
+    } else if (glob[i] === '*' || glob[i] === '?') {
+      tokens.push(glob[i] as '*' | '?');
+    } else {
+      tokens.push({ char: glob[i] });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Match text against a tokenized glob. '*' matches any run of characters
+ * except the separator, '**' matches across separators and '?' matches one
+ * character. Globs are matched in time linear in their length times the
+ * text's, never by backtracking, so a crafted filter cannot stall the server
+ */
+function matchGlob(tokens: GlobToken[], text: string, separator?: string): boolean {
+  // reach[i]: the tokens so far can match the first i characters of text
+  let reach = Array.from({ length: text.length + 1 }, (_, i) => i === 0);
+
+  for (const token of tokens) {
+    const next = new Array<boolean>(text.length + 1).fill(false);
+    for (let i = 0; i <= text.length; i++) {
+      if (token === '*' || token === '**') {
+        next[i] = reach[i] || (i > 0 && next[i - 1] && (token === '**' || text[i - 1] !== separator));
+      } else if (i > 0 && reach[i - 1]) {
+        next[i] = token === '?' ? text[i - 1] !== separator : text[i - 1] === token.char;
+      }
+    }
+    reach = next;
+  }
+
+  return reach[text.length];
+}
@@ -0,0 +1,405 @@
+import {
+  buildClientSchema,
+  buildSchema,
+  getNamedType,
+  GraphQLError,
+  isEnumType,
+  isInputObjectType,
+  isInterfaceType,
+  isListType,
+  isNonNullType,
+  isObjectType,
+  isScalarType,
+  isUnionType,
+  type GraphQLField,
+  type GraphQLInputType,
+  type GraphQLNamedType,
+  type GraphQLOutputType,
+  type GraphQLSchema,
+  type IntrospectionQuery,
+} from 'graphql';
+import {
+  type GraphQLImportOptions,
+  type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type ParsedSchema,
+  type ParsedServer,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+import { cacheParsedSpec } from './cache.js';
+
+const DEFAULT_ENDPOINT = '/graphql';
+const DEFAULT_SELECTION_DEPTH = 2;
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * Vendor extension carrying the GraphQL document a generated tool sends
+ */
+export const GRAPHQL_EXTENSION = 'x-graphql';
+
+/**
+ * JSON Schema equivalents of built-in and common custom scalars
+ */
+const SCALAR_SCHEMAS: Record<string, ParsedSchema> = {
+  ID: { type: 'string' },
+  String: { type: 'string' },
+  Int: { type: 'integer', format: 'int32' },
+  Float: { type: 'number', format: 'double' },
+  Boolean: { type: 'boolean' },
+  DateTime: { type: 'string', format: 'date-time' },
+  Date: { type: 'string', format: 'date' },
+  Time: { type: 'string', format: 'time' },
+  UUID: { type: 'string', format: 'uuid' },
+  URL: { type: 'string', format: 'uri' },
+  URI: { type: 'string', format: 'uri' },
+  Email: { type: 'string', format: 'email' },
+  EmailAddress: { type: 'string', format: 'email' },
+  BigInt: { type: 'integer', format: 'int64' },
+  Long: { type: 'integer', format: 'int64' },
+  JSON: {},
+  JSONObject: { type: 'object' },
+};
+
+type OperationKind = 'query' | 'mutation';
+
+/**
+ * State shared while converting a schema
+ */
+interface ConversionContext {
+  schemas: Record<string, ParsedSchema>;
+  selectionDepth: number;
+  operationIds: Set<string>;
+  warnings: string[];
+}
+
+/**
+ * Import a GraphQL schema (SDL or introspection result) as a parsed spec:
+ * queries and mutations become POST operations against the endpoint, each
+ * carrying a generated document with its selection set
+ */
+export async function graphqlImport(
+  schemaSource: string | Record<string, unknown>,
+  options: GraphQLImportOptions = {}
+): Promise<ToolResponse<ParsedOpenAPISpec>> {
+  try {
+    const selectionDepth = options.selection_depth ?? DEFAULT_SELECTION_DEPTH;
+    if (!Number.isInteger(selectionDepth) || selectionDepth < 1) {
+      return errorResponse('INVALID_INPUT', 'selection_depth must be a positive integer', {
+        provided: options.selection_depth,
+      });
+    }
+
+    const built = buildGraphQLSchema(schemaSource);
+    if (!built.ok) {
+      return built;
+    }
+
+    const ctx: ConversionContext = { schemas: {}, selectionDepth, operationIds: new Set(), warnings: [] };
+    const spec = convertSchema(ctx, built.data, options);
+    const specId = await cacheParsedSpec(spec, ctx.warnings);
+
+    return successResponse(spec, {
+      source: 'graphql_input',
+      spec_id: specId,
+      warnings: ctx.warnings,
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while importing GraphQL schema', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Build a schema from SDL, or from an introspection result as JSON or an object
+ */
+function buildGraphQLSchema(source: string | Record<string, unknown>): ToolResponse<GraphQLSchema> {
+  let introspection: unknown = source;
+
+  if (typeof source === 'string') {
+    if (!source.trim().startsWith('{')) {
+      try {
+        return successResponse(buildSchema(source));
+      } catch (error) {
+        return errorResponse('PARSE_ERROR', 'Invalid GraphQL SDL provided', describeGraphQLError(error));
+      }
+    }
+
+    try {
+      introspection = JSON.parse(source);
+    } catch (error) {
+      return errorResponse('PARSE_ERROR', 'Invalid JSON provided', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  // Accept both a raw introspection result and a { data: ... } response
+  const result = (introspection as { data?: unknown }).data ?? introspection;
+  if (typeof result !== 'object' || result === null || !('__schema' in result)) {
+    return errorResponse('INVALID_INPUT', 'Expected GraphQL SDL or an introspection result with __schema', {});
+  }
+
+  try {
+    return successResponse(buildClientSchema(result as IntrospectionQuery));
+  } catch (error) {
+    return errorResponse('PARSE_ERROR', 'Invalid GraphQL introspection result', describeGraphQLError(error));
+  }
+}
+
+/**
+ * Extract error details, including line/column for SDL syntax errors
+ */
+function describeGraphQLError(error: unknown): Record<string, unknown> {
+  const location = error instanceof GraphQLError ? error.locations?.[0] : undefined;
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    ...(location && { line: location.line, column: location.column }),
+  };
+}
+
+/**
+ * Convert the query and mutation root fields into operations on the endpoint
+ */
+function convertSchema(ctx: ConversionContext, schema: GraphQLSchema, options: GraphQLImportOptions): ParsedOpenAPISpec {
+  const { servers, path } = splitEndpoint(options.endpoint || DEFAULT_ENDPOINT);
+  const operations: ParsedOperation[] = [];
+
+  for (const [kind, rootType] of [['query', schema.getQueryType()], ['mutation', schema.getMutationType()]] as const) {
+    for (const field of Object.values(rootType?.getFields() || {})) {
+      operations.push(convertField(ctx, kind, field, servers));
+    }
+  }
+
+  const subscriptions = Object.keys(schema.getSubscriptionType()?.getFields() || {});
+  if (subscriptions.length > 0) {
+    ctx.warnings.push(`Skipped subscriptions (${subscriptions.join(', ')}); they have no request/response tool equivalent`);
+  }
+
+  return {
+    openapi_version: '3.0.3',
+    info: {
+      title: options.title || 'GraphQL API',
+      version: '1.0.0',
+      description: schema.description ?? undefined,
+    },
+    servers,
+    paths: operations.length > 0 ? [{ path, operations }] : [],
+    schemas: ctx.schemas,
+    security_schemes: {},
+  };
+}
+
+/**
+ * Convert a root field into a POST operation whose body holds the variables
+ */
+function convertField(
+  ctx: ConversionContext,
+  kind: OperationKind,
+  field: GraphQLField<unknown, unknown>,
+  servers: ParsedServer[]
+): ParsedOperation {
+  const properties: Record<string, ParsedSchema> = {};
+  const required: string[] = [];
+
+  for (const arg of field.args) {
+    properties[arg.name] = withDetails(inputSchema(ctx, arg.type), arg.description, arg.defaultValue);
+    if (isNonNullType(arg.type) && arg.defaultValue === undefined) {
+      required.push(arg.name);
+    }
+  }
+
+  let operationId = field.name;
+  if (ctx.operationIds.has(operationId)) {
+    operationId = `${kind}_${field.name}`;
+  }
+  ctx.operationIds.add(operationId);
+
+  return {
+    method: 'POST',
+    operation_id: operationId,
+    summary: field.description?.split('\n')[0] || `GraphQL ${kind} ${field.name}`,
+    description: field.description ?? undefined,
+    tags: [kind],
+    parameters: [],
+    request_body: field.args.length > 0
+      ? {
+          description: 'GraphQL variables',
+          required: required.length > 0,
+          content: {
+            'application/json': {
+              schema: { type: 'object', properties, ...(required.length > 0 && { required }) },
+            },
+          },
+        }
+      : undefined,
+    responses: [{
+      status_code: '200',
+      description: `Result of the ${field.name} ${kind}`,
+      content: { 'application/json': { schema: outputSchema(ctx, field.type) } },
+    }],
+    servers: servers.length > 0 ? servers : undefined,
+    deprecated: field.deprecationReason != null || undefined,
+    extensions: {
+      [GRAPHQL_EXTENSION]: { operation: kind, field: field.name, document: buildDocument(ctx, kind, field) },
+    },
+  };
+}
+
+/**
+ * Build the document a tool sends: the root field with every argument bound
+ * to a variable and a selection set down to the configured depth
+ */
+function buildDocument(ctx: ConversionContext, kind: OperationKind, field: GraphQLField<unknown, unknown>): string {
+  const variables = field.args.map((arg) => `$${arg.name}: ${String(arg.type)}`).join(', ');
+  const args = field.args.map((arg) => `${arg.name}: $${arg.name}`).join(', ');
+  const selection = selectionSet(getNamedType(field.type), ctx.selectionDepth);
+  const name = field.name[0].toUpperCase() + field.name.slice(1);
+
+  return `${kind} ${name}${variables ? `(${variables})` : ''} { ${field.name}${args ? `(${args})` : ''}${selection ? ` ${selection}` : ''} }`;
+}
+
+/**
+ * Select the leaf fields of a type, and nested objects while depth remains.
+ * Fields with required arguments are left out, since no value can be given
+ */
+function selectionSet(type: GraphQLNamedType, depth: number): string {
+  if (isUnionType(type)) {
+    const fragments = type.getTypes().map((member) => `... on ${member.name} ${selectionSet(member, depth)}`);
+    return `{ __typename ${fragments.join(' ')} }`;
+  }
+  if (!isObjectType(type) && !isInterfaceType(type)) {
+    return '';
+  }
+
+  const fields = Object.values(type.getFields())
+    .filter((field) => !field.args.some((arg) => isNonNullType(arg.type) && arg.defaultValue === undefined))
+    .flatMap((field) => {
+      const named = getNamedType(field.type);
+      if (isScalarType(named) || isEnumType(named)) return [field.name];
+      if (depth <= 1) return [];
+      return [`${field.name} ${selectionSet(named, depth - 1)}`];
+    });
+
+  if (isInterfaceType(type) || fields.length === 0) {
+    fields.unshift('__typename');
+  }
+  return `{ ${fields.join(' ')} }`;
+}
+
+/**
+ * Convert an argument or input field type to a schema
+ */
+function inputSchema(ctx: ConversionContext, type: GraphQLInputType): ParsedSchema {
+  if (isNonNullType(type)) return inputSchema(ctx, type.ofType);
+  if (isListType(type)) return { type: 'array', items: inputSchema(ctx, type.ofType) };
+
+  if (isInputObjectType(type)) {
+    return registerSchema(ctx, type.name, () => {
+      const properties: Record<string, ParsedSchema> = {};
+      const required: string[] = [];
+      for (const field of Object.values(type.getFields())) {
+        properties[field.name] = withDetails(inputSchema(ctx, field.type), field.description, field.defaultValue);
+        if (isNonNullType(field.type) && field.defaultValue === undefined) {
+          required.push(field.name);
+        }
+      }
+      return {
+        type: 'object',
+        description: type.description ?? undefined,
+        properties,
+        ...(required.length > 0 && { required }),
+      };
+    });
+  }
+
+  return namedLeafSchema(ctx, type);
+}
+
+/**
+ * Convert a field's output type to a schema
+ */
+function outputSchema(ctx: ConversionContext, type: GraphQLOutputType): ParsedSchema {
+  if (isNonNullType(type)) return outputSchema(ctx, type.ofType);
+  if (isListType(type)) return { type: 'array', items: outputSchema(ctx, type.ofType) };
+
+  if (isObjectType(type) || isInterfaceType(type)) {
+    return registerSchema(ctx, type.name, () => ({
+      type: 'object',
+      description: type.description ?? undefined,
+      properties: Object.fromEntries(Object.values(type.getFields()).map((field) => [
+        field.name,
+        withDetails(outputSchema(ctx, field.type), field.description),
+      ])),
+    }));
+  }
+
+  if (isUnionType(type)) {
+    return registerSchema(ctx, type.name, () => ({
+      description: type.description ?? undefined,
+      oneOf: type.getTypes().map((member) => outputSchema(ctx, member)),
+    }));
+  }
+
+  return namedLeafSchema(ctx, type);
+}
+
+/**
+ * Convert a scalar or enum type to a schema
+ */
+function namedLeafSchema(ctx: ConversionContext, type: GraphQLNamedType): ParsedSchema {
+  if (isEnumType(type)) {
+    return registerSchema(ctx, type.name, () => ({
+      type: 'string',
+      description: type.description ?? undefined,
+      enum: type.getValues().map((value) => value.name),
+    }));
+  }
+
+  const known = SCALAR_SCHEMAS[type.name];
+  if (known) {
+    return { ...known };
+  }
+
+  if (!ctx.warnings.some((warning) => warning.includes(`'${type.name}'`))) {
+    ctx.warnings.push(`Custom scalar '${type.name}' has no known JSON Schema equivalent; it is typed as a string`);
+  }
+  return { type: 'string', description: type.description ?? undefined };
+}
+
+/**
+ * Register a named type as a component schema once, returning a $ref to it
+ */
+function registerSchema(ctx: ConversionContext, name: string, build: () => ParsedSchema): ParsedSchema {
+  if (!(name in ctx.schemas)) {
+    // Reserve the name first so recursive types refer back instead of recursing
+    ctx.schemas[name] = {};
+    ctx.schemas[name] = build();
+  }
+  return { $ref: `${SCHEMA_REF_PREFIX}${name}` };
+}
+
+/**
+ * Attach a description and default value to a schema
+ */
+function withDetails(schema: ParsedSchema, description?: string | null, defaultValue?: unknown): ParsedSchema {
+  return {
+    ...schema,
+    ...(description && { description }),
+    ...(defaultValue !== undefined && { default: defaultValue }),
+  };
+}
+
+/**
+ * Split an endpoint URL into the server it is served from and its path
+ */
+function splitEndpoint(endpoint: string): { servers: ParsedServer[]; path: string } {
+  if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(endpoint)) {
+    return { servers: [], path: endpoint.startsWith('/') ? endpoint : `/${endpoint}` };
+  }
+
+  const url = new URL(endpoint);
+  return { servers: [{ url: url.origin }], path: `${url.pathname}${url.search}` };
+}
@@ -0,0 +1,581 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import {
+  type HarToSpecOptions,
+  type HarToSpecResult,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+  hasType,
+} from '../types.js';
+import { inferScalarSchema, inferSchema, mergeSchemas } from './infer.js';
+import { parseLoadedSpec } from './parse.js';
+
+type SchemaObject = OpenAPIV3.SchemaObject;
+type ArraySchemaObject = OpenAPIV3.ArraySchemaObject;
+
+const TARGET_OPENAPI_VERSION = '3.0.3';
+
+/**
+ * Path segments that look like identifiers rather than fixed resource names
+ */
+const ID_SEGMENT_PATTERNS = [
+  /^\d+$/,
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  /^\d{4}-\d{2}-\d{2}$/,
+  // Opaque tokens such as hashes or prefixed IDs (cus_Nf8a7s9d8f7)
+  /^(?:[a-z]{1,8}_)?(?=[a-z0-9]*\d)[a-z0-9]{10,}$/i,
+];
+
+/**
+ * Response media types and file extensions of page assets rather than API calls
+ */
+const STATIC_MEDIA_TYPE = /^(text\/(html|css|javascript)|application\/(x-)?javascript|image\/|font\/|audio\/|video\/)/;
+const STATIC_EXTENSION = /\.(html?|css|m?js|map|png|jpe?g|gif|svg|ico|webp|avif|woff2?|ttf|otf|eot|mp4|webm|mp3)$/i;
+
+/**
+ * Request headers that carry an API key
+ */
+const API_KEY_HEADER = /^(x-)?api[-_]?key$/i;
+
+interface HarNameValue {
+  name: string;
+  value?: string;
+  fileName?: string;
+}
+
+interface HarEntry {
+  request: {
+    method: string;
+    url: string;
+    headers?: HarNameValue[];
+    postData?: {
+      mimeType?: string;
+      text?: string;
+      params?: HarNameValue[];
+    };
+  };
+  response: {
+    status: number;
+    statusText?: string;
+    content?: {
+      mimeType?: string;
+      text?: string;
+      encoding?: string;
+    };
+  };
+}
+
+interface HarDocument {
+  log: {
+    entries: HarEntry[];
+  };
+}
+
+/**
+ * A recorded request whose path is split into segments below the base path
+ */
+interface Sample {
+  entry: HarEntry;
+  url: URL;
+  segments: string[];
+}
+
+/**
+ * State shared while converting the recorded operations
+ */
+interface ConversionContext {
+  securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject>;
+  warnings: string[];
+}
+
+/**
+ * Infer an OpenAPI spec from recorded HAR traffic: requests are clustered
+ * into path templates and their parameters, bodies and responses are typed
+ * from the observed values
+ */
+export async function harToSpec(
+  harInput: string | Record<string, unknown>,
+  options: HarToSpecOptions = {}
+): Promise<ToolResponse<HarToSpecResult>> {
+  try {
+    let har: unknown = harInput;
+    if (typeof harInput === 'string') {
+      try {
+        har = JSON.parse(harInput);
+      } catch (error) {
+        return errorResponse('PARSE_ERROR', 'Invalid JSON provided', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (!isHarDocument(har)) {
+      return errorResponse('INVALID_INPUT', 'Expected a HAR document with log.entries', {});
+    }
+
+    let baseUrl: URL | undefined;
+    if (options.base_url) {
+      try {
+        baseUrl = new URL(options.base_url);
+      } catch {
+        return errorResponse('INVALID_INPUT', 'base_url must be an absolute URL', { provided: options.base_url });
+      }
+    }
+
+    const warnings: string[] = [];
+    const samples = selectSamples(har.log.entries, baseUrl, warnings);
+    if (!samples.ok) {
+      return samples;
+    }
+
+    const document = buildDocument(samples.data.samples, samples.data.server, options, warnings);
+
+    // Parsing resolves nothing here, but keep the returned document untouched
+    const parsed = await parseLoadedSpec({
+      document: JSON.parse(JSON.stringify(document)),
+      source: 'har_input',
+      format: 'json',
+      warnings,
+    });
+    if (!parsed.ok) {
+      return parsed;
+    }
+
+    return successResponse({
+      parsed_spec: parsed.data,
+      ...(options.include_openapi && { openapi: document }),
+    }, {
+      source: parsed.meta.source,
+      spec_id: parsed.meta.spec_id,
+      warnings: parsed.meta.warnings,
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while converting HAR', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Check if a value has the shape of a HAR document
+ */
+function isHarDocument(value: unknown): value is HarDocument {
+  const log = (value as { log?: { entries?: unknown } } | null)?.log;
+  return typeof log === 'object' && log !== null && Array.isArray(log.entries);
+}
+
+/**
+ * Keep the API requests to the chosen server, dropping preflights, static
+ * assets, failed requests and other hosts
+ */
+function selectSamples(
+  entries: HarEntry[],
+  baseUrl: URL | undefined,
+  warnings: string[]
+): ToolResponse<{ samples: Sample[]; server: string }> {
+  const candidates: { entry: HarEntry; url: URL }[] = [];
+  let skippedAssets = 0;
+
+  for (const entry of entries) {
+    let url: URL;
+    try {
+      url = new URL(entry.request?.url);
+    } catch {
+      skippedAssets++;
+      continue;
+    }
+
+    const mediaType = mediaTypeOf(entry.response?.content?.mimeType);
+    if (
+      !['http:', 'https:'].includes(url.protocol) ||
+      entry.request.method?.toUpperCase() === 'OPTIONS' ||
+      !(entry.response?.status >= 100) ||
+      (mediaType && STATIC_MEDIA_TYPE.test(mediaType)) ||
+      STATIC_EXTENSION.test(url.pathname)
+    ) {
+      skippedAssets++;
+      continue;
+    }
+    candidates.push({ entry, url });
+  }
+
+  if (skippedAssets > 0) {
+    warnings.push(`Skipped ${skippedAssets} requests for page assets, CORS preflights, failed or non-HTTP requests`);
+  }
+
+  const origin = baseUrl?.origin ?? mostRequestedOrigin(candidates);
+  const basePath = baseUrl ? baseUrl.pathname.replace(/\/+$/, '') : '';
+  const basePrefix = basePath.split('/').filter(Boolean);
+
+  const samples: Sample[] = [];
+  const otherHosts = new Set<string>();
+  let outsideBase = 0;
+
+  for (const { entry, url } of candidates) {
+    if (url.origin !== origin) {
+      otherHosts.add(url.host);
+      continue;
+    }
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeSegment);
+    if (!basePrefix.every((segment, index) => segments[index] === segment)) {
+      outsideBase++;
+      continue;
+    }
+    samples.push({ entry, url, segments: segments.slice(basePrefix.length) });
+  }
+
+  if (otherHosts.size > 0) {
+    warnings.push(`Skipped requests to other hosts (${[...otherHosts].join(', ')}); pass base_url to choose the API host`);
+  }
+  if (outsideBase > 0) {
+    warnings.push(`Skipped ${outsideBase} requests outside base_url ${baseUrl}`);
+  }
+
+  if (samples.length === 0) {
+    return errorResponse('INVALID_INPUT', 'HAR contains no API requests to convert', {
+      entries: entries.length,
+      ...(baseUrl && { base_url: baseUrl.href }),
+    });
+  }
+
+  return successResponse({ samples, server: `${origin}${basePath}` });
+}
+
+/**
+ * Origin with the most API requests, which is taken as the API host
+ */
+function mostRequestedOrigin(candidates: { url: URL }[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const { url } of candidates) {
+    counts.set(url.origin, (counts.get(url.origin) ?? 0) + 1);
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0];
+}
+
+/**
+ * Group samples by method and path template and build the OpenAPI document
+ */
+function buildDocument(
+  samples: Sample[],
+  server: string,
+  options: HarToSpecOptions,
+  warnings: string[]
+): OpenAPIV3.Document {
+  const ctx: ConversionContext = { securitySchemes: {}, warnings };
+
+  const groups = new Map<string, Map<string, Sample[]>>();
+  for (const sample of samples) {
+    const key = '/' + sample.segments.map((segment) => isIdSegment(segment) ? '{}' : segment).join('/');
+    const methods = groups.get(key) || new Map<string, Sample[]>();
+    const method = sample.entry.request.method.toLowerCase();
+    methods.set(method, [...(methods.get(method) || []), sample]);
+    groups.set(key, methods);
+  }
+
+  const paths: OpenAPIV3.PathsObject = {};
+  for (const key of [...groups.keys()].sort()) {
+    const { template, names } = pathTemplate(key);
+    const pathItem: OpenAPIV3.PathItemObject = {};
+    for (const [method, group] of groups.get(key)!) {
+      pathItem[method as OpenAPIV3.HttpMethods] = convertOperation(ctx, group, names);
+    }
+    paths[template] = pathItem;
+  }
+
+  return {
+    openapi: TARGET_OPENAPI_VERSION,
+    info: {
+      title: options.title || `${new URL(server).host} (inferred from HAR)`,
+      version: '1.0.0',
+      description: `Inferred from ${samples.length} recorded requests`,
+    },
+    servers: [{ url: server }],
+    paths,
+    ...(Object.keys(ctx.securitySchemes).length > 0 && {
+      components: { securitySchemes: ctx.securitySchemes },
+    }),
+  };
+}
+
+/**
+ * Name the variable segments of a clustered path after the resource before them
+ */
+function pathTemplate(key: string): { template: string; names: (string | undefined)[] } {
+  const segments = key.split('/').slice(1);
+  const used = new Set<string>();
+  const names = segments.map((segment, index) => {
+    if (segment !== '{}') return undefined;
+
+    const previous = segments[index - 1];
+    const base = previous && previous !== '{}' ? `${camelCase(singular(previous))}Id` : 'id';
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    used.add(name);
+    return name;
+  });
+
+  return {
+    template: '/' + segments.map((segment, index) => names[index] ? `{${names[index]}}` : segment).join('/'),
+    names,
+  };
+}
+
+/**
+ * Build an operation from every recorded call of one method on one path template
+ */
+function convertOperation(
+  ctx: ConversionContext,
+  samples: Sample[],
+  pathNames: (string | undefined)[]
+): OpenAPIV3.OperationObject {
+  const parameters: OpenAPIV3.ParameterObject[] = [];
+
+  pathNames.forEach((name, index) => {
+    if (!name) return;
+    const values = samples.map((sample) => sample.segments[index]);
+    const schema = values.map(inferScalarSchema).reduce(mergeSchemas);
+    parameters.push({ name, in: 'path', required: true, schema, example: typedExample(values[0], schema) });
+  });
+
+  parameters.push(...convertQuery(samples));
+
+  const security = convertSecurity(ctx, samples);
+  const requestBody = convertRequestBody(samples);
+
+  return {
+    parameters,
+    ...(requestBody && { requestBody }),
+    responses: convertResponses(samples),
+    ...(security && { security }),
+  };
+}
+
+/**
+ * Query parameters seen on any call, required when present on all of them.
+ * Repeated keys are typed as arrays
+ */
+function convertQuery(samples: Sample[]): OpenAPIV3.ParameterObject[] {
+  const seen = new Map<string, { schema: SchemaObject; count: number; example: string }>();
+
+  for (const { url } of samples) {
+    for (const name of new Set(url.searchParams.keys())) {
+      const values = url.searchParams.getAll(name);
+      const item = values.map(inferScalarSchema).reduce(mergeSchemas);
+      const schema: SchemaObject = values.length > 1 ? { type: 'array', items: item } : item;
+      const existing = seen.get(name);
+      seen.set(name, existing
+        ? { ...existing, schema: mergeQuerySchemas(existing.schema, schema), count: existing.count + 1 }
+        : { schema, count: 1, example: values[0] });
+    }
+  }
+
+  return [...seen].map(([name, { schema, count, example }]) => ({
+    name,
+    in: 'query' as const,
+    required: count === samples.length,
+    schema,
+    ...(!hasType(schema, 'array') && { example: typedExample(example, schema) }),
+  }));
+}
+
+/**
+ * Merge query schemas, widening a scalar to an array once any call repeats the key
+ */
+function mergeQuerySchemas(a: SchemaObject, b: SchemaObject): SchemaObject {
+  if (hasType(a, 'array') && !hasType(b, 'array')) return { type: 'array', items: mergeSchemas((a as ArraySchemaObject).items as SchemaObject, b) };
+  if (hasType(b, 'array') && !hasType(a, 'array')) return { type: 'array', items: mergeSchemas(a, (b as ArraySchemaObject).items as SchemaObject) };
+  return mergeSchemas(a, b);
+}
+
+/**
+ * Request body typed from the payloads sent, required when every call sent one
+ */
+function convertRequestBody(samples: Sample[]): OpenAPIV3.RequestBodyObject | undefined {
+  const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+  let withBody = 0;
+
+  for (const { entry } of samples) {
+    const postData = entry.request.postData;
+    if (!postData || (!postData.text && !postData.params?.length)) continue;
+    withBody++;
+
+    const mediaType = mediaTypeOf(postData.mimeType) || 'application/octet-stream';
+    const example = bodyExample(mediaType, postData);
+    const schema = example === undefined
+      ? bodySchema(mediaType, postData)
+      : inferSchema(example);
+
+    const existing = content[mediaType];
+    content[mediaType] = existing?.schema
+      ? { ...existing, schema: mergeSchemas(existing.schema as SchemaObject, schema) }
+      : { schema, ...(example !== undefined && { example }) };
+  }
+
+  if (withBody === 0) return undefined;
+  return { required: withBody === samples.length, content };
+}
+
+/**
+ * Decode a JSON or form-encoded request payload into an example value
+ */
+function bodyExample(mediaType: string, postData: NonNullable<HarEntry['request']['postData']>): unknown {
+  if (isJsonMediaType(mediaType)) {
+    return parseJson(postData.text);
+  }
+  if (mediaType === 'application/x-www-form-urlencoded') {
+    const params = postData.params?.length
+      ? postData.params.map(({ name, value }) => [name, value ?? ''])
+      : [...new URLSearchParams(postData.text || '')];
+    return Object.fromEntries(params);
+  }
+  return undefined;
+}
+
+/**
+ * Schema for a payload that is not JSON or form-encoded
+ */
+function bodySchema(mediaType: string, postData: NonNullable<HarEntry['request']['postData']>): SchemaObject {
+  if (mediaType === 'multipart/form-data' && postData.params?.length) {
+    return {
+      type: 'object',
+      properties: Object.fromEntries(postData.params.map((param) => [
+        param.name,
+        param.fileName ? { type: 'string', format: 'binary' } : inferScalarSchema(param.value ?? ''),
+      ])),
+    };
+  }
+  return isJsonMediaType(mediaType) ? {} : { type: 'string' };
+}
+
+/**
+ * Responses per status code, with bodies typed from the recorded content
+ */
+function convertResponses(samples: Sample[]): OpenAPIV3.ResponsesObject {
+  const result: Record<string, OpenAPIV3.ResponseObject> = {};
+
+  for (const { entry } of samples) {
+    const { status, statusText, content } = entry.response;
+    const code = String(status);
+    const target = result[code] || (result[code] = { description: statusText || `Status ${code}` });
+
+    const text = content?.encoding === 'base64' && content.text
+      ? Buffer.from(content.text, 'base64').toString('utf8')
+      : content?.text;
+    if (!text?.trim()) continue;
+
+    const mediaType = mediaTypeOf(content?.mimeType) || 'application/octet-stream';
+    const example = isJsonMediaType(mediaType) ? parseJson(text) : undefined;
+    const schema: SchemaObject = example === undefined ? { type: 'string' } : inferSchema(example);
+
+    const existing = target.content?.[mediaType];
+    target.content = {
+      ...target.content,
+      [mediaType]: existing?.schema
+        ? { ...existing, schema: mergeSchemas(existing.schema as SchemaObject, schema) }
+        : { schema, ...(example !== undefined && { example }) },
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Security requirement implied by the credentials the calls sent, registering its scheme
+ */
+function convertSecurity(ctx: ConversionContext, samples: Sample[]): OpenAPIV3.SecurityRequirementObject[] | undefined {
+  const names = new Set<string>();
+
+  for (const { entry } of samples) {
+    for (const header of entry.request.headers || []) {
+      const name = header.name.toLowerCase();
+      const scheme = name === 'authorization' ? header.value?.split(' ')[0].toLowerCase() : undefined;
+      if (scheme === 'bearer') {
+        ctx.securitySchemes.bearerAuth = { type: 'http', scheme: 'bearer' };
+        names.add('bearerAuth');
+      } else if (scheme === 'basic') {
+        ctx.securitySchemes.basicAuth = { type: 'http', scheme: 'basic' };
+        names.add('basicAuth');
+      } else if (API_KEY_HEADER.test(name)) {
+        ctx.securitySchemes.apiKeyAuth = { type: 'apiKey', in: 'header', name: header.name };
+        names.add('apiKeyAuth');
+      }
+    }
+  }
+
+  return names.size > 0 ? [...names].map((name) => ({ [name]: [] })) : undefined;
+}
+
+/**
+ * Read a recorded text value as the type its schema was inferred as
+ */
+function typedExample(value: string, schema: SchemaObject): unknown {
+  if (hasType(schema, 'integer') || hasType(schema, 'number')) return Number(value);
+  if (hasType(schema, 'boolean')) return value === 'true';
+  return value;
+}
+
+/**
+ * Check if a path segment holds an identifier
+ */
+function isIdSegment(segment: string): boolean {
+  return ID_SEGMENT_PATTERNS.some((pattern) => pattern.test(segment));
+}
+
+/**
+ * Naive English singular of a resource name (users → user, categories → category)
+ */
+function singular(word: string): string {
+  if (/ies$/i.test(word)) return word.slice(0, -3) + 'y';
+  if (/(s|x|z|ch|sh)es$/i.test(word)) return word.slice(0, -2);
+  if (/[^s]s$/i.test(word)) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Join the words of a path segment in camelCase (order-items → orderItems)
+ */
+function camelCase(segment: string): string {
+  const words = segment.split(/[^a-z0-9]+/i).filter(Boolean);
+  return words
+    .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('') || 'id';
+}
+
+/**
+ * Percent-decode a path segment, keeping it as-is when it is malformed
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Media type without parameters such as charset
+ */
+function mediaTypeOf(mimeType: string | undefined): string | undefined {
+  return mimeType?.split(';')[0].trim().toLowerCase() || undefined;
+}
+
+/**
+ * Check if a media type carries JSON (application/json, application/problem+json, ...)
+ */
+function isJsonMediaType(mediaType: string): boolean {
+  return mediaType === 'application/json' || mediaType.endsWith('+json');
+}
+
+/**
+ * Parse JSON text, or undefined if it is missing or malformed
+ */
+function parseJson(text: string | undefined): unknown {
+  if (!text?.trim()) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
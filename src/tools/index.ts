@@ -1,3 +1,12 @@
-export { openapiParse, generateOperationId, parseSchema } from './parse.js';
+export { openapiParse, openapiParseSummary, generateOperationId, parseSchema } from './parse.js';
+export { configureSpecCache, getCachedSpec, resolveParsedSpec } from './cache.js';
+export { configureSpecRoot } from './bundle.js';
+export { openapiLint } from './lint.js';
+export { openapiDiff } from './diff.js';
+export { graphqlImport } from './graphql.js';
+export { harToSpec } from './har.js';
+export { openapiExport } from './export.js';
+export { mergeSpecs } from './merge.js';
+export { openapiSearch } from './search.js';
 export { generateToolSchemas, operationToTool, convertSchemaToJSONSchema, sanitizeToolName } from './schemas.js';
 export { generateServerScaffold, generateTypeScriptScaffold, generatePythonScaffold } from './scaffold.js';
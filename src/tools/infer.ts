@@ -0,0 +1,102 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import { hasType } from '../types.js';
+
+type SchemaObject = OpenAPIV3.SchemaObject;
+type ArraySchemaObject = OpenAPIV3.ArraySchemaObject;
+
+/**
+ * String formats recognized in example values
+ */
+const STRING_FORMATS: [string, RegExp][] = [
+  ['date-time', /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/],
+  ['date', /^\d{4}-\d{2}-\d{2}$/],
+  ['uuid', /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i],
+  ['email', /^[^\s@]+@[^\s@]+\.[^\s@]+$/],
+  ['uri', /^https?:\/\/\S+$/],
+];
+
+/**
+ * Infer an OpenAPI 3.0 schema from an example JSON value
+ */
+export function inferSchema(value: unknown): SchemaObject {
+  if (value === null) {
+    return { nullable: true };
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(inferSchema);
+    return { type: 'array', items: items.length > 0 ? items.reduce(mergeSchemas) : {} };
+  }
+
+  switch (typeof value) {
+    case 'boolean':
+      return { type: 'boolean' };
+    case 'number':
+      return { type: Number.isInteger(value) ? 'integer' : 'number' };
+    case 'string': {
+      const format = STRING_FORMATS.find(([, pattern]) => pattern.test(value))?.[0];
+      return format ? { type: 'string', format } : { type: 'string' };
+    }
+    case 'object': {
+      const entries = Object.entries(value as Record<string, unknown>);
+      return {
+        type: 'object',
+        properties: Object.fromEntries(entries.map(([key, item]) => [key, inferSchema(item)])),
+        ...(entries.length > 0 && { required: entries.map(([key]) => key) }),
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Infer a schema from a string that was sent as text, such as a query
+ * parameter, recognizing integers, numbers and booleans
+ */
+export function inferScalarSchema(value: string): SchemaObject {
+  if (/^-?\d+$/.test(value)) return { type: 'integer' };
+  if (/^-?\d*\.\d+$/.test(value)) return { type: 'number' };
+  if (value === 'true' || value === 'false') return { type: 'boolean' };
+  return inferSchema(value);
+}
+
+/**
+ * Combine schemas inferred from two examples of the same value: object
+ * properties are united and only those present in both stay required
+ */
+export function mergeSchemas(a: SchemaObject, b: SchemaObject): SchemaObject {
+  if (!a.type && a.nullable) return { ...b, nullable: true };
+  if (!b.type && b.nullable) return { ...a, nullable: true };
+
+  const nullable = a.nullable || b.nullable ? { nullable: true } : {};
+
+  if (hasType(a, 'object') && hasType(b, 'object')) {
+    const properties: Record<string, SchemaObject> = { ...(a.properties as Record<string, SchemaObject>) };
+    for (const [key, schema] of Object.entries((b.properties || {}) as Record<string, SchemaObject>)) {
+      properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+    }
+    const required = (a.required || []).filter((key) => b.required?.includes(key));
+    return { type: 'object', properties, ...(required.length > 0 && { required }), ...nullable };
+  }
+
+  if (hasType(a, 'array') && hasType(b, 'array')) {
+    return { type: 'array', items: mergeSchemas((a as ArraySchemaObject).items as SchemaObject, (b as ArraySchemaObject).items as SchemaObject), ...nullable };
+  }
+
+  if (a.type && a.type === b.type) {
+    return a.format === b.format ? { ...a, ...nullable } : { type: a.type, ...nullable } as SchemaObject;
+  }
+
+  if ((hasType(a, 'integer') && hasType(b, 'number')) || (hasType(a, 'number') && hasType(b, 'integer'))) {
+    return { type: 'number', ...nullable };
+  }
+
+  // An empty array's items say nothing about the type
+  if (!a.type && !a.oneOf) return { ...b, ...nullable };
+  if (!b.type && !b.oneOf) return { ...a, ...nullable };
+
+  const variants = [...(a.oneOf || [a]), ...(b.oneOf || [b])] as SchemaObject[];
+  const unique = variants.filter((variant, index) =>
+    variants.findIndex((other) => JSON.stringify(other) === JSON.stringify(variant)) === index);
+  return { oneOf: unique, ...nullable };
+}
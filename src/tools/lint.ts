@@ -0,0 +1,301 @@
+import {
+  type LintDiagnostic,
+  type LintOptions,
+  type LintResult,
+  type LintSeverity,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+  isOpenAPIV3,
+} from '../types.js';
+import { loadSpecDocument, unsupportedVersionError } from './parse.js';
+import { resolveJsonPointer, toJsonPointer } from './pointer.js';
+
+type LintRule =
+  | 'operation-operation-id'
+  | 'operation-operation-id-unique'
+  | 'operation-description'
+  | 'parameter-description'
+  | 'parameter-schema'
+  | 'request-body-ref'
+  | 'component-unused';
+
+/**
+ * Severity each lint rule is reported at
+ */
+const RULES: Record<LintRule, LintSeverity> = {
+  'operation-operation-id': 'warning',
+  'operation-operation-id-unique': 'error',
+  'operation-description': 'warning',
+  'parameter-description': 'info',
+  'parameter-schema': 'warning',
+  'request-body-ref': 'error',
+  'component-unused': 'warning',
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
+
+/**
+ * Keywords that give a schema a shape; a schema with none of them accepts anything
+ */
+const TYPING_KEYWORDS = [
+  'type', '$ref', 'oneOf', 'anyOf', 'allOf', 'not', 'enum', 'const', 'properties', 'items', 'prefixItems',
+];
+
+type Node = Record<string, unknown>;
+
+/**
+ * Collects diagnostics while walking the raw spec document
+ */
+interface LintContext {
+  document: Node;
+  diagnostics: LintDiagnostic[];
+}
+
+/**
+ * Lint an OpenAPI spec for problems that affect MCP tool generation
+ */
+export async function openapiLint(
+  specUrlOrJson: string,
+  options: LintOptions = {}
+): Promise<ToolResponse<LintResult>> {
+  try {
+    const loaded = await loadSpecDocument(specUrlOrJson, options);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    const { document, source, warnings } = loaded.data;
+
+    if (!isOpenAPIV3(document)) {
+      return unsupportedVersionError(document);
+    }
+
+    const diagnostics = lintDocument(document as unknown as Node);
+
+    return successResponse({
+      diagnostics,
+      summary: {
+        total: diagnostics.length,
+        errors: diagnostics.filter((d) => d.severity === 'error').length,
+        warnings: diagnostics.filter((d) => d.severity === 'warning').length,
+        infos: diagnostics.filter((d) => d.severity === 'info').length,
+      },
+    }, {
+      source,
+      warnings,
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while linting OpenAPI spec', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Run every rule against a raw (unresolved) OpenAPI 3.x document
+ */
+function lintDocument(document: Node): LintDiagnostic[] {
+  const ctx: LintContext = { document, diagnostics: [] };
+  const operationIds = new Map<string, string>();
+
+  for (const [root, items] of [['paths', document.paths], ['webhooks', document.webhooks]] as const) {
+    if (!isNode(items)) continue;
+
+    for (const [key, pathItem] of Object.entries(items)) {
+      if (!isNode(pathItem)) continue;
+      const pathPointer = [root, key];
+
+      lintParameters(ctx, pathItem.parameters, [...pathPointer, 'parameters']);
+
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (!isNode(operation)) continue;
+        lintOperation(ctx, operation, [...pathPointer, method], `${method.toUpperCase()} ${key}`, operationIds);
+      }
+    }
+  }
+
+  lintUnusedComponents(ctx);
+
+  return ctx.diagnostics;
+}
+
+/**
+ * Check an operation's ID, description, parameters and request body
+ */
+function lintOperation(
+  ctx: LintContext,
+  operation: Node,
+  tokens: string[],
+  label: string,
+  operationIds: Map<string, string>
+): void {
+  const pointer = toJsonPointer(tokens);
+
+  if (typeof operation.operationId !== 'string' || !operation.operationId) {
+    report(ctx, 'operation-operation-id', pointer, `${label} has no operationId; a tool name will be derived from the path`);
+  } else {
+    const first = operationIds.get(operation.operationId);
+    if (first) {
+      report(
+        ctx,
+        'operation-operation-id-unique',
+        toJsonPointer([...tokens, 'operationId']),
+        `operationId '${operation.operationId}' is already used at ${first}; the generated tools will collide`
+      );
+    } else {
+      operationIds.set(operation.operationId, pointer);
+    }
+  }
+
+  if (!operation.summary && !operation.description) {
+    report(ctx, 'operation-description', pointer, `${label} has no summary or description to describe its tool`);
+  }
+
+  lintParameters(ctx, operation.parameters, [...tokens, 'parameters']);
+
+  // Parsing inlines resolvable request body refs but fails on dangling ones
+  const requestBody = operation.requestBody;
+  if (isNode(requestBody) && typeof requestBody.$ref === 'string' && resolveRef(ctx, requestBody.$ref) === undefined) {
+    report(
+      ctx,
+      'request-body-ref',
+      toJsonPointer([...tokens, 'requestBody']),
+      `Request body $ref '${requestBody.$ref}' does not resolve; openapi_parse will fail with PARSE_ERROR until it does`
+    );
+  }
+}
+
+/**
+ * Check that parameters are described and typed
+ */
+function lintParameters(ctx: LintContext, parameters: unknown, tokens: string[]): void {
+  if (!Array.isArray(parameters)) return;
+
+  parameters.forEach((entry, index) => {
+    const pointer = toJsonPointer([...tokens, index]);
+    const param = deref(ctx, entry);
+    if (!param) return;
+
+    const name = typeof param.name === 'string' ? param.name : `#${index}`;
+
+    if (!param.description) {
+      report(ctx, 'parameter-description', pointer, `Parameter '${name}' has no description`);
+    }
+
+    const schema = deref(ctx, param.schema);
+    if (!schema && !isNode(param.content)) {
+      report(ctx, 'parameter-schema', pointer, `Parameter '${name}' has no schema and will be treated as a string`);
+    } else if (schema && !TYPING_KEYWORDS.some((keyword) => keyword in schema)) {
+      report(ctx, 'parameter-schema', toJsonPointer([...tokens, index, 'schema']), `Parameter '${name}' schema has no type`);
+    }
+  });
+}
+
+/**
+ * Report components that nothing in the document references
+ */
+function lintUnusedComponents(ctx: LintContext): void {
+  const components = ctx.document.components;
+  if (!isNode(components)) return;
+
+  const refs = collectRefs(ctx.document, []);
+  const usedSchemes = collectSecuritySchemeNames(ctx.document);
+
+  for (const [section, entries] of Object.entries(components)) {
+    if (!isNode(entries)) continue;
+
+    for (const name of Object.keys(entries)) {
+      const pointer = toJsonPointer(['components', section, name]);
+      const used = section === 'securitySchemes'
+        ? usedSchemes.has(name)
+        : refs.some(({ ref, from }) =>
+            (ref === `#${pointer}` || ref.startsWith(`#${pointer}/`)) && !isWithin(from, pointer));
+
+      if (!used) {
+        report(ctx, 'component-unused', pointer, `Component '${name}' in ${section} is never referenced`);
+      }
+    }
+  }
+}
+
+/**
+ * Collect every $ref in the document with the pointer it appears at
+ */
+function collectRefs(node: unknown, tokens: string[]): { ref: string; from: string }[] {
+  if (Array.isArray(node)) {
+    return node.flatMap((item, index) => collectRefs(item, [...tokens, String(index)]));
+  }
+  if (!isNode(node)) return [];
+
+  const refs = typeof node.$ref === 'string' ? [{ ref: node.$ref, from: toJsonPointer(tokens) }] : [];
+  for (const [key, value] of Object.entries(node)) {
+    refs.push(...collectRefs(value, [...tokens, key]));
+  }
+  return refs;
+}
+
+/**
+ * Collect security scheme names used by spec-level and operation-level requirements
+ */
+function collectSecuritySchemeNames(document: Node): Set<string> {
+  const names = new Set<string>();
+  const addRequirements = (security: unknown) => {
+    if (!Array.isArray(security)) return;
+    for (const requirement of security) {
+      if (isNode(requirement)) Object.keys(requirement).forEach((name) => names.add(name));
+    }
+  };
+
+  addRequirements(document.security);
+  for (const root of [document.paths, document.webhooks]) {
+    if (!isNode(root)) continue;
+    for (const pathItem of Object.values(root)) {
+      if (!isNode(pathItem)) continue;
+      for (const method of HTTP_METHODS) {
+        const operation = pathItem[method];
+        if (isNode(operation)) addRequirements(operation.security);
+      }
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Follow an internal $ref; external or dangling refs resolve to undefined
+ */
+function resolveRef(ctx: LintContext, ref: string): unknown {
+  return ref.startsWith('#') ? resolveJsonPointer(ctx.document, ref) : undefined;
+}
+
+/**
+ * Return an object, following its $ref if it has one
+ */
+function deref(ctx: LintContext, node: unknown): Node | undefined {
+  if (!isNode(node)) return undefined;
+  if (typeof node.$ref !== 'string') return node;
+  const target = resolveRef(ctx, node.$ref);
+  return isNode(target) ? target : undefined;
+}
+
+/**
+ * Check whether a pointer lies inside (or at) another pointer
+ */
+function isWithin(pointer: string, container: string): boolean {
+  return pointer === container || pointer.startsWith(`${container}/`);
+}
+
+/**
+ * Check whether a value is a plain JSON object
+ */
+function isNode(value: unknown): value is Node {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Record a diagnostic at the rule's severity
+ */
+function report(ctx: LintContext, rule: LintRule, pointer: string, message: string): void {
+  ctx.diagnostics.push({ severity: RULES[rule], rule, pointer, message });
+}
@@ -0,0 +1,344 @@
+import {
+  type MergeConflict,
+  type MergeOptions,
+  type MergeSource,
+  type MergedSpec,
+  type ParsedCallback,
+  type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type ParsedPath,
+  type ParsedSchema,
+  type ParsedSecurityRequirement,
+  type ParsedSecurityScheme,
+  type ParsedWebhook,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+import { cacheParsedSpec, resolveParsedSpec } from './cache.js';
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+const NAMESPACE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Extension holding the path an operation calls on its server when the
+ * merge mounted it under another path
+ */
+export const UPSTREAM_PATH_EXTENSION = 'x-mcp-upstream-path';
+
+/**
+ * A source with its final namespace and the renames applied to its names
+ */
+interface NamespacedSource {
+  namespace: string;
+  spec: ParsedOpenAPISpec;
+  schemas: Map<string, string>;
+  securitySchemes: Map<string, string>;
+  operationIds: Map<string, string>;
+}
+
+/**
+ * State shared while merging
+ */
+interface MergeContext {
+  conflicts: MergeConflict[];
+  /** Names taken in the merged spec, per kind, with the namespace that took them */
+  taken: Record<'namespace' | 'operation_id' | 'schema' | 'security_scheme' | 'webhook', Map<string, string>>;
+}
+
+/**
+ * Merge several parsed specs into one. Each source's operation ids, component
+ * schemas and security schemes are prefixed with its namespace, and its
+ * operations keep their own servers and security
+ */
+export async function mergeSpecs(
+  sources: MergeSource[],
+  options: MergeOptions = {}
+): Promise<ToolResponse<MergedSpec>> {
+  if (!Array.isArray(sources) || sources.length === 0) {
+    return errorResponse('INVALID_INPUT', 'sources must list at least one spec to merge', {});
+  }
+
+  const specs: ParsedOpenAPISpec[] = [];
+  for (const [index, source] of sources.entries()) {
+    if (!source?.parsed_spec && !source?.spec_id) {
+      return errorResponse('INVALID_INPUT', 'Each source needs a parsed_spec or spec_id', { source: index });
+    }
+    if (source.namespace !== undefined && !NAMESPACE_PATTERN.test(source.namespace)) {
+      return errorResponse('INVALID_INPUT', 'namespace may only contain letters, digits, _ and -', {
+        source: index,
+        provided: source.namespace,
+      });
+    }
+    const resolved = await resolveParsedSpec(source.spec_id, source.parsed_spec);
+    if (!resolved.ok) {
+      return errorResponse(resolved.error.code, resolved.error.message, { ...resolved.error.details, source: index });
+    }
+    specs.push(resolved.data);
+  }
+
+  try {
+    const ctx: MergeContext = {
+      conflicts: [],
+      taken: {
+        namespace: new Map(),
+        operation_id: new Map(),
+        schema: new Map(),
+        security_scheme: new Map(),
+        webhook: new Map(),
+      },
+    };
+
+    const namespaced = specs.map((spec, index) => namespaceSource(ctx, spec, sources[index].namespace));
+    const merged = mergeNamespacedSources(ctx, namespaced, options);
+
+    const warnings: string[] = [];
+    const specId = await cacheParsedSpec(merged, warnings);
+
+    return successResponse({ parsed_spec: merged, conflicts: ctx.conflicts }, {
+      spec_id: specId,
+      warnings,
+    });
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while merging specs', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Pick a source's namespace and the prefixed names of everything it declares
+ */
+function namespaceSource(ctx: MergeContext, spec: ParsedOpenAPISpec, requested: string | undefined): NamespacedSource {
+  const base = requested || spec.info.title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'api';
+  const namespace = claim(ctx, 'namespace', base, base);
+
+  const rename = (kind: 'operation_id' | 'schema' | 'security_scheme', names: string[]) =>
+    new Map(names.map((name) => [name, claim(ctx, kind, `${namespace}_${name}`, namespace, name)]));
+
+  return {
+    namespace,
+    spec,
+    schemas: rename('schema', Object.keys(spec.schemas || {})),
+    securitySchemes: rename('security_scheme', Object.keys(spec.security_schemes || {})),
+    operationIds: rename('operation_id', [...new Set(allOperations(spec).map((operation) => operation.operation_id))]),
+  };
+}
+
+/**
+ * Take a name in the merged spec for a source, suffixing it when another
+ * source already has it
+ */
+function claim(
+  ctx: MergeContext,
+  kind: keyof MergeContext['taken'],
+  name: string,
+  namespace: string,
+  original?: string
+): string {
+  const taken = ctx.taken[kind];
+  let unique = name;
+  for (let suffix = 2; taken.has(unique); suffix++) {
+    unique = `${name}_${suffix}`;
+  }
+
+  if (unique !== name) {
+    ctx.conflicts.push({
+      kind,
+      name,
+      sources: [taken.get(name)!, namespace],
+      resolution: `${original ? `'${original}' of ${namespace}` : 'The later source'} was renamed to '${unique}'`,
+    });
+  }
+
+  taken.set(unique, namespace);
+  return unique;
+}
+
+/**
+ * Combine the namespaced sources into one spec
+ */
+function mergeNamespacedSources(ctx: MergeContext, sources: NamespacedSource[], options: MergeOptions): ParsedOpenAPISpec {
+  const paths = new Map<string, ParsedPath>();
+  const owners = new Map<ParsedOperation, string>();
+  const schemas: Record<string, ParsedSchema> = {};
+  const securitySchemes: Record<string, ParsedSecurityScheme> = {};
+  const webhooks: ParsedWebhook[] = [];
+
+  const sharedServers = sources.every((source) => sameJson(source.spec.servers, sources[0].spec.servers))
+    ? sources[0].spec.servers
+    : [];
+
+  for (const source of sources) {
+    for (const [name, schema] of Object.entries(source.spec.schemas || {})) {
+      schemas[source.schemas.get(name)!] = rewriteRefs(schema, source.schemas);
+    }
+    for (const [name, scheme] of Object.entries(source.spec.security_schemes || {})) {
+      securitySchemes[source.securitySchemes.get(name)!] = scheme;
+    }
+
+    for (const path of source.spec.paths) {
+      for (const operation of path.operations) {
+        // Operations that relied on the source's spec-level servers now carry them
+        const servers = operation.servers ?? (source.spec.servers.length > 0 ? source.spec.servers : undefined);
+        addOperation(ctx, paths, path.path, { ...namespaceOperation(source, operation), servers }, source.namespace, owners);
+      }
+    }
+
+    for (const webhook of source.spec.webhooks || []) {
+      webhooks.push({
+        name: claim(ctx, 'webhook', `${source.namespace}_${webhook.name}`, source.namespace, webhook.name),
+        operations: webhook.operations.map((operation) => namespaceOperation(source, operation)),
+      });
+    }
+  }
+
+  const versions = [...new Set(sources.map((source) => source.spec.openapi_version))].sort();
+  const openapiVersion = versions[versions.length - 1];
+  if (versions.length > 1) {
+    ctx.conflicts.push({
+      kind: 'openapi_version',
+      name: versions.join(', '),
+      sources: sources.map((source) => source.namespace),
+      resolution: `The merged spec declares ${openapiVersion}`,
+    });
+  }
+
+  return {
+    openapi_version: openapiVersion,
+    info: {
+      title: options.title || sources.map((source) => source.spec.info.title).join(' + '),
+      version: options.version || '1.0.0',
+      description: `Merged from ${sources.map((source) =>
+        `${source.spec.info.title} ${source.spec.info.version} (${source.namespace})`).join(', ')}`,
+    },
+    servers: sharedServers,
+    paths: [...paths.values()],
+    schemas,
+    security_schemes: securitySchemes,
+    webhooks: webhooks.length > 0 ? webhooks : undefined,
+  };
+}
+
+/**
+ * Add an operation to the merged paths. A path holds one operation per
+ * method, so a later source's operation on a taken method is mounted under
+ * its namespace, /<namespace><path>, and keeps calling its own path
+ */
+function addOperation(
+  ctx: MergeContext,
+  paths: Map<string, ParsedPath>,
+  path: string,
+  operation: ParsedOperation,
+  namespace: string,
+  owners: Map<ParsedOperation, string>
+): void {
+  const takes = (key: string) => !paths.get(key)?.operations.some((other) => other.method === operation.method);
+  const push = (key: string, added: ParsedOperation) => {
+    const target = paths.get(key) || { path: key, operations: [] };
+    paths.set(key, target);
+    target.operations.push(added);
+    owners.set(added, namespace);
+  };
+
+  if (takes(path)) {
+    push(path, operation);
+    return;
+  }
+
+  let mounted = `/${namespace}${path}`;
+  for (let suffix = 2; !takes(mounted); suffix++) {
+    mounted = `/${namespace}_${suffix}${path}`;
+  }
+
+  const existing = paths.get(path)!.operations.find((other) => other.method === operation.method)!;
+  const server = operation.servers?.[0]?.url;
+  ctx.conflicts.push({
+    kind: 'operation',
+    name: `${operation.method} ${path}`,
+    sources: [owners.get(existing)!, namespace],
+    resolution: `'${operation.operation_id}' was mounted at ${mounted}; it still calls ${operation.method} ${path}${server ? ` on ${server}` : ''}`,
+  });
+  push(mounted, { ...operation, extensions: { ...operation.extensions, [UPSTREAM_PATH_EXTENSION]: path } });
+}
+
+/**
+ * Apply a source's renames to an operation: its id, schema refs, security
+ * requirements, link targets and callback operations
+ */
+function namespaceOperation(source: NamespacedSource, operation: ParsedOperation): ParsedOperation {
+  const { callbacks, security, ...rest } = operation;
+  const rewritten = rewriteRefs(rest, source.schemas);
+
+  for (const response of rewritten.responses) {
+    for (const link of Object.values(response.links || {})) {
+      if (link.operation_id) {
+        link.operation_id = source.operationIds.get(link.operation_id) ?? link.operation_id;
+      }
+    }
+  }
+
+  return {
+    ...rewritten,
+    operation_id: source.operationIds.get(operation.operation_id) ?? operation.operation_id,
+    security: security && renameSecurity(security, source.securitySchemes),
+    callbacks: callbacks?.map((callback): ParsedCallback => ({
+      ...callback,
+      operations: callback.operations.map((inner) => namespaceOperation(source, inner)),
+    })),
+  };
+}
+
+/**
+ * Rename the schemes in security requirements
+ */
+function renameSecurity(
+  security: ParsedSecurityRequirement[],
+  renames: Map<string, string>
+): ParsedSecurityRequirement[] {
+  return security.map((requirement) => Object.fromEntries(
+    Object.entries(requirement).map(([name, scopes]) => [renames.get(name) ?? name, scopes])
+  ));
+}
+
+/**
+ * Copy a value, pointing component schema refs at their renamed schemas
+ */
+function rewriteRefs<T>(value: T, renames: Map<string, string>): T {
+  if (Array.isArray(value)) {
+    return value.map((item) => rewriteRefs(item, renames)) as T;
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => {
+    if (key === '$ref' && typeof item === 'string' && item.startsWith(SCHEMA_REF_PREFIX)) {
+      const renamed = renames.get(item.slice(SCHEMA_REF_PREFIX.length));
+      return [key, renamed ? `${SCHEMA_REF_PREFIX}${renamed}` : item];
+    }
+    return [key, rewriteRefs(item, renames)];
+  })) as T;
+}
+
+/**
+ * Every operation of a spec, including webhooks and callbacks
+ */
+function allOperations(spec: ParsedOpenAPISpec): ParsedOperation[] {
+  const collect = (operations: ParsedOperation[]): ParsedOperation[] => operations.flatMap((operation) => [
+    operation,
+    ...collect((operation.callbacks || []).flatMap((callback) => callback.operations)),
+  ]);
+
+  return collect([
+    ...spec.paths.flatMap((path) => path.operations),
+    ...(spec.webhooks || []).flatMap((webhook) => webhook.operations),
+  ]);
+}
+
+/**
+ * Compare two values by their JSON form
+ */
+function sameJson(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
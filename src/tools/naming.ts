@@ -0,0 +1,205 @@
+import {
+  type ParsedOperation,
+  type ToolNamingOptions,
+  type ToolNamingStrategy,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+/**
+ * Vendor extension naming an operation's tool explicitly
+ */
+const MCP_NAME = 'x-mcp-name';
+
+/**
+ * Longest tool name emitted
+ */
+export const MAX_TOOL_NAME_LENGTH = 64;
+
+const STRATEGIES: ToolNamingStrategy[] = ['operation_id', 'snake_case', 'verb_noun', 'summary', 'template'];
+const TEMPLATE_PLACEHOLDER = /\{([^{}]*)\}/g;
+const TEMPLATE_FIELDS = ['operationId', 'method', 'tag', 'path'];
+
+/**
+ * Path segments that only version or mount an API and say nothing about the resource
+ */
+const VERSION_SEGMENT = /^(v\d+([._]\d+)*|api)$/i;
+
+/**
+ * Words left out of summary-derived names
+ */
+const ARTICLES = new Set(['a', 'an', 'the']);
+
+/**
+ * Names an operation's tool
+ */
+export type ToolNamer = (operation: ParsedOperation, path: string) => string;
+
+/**
+ * Build the function that names tools from the naming options, checking the
+ * strategy and template up front
+ */
+export function createToolNamer(options: ToolNamingOptions = {}): ToolResponse<ToolNamer> {
+  const strategy = options.naming ?? (options.name_template ? 'template' : 'operation_id');
+  if (!STRATEGIES.includes(strategy)) {
+    return errorResponse('INVALID_INPUT', `naming must be one of: ${STRATEGIES.join(', ')}`, {
+      provided: strategy,
+    });
+  }
+
+  if (strategy === 'template') {
+    const template = options.name_template;
+    if (!template) {
+      return errorResponse('INVALID_INPUT', 'The template naming strategy needs a name_template', {});
+    }
+    const fields = [...template.matchAll(TEMPLATE_PLACEHOLDER)].map((match) => match[1]);
+    const unknown = fields.filter((field) => !TEMPLATE_FIELDS.includes(field));
+    if (fields.length === 0 || unknown.length > 0) {
+      return errorResponse(
+        'INVALID_INPUT',
+        `name_template needs at least one placeholder and may only use ${TEMPLATE_FIELDS.map((field) => `{${field}}`).join(', ')}`,
+        { name_template: template, unknown_placeholders: unknown }
+      );
+    }
+  }
+
+  return successResponse(namer(strategy, options.name_template, options.name_prefix?.trim()));
+}
+
+/**
+ * Tool name for an operation under the default naming: its x-mcp-name,
+ * otherwise its operation ID
+ */
+export function toolNameForOperation(operation: ParsedOperation, path = ''): string {
+  return namer('operation_id')(operation, path);
+}
+
+/**
+ * Namer for validated options: an operation's x-mcp-name wins over the
+ * strategy, and the prefix goes in front of either
+ */
+function namer(strategy: ToolNamingStrategy, template?: string, prefix?: string): ToolNamer {
+  return (operation, path) => {
+    const explicit = operation.extensions?.[MCP_NAME];
+    const name = typeof explicit === 'string' && explicit.trim()
+      ? explicit
+      : strategyName(strategy, operation, path, template);
+    return sanitizeToolName(prefix ? `${prefix}_${name}` : name);
+  };
+}
+
+/**
+ * Sanitize tool name to be valid
+ */
+export function sanitizeToolName(name: string): string {
+  return name
+    .replace(/[^a-zA-Z0-9_-]/g, '_')
+    .replace(/_+/g, '_')
+    .replace(/^_|_$/g, '')
+    .toLowerCase()
+    .slice(0, MAX_TOOL_NAME_LENGTH); // MCP tool names should be reasonably short
+}
+
+/**
+ * Derive a name, before sanitizing, with one strategy
+ */
+function strategyName(
+  strategy: ToolNamingStrategy,
+  operation: ParsedOperation,
+  path: string,
+  template?: string
+): string {
+  switch (strategy) {
+    case 'snake_case':
+      return words(operation.operation_id).join('_');
+    case 'verb_noun':
+      return verbNounName(operation.method, path) ?? words(operation.operation_id).join('_');
+    case 'summary': {
+      const summary = words(operation.summary ?? '').filter((word) => !ARTICLES.has(word));
+      return summary.length > 0 ? summary.join('_') : words(operation.operation_id).join('_');
+    }
+    case 'template':
+      return template!.replace(TEMPLATE_PLACEHOLDER, (_, field: string) => ({
+        operationId: operation.operation_id,
+        method: operation.method.toLowerCase(),
+        tag: operation.tags?.[0] ?? '',
+        path: words(path).join('_'),
+      })[field] ?? '');
+    default:
+      return operation.operation_id;
+  }
+}
+
+/**
+ * Name an operation after what it does to the resource its path names:
+ * GET /v1/customers gives list_customers, GET /v1/customers/{id} gives
+ * get_customer and POST /charges/{id}/capture gives capture_charge.
+ * Returns undefined for paths without a named resource
+ */
+function verbNounName(method: string, path: string): string | undefined {
+  const segments = path.split('/').filter((segment) => segment && !VERSION_SEGMENT.test(segment));
+  const resources = segments
+    .filter((segment) => !/^\{.*\}$/.test(segment))
+    .map(words)
+    .filter((resource) => resource.length > 0);
+  if (resources.length === 0) {
+    return undefined;
+  }
+
+  const last = segments[segments.length - 1];
+  const endsWithParameter = /^\{.*\}$/.test(last);
+  const lastResource = resources[resources.length - 1];
+  const plural = singular(lastResource[lastResource.length - 1]) !== lastResource[lastResource.length - 1];
+
+  let verb: string;
+  const upper = method.toUpperCase();
+  if (upper === 'POST' && !endsWithParameter && !plural && segments.length > 1
+    && /^\{.*\}$/.test(segments[segments.length - 2])) {
+    // A singular segment after an ID is an action on that item, e.g. /charges/{id}/capture
+    verb = lastResource.join('_');
+    resources.pop();
+  } else if (upper === 'GET') {
+    verb = !endsWithParameter && plural ? 'list' : 'get';
+  } else {
+    verb = ({ POST: 'create', PUT: 'update', PATCH: 'update', DELETE: 'delete' } as Record<string, string>)[upper]
+      ?? upper.toLowerCase();
+  }
+
+  // Parent resources and single items are singular; lists keep their plural
+  const nouns = resources.map((resource, index) => {
+    const keepPlural = verb === 'list' && index === resources.length - 1;
+    return keepPlural ? resource : [...resource.slice(0, -1), singular(resource[resource.length - 1])];
+  });
+
+  return [verb, ...nouns.flat()].join('_');
+}
+
+/**
+ * Split an identifier or phrase into lowercase words, breaking camelCase,
+ * snake_case, kebab-case and punctuation apart
+ */
+function words(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Singular form of an English plural, for the regular endings
+ */
+function singular(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) {
+    return `${word.slice(0, -3)}y`;
+  }
+  if (word.length > 4 && /(ss|sh|ch|x)es$/.test(word)) {
+    return word.slice(0, -2);
+  }
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
@@ -0,0 +1,245 @@
+import { JSONPath } from 'jsonpath-plus';
+import yaml from 'js-yaml';
+import {
+  type OverlayReport,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+const SUPPORTED_OVERLAY_VERSION = /^1\.\d+\.\d+$/;
+
+interface OverlayAction {
+  target: string;
+  description?: string;
+  update?: unknown;
+  remove?: boolean;
+}
+
+interface OverlayDocument {
+  overlay: string;
+  info?: { title?: string; version?: string };
+  actions: OverlayAction[];
+}
+
+/**
+ * A node selected by a JSONPath target, with the container holding it
+ */
+interface TargetNode {
+  value: unknown;
+  parent: Record<string, unknown> | unknown[] | null;
+  parentProperty: string | number | null;
+}
+
+/**
+ * Apply OpenAPI Overlay 1.0 documents to a spec document in order. Each
+ * action's update is merged into, or its remove deletes, every node its
+ * JSONPath target selects. The document is modified in place
+ */
+export function applyOverlays(
+  document: Record<string, unknown>,
+  overlays: (string | Record<string, unknown>)[],
+  warnings: string[]
+): ToolResponse<OverlayReport[]> {
+  const reports: OverlayReport[] = [];
+
+  for (const [overlayIndex, source] of overlays.entries()) {
+    const overlay = loadOverlay(source, overlayIndex);
+    if (!overlay.ok) {
+      return overlay;
+    }
+
+    const title = overlay.data.info?.title;
+    const report: OverlayReport = { title, applied_actions: 0, unmatched_actions: [] };
+
+    for (const [index, action] of overlay.data.actions.entries()) {
+      let nodes: TargetNode[];
+      try {
+        nodes = JSONPath({ path: normalizeFilters(action.target), json: document, resultType: 'all' }) as TargetNode[];
+      } catch (error) {
+        return errorResponse('INVALID_INPUT', 'Invalid JSONPath target in overlay action', {
+          overlay: overlayIndex,
+          action: index,
+          target: action.target,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      if (nodes.length === 0) {
+        report.unmatched_actions.push({ index, target: action.target, description: action.description });
+        warnings.push(`Overlay ${title ? `'${title}'` : overlayIndex} action ${index} (${action.target}) matched nothing`);
+        continue;
+      }
+
+      if (action.remove) {
+        if (nodes.some((node) => node.parent === null)) {
+          return errorResponse('INVALID_INPUT', 'An overlay action cannot remove the document root', {
+            overlay: overlayIndex,
+            action: index,
+            target: action.target,
+          });
+        }
+        removeNodes(nodes);
+      } else {
+        for (const node of nodes) {
+          updateNode(node, action.update);
+        }
+      }
+      report.applied_actions++;
+    }
+
+    reports.push(report);
+  }
+
+  return successResponse(reports);
+}
+
+/**
+ * Parse and validate an overlay given as a JSON/YAML string or an object
+ */
+function loadOverlay(source: string | Record<string, unknown>, overlayIndex: number): ToolResponse<OverlayDocument> {
+  let overlay: unknown = source;
+  if (typeof source === 'string') {
+    try {
+      // YAML is a superset of JSON, so one loader reads both
+      overlay = yaml.load(source);
+    } catch (error) {
+      return errorResponse('PARSE_ERROR', 'Invalid overlay document', {
+        overlay: overlayIndex,
+        error: error instanceof yaml.YAMLException ? error.reason : String(error),
+        ...(error instanceof yaml.YAMLException && { line: error.mark.line + 1, column: error.mark.column + 1 }),
+      });
+    }
+  }
+
+  const document = (overlay ?? {}) as Partial<OverlayDocument>;
+  if (typeof document.overlay !== 'string' || !SUPPORTED_OVERLAY_VERSION.test(document.overlay)) {
+    return errorResponse('INVALID_INPUT', 'Only OpenAPI Overlay 1.x documents are supported', {
+      overlay: overlayIndex,
+      provided_version: document.overlay ?? 'unknown',
+    });
+  }
+  if (!Array.isArray(document.actions) || document.actions.length === 0) {
+    return errorResponse('INVALID_INPUT', 'Overlay must declare at least one action', { overlay: overlayIndex });
+  }
+
+  for (const [index, action] of document.actions.entries()) {
+    if (typeof action?.target !== 'string' || !action.target.startsWith('$')) {
+      return errorResponse('INVALID_INPUT', 'Overlay action target must be a JSONPath expression starting with $', {
+        overlay: overlayIndex,
+        action: index,
+      });
+    }
+    if (action.update === undefined && action.remove !== true) {
+      return errorResponse('INVALID_INPUT', 'Overlay action must have an update or remove: true', {
+        overlay: overlayIndex,
+        action: index,
+        target: action.target,
+      });
+    }
+  }
+
+  return successResponse(document as OverlayDocument);
+}
+
+/**
+ * Merge an update into a selected node: objects are merged recursively,
+ * arrays get the update appended and scalars are replaced
+ */
+function updateNode(node: TargetNode, update: unknown): void {
+  if (Array.isArray(node.value)) {
+    node.value.push(structuredClone(update));
+  } else if (isObject(node.value) && isObject(update)) {
+    mergeInto(node.value, update);
+  } else if (node.parent !== null) {
+    (node.parent as Record<string | number, unknown>)[node.parentProperty!] = structuredClone(update);
+  }
+}
+
+/**
+ * Recursively merge an update object into a target object
+ */
+function mergeInto(target: Record<string, unknown>, update: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(update)) {
+    const existing = target[key];
+    if (isObject(existing) && isObject(value)) {
+      mergeInto(existing, value);
+    } else if (Array.isArray(existing) && Array.isArray(value)) {
+      existing.push(...structuredClone(value));
+    } else {
+      target[key] = structuredClone(value);
+    }
+  }
+}
+
+/**
+ * Delete selected nodes from their containers, splicing array entries from
+ * the highest index down so earlier indices stay valid
+ */
+function removeNodes(nodes: TargetNode[]): void {
+  const ordered = [...nodes].sort((a, b) =>
+    typeof a.parentProperty === 'number' && typeof b.parentProperty === 'number'
+      ? b.parentProperty - a.parentProperty
+      : 0);
+
+  for (const { parent, parentProperty } of ordered) {
+    if (Array.isArray(parent)) {
+      parent.splice(parentProperty as number, 1);
+    } else if (parent) {
+      delete parent[parentProperty as string];
+    }
+  }
+}
+
+/**
+ * Rewrite RFC 9535 filter selectors ([?@.x == 'y']) into the parenthesized
+ * form the JSONPath evaluator expects ([?(@.x == 'y')])
+ */
+function normalizeFilters(path: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < path.length) {
+    const start = path.indexOf('[?', index);
+    if (start === -1 || path[start + 2] === '(') {
+      const end = start === -1 ? path.length : start + 2;
+      result += path.slice(index, end);
+      index = end;
+      continue;
+    }
+
+    // Find the bracket closing the filter, skipping nested brackets and quoted strings
+    let depth = 1;
+    let quote: string | undefined;
+    let end = start + 2;
+    for (; end < path.length && depth > 0; end++) {
+      const char = path[end];
+      if (quote) {
+        if (char === quote && path[end - 1] !== '\\') quote = undefined;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === '[') {
+        depth++;
+      } else if (char === ']') {
+        depth--;
+      }
+    }
+
+    if (depth > 0) {
+      result += path.slice(index);
+      break;
+    }
+
+    result += `${path.slice(index, start)}[?(${path.slice(start + 2, end - 1).trim()})]`;
+    index = end;
+  }
+
+  return result;
+}
+
+/**
+ * Check if a value is a plain object (not an array or null)
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,155 @@
+import {
+  type ParsedPath,
+  type ParsedSchema,
+  type PageOptions,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+/**
+ * Page size used when a cursor is passed without a page_size
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+
+const SCHEMA_REF_PREFIX = '#/components/schemas/';
+
+/**
+ * One page of operations, regrouped by path
+ */
+export interface OperationPage {
+  paths: ParsedPath[];
+  total_operations: number;
+  next_cursor: string | null;
+}
+
+/**
+ * Check whether any paging option was given
+ */
+export function isPaged(options: PageOptions): boolean {
+  return options.page_size !== undefined || options.cursor !== undefined;
+}
+
+/**
+ * Slice the operations of a parsed spec into the page a cursor points at.
+ * Cursors carry the ID of the spec they were issued for, and a cursor for
+ * any other spec is rejected rather than applied to the wrong operations
+ */
+export function pageOperations(
+  paths: ParsedPath[],
+  specId: string,
+  options: PageOptions
+): ToolResponse<OperationPage> {
+  const pageSize = options.page_size ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    return errorResponse('INVALID_INPUT', 'page_size must be a positive integer', {
+      provided: options.page_size,
+    });
+  }
+
+  const cursor = options.cursor === undefined ? { spec_id: specId, offset: 0 } : decodeCursor(options.cursor);
+  if (cursor === undefined) {
+    return errorResponse('INVALID_INPUT', 'cursor is not a next_cursor returned by openapi_parse', {
+      provided: options.cursor,
+    });
+  }
+  if (cursor.spec_id !== specId) {
+    return errorResponse('INVALID_INPUT', 'cursor was issued for a different spec, or the spec has changed since; start again without a cursor', {
+      provided: options.cursor,
+      spec_id: specId,
+    });
+  }
+  const offset = cursor.offset;
+
+  const entries = paths.flatMap((path) => path.operations.map((operation) => ({ path, operation })));
+  const slice = entries.slice(offset, offset + pageSize);
+
+  const page: ParsedPath[] = [];
+  for (const { path, operation } of slice) {
+    const last = page[page.length - 1];
+    if (last?.path === path.path) {
+      last.operations.push(operation);
+    } else {
+      page.push({ path: path.path, operations: [operation] });
+    }
+  }
+
+  const nextOffset = offset + pageSize;
+  return successResponse({
+    paths: page,
+    total_operations: entries.length,
+    next_cursor: nextOffset < entries.length ? encodeCursor(specId, nextOffset) : null,
+  });
+}
+
+/**
+ * Pick the component schemas a page refers to, following refs between components
+ */
+export function referencedSchemas(
+  node: unknown,
+  schemas: Record<string, ParsedSchema>
+): Record<string, ParsedSchema> {
+  const picked: Record<string, ParsedSchema> = {};
+  const pending = [node];
+
+  while (pending.length > 0) {
+    for (const ref of collectSchemaRefs(pending.pop())) {
+      const name = ref.slice(SCHEMA_REF_PREFIX.length);
+      if (name in picked || !(name in schemas)) continue;
+      picked[name] = schemas[name];
+      pending.push(schemas[name]);
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Collect the component schema refs anywhere inside a value
+ */
+function collectSchemaRefs(node: unknown, refs: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(node)) {
+    node.forEach((item) => collectSchemaRefs(item, refs));
+  } else if (typeof node === 'object' && node !== null) {
+    for (const [key, value] of Object.entries(node)) {
+      if (key === '$ref' && typeof value === 'string' && value.startsWith(SCHEMA_REF_PREFIX)) {
+        refs.add(value);
+      } else {
+        collectSchemaRefs(value, refs);
+      }
+    }
+  }
+  return refs;
+}
+
+/**
+ * Return the ID of the spec a cursor was issued for, if it is well-formed
+ */
+export function cursorSpecId(cursor: string): string | undefined {
+  return decodeCursor(cursor)?.spec_id;
+}
+
+/**
+ * Encode a spec ID and operation offset as an opaque cursor
+ */
+function encodeCursor(specId: string, offset: number): string {
+  return Buffer.from(JSON.stringify({ spec_id: specId, offset })).toString('base64url');
+}
+
+/**
+ * Decode a cursor back to its spec ID and operation offset, or undefined if it is malformed
+ */
+function decodeCursor(cursor: string): { spec_id: string; offset: number } | undefined {
+  try {
+    const { spec_id, offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8')) as {
+      spec_id?: unknown;
+      offset?: unknown;
+    };
+    if (typeof spec_id !== 'string' || !Number.isInteger(offset) || (offset as number) < 0) {
+      return undefined;
+    }
+    return { spec_id, offset: offset as number };
+  } catch {
+    return undefined;
+  }
+}
@@ -1,20 +1,41 @@
 import SwaggerParser from '@apidevtools/swagger-parser';
+import yaml from 'js-yaml';
 import type { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 import {
   type ParsedOpenAPISpec,
   type ParsedPath,
+  type ParsedWebhook,
+  type ParsedCallback,
   type ParsedOperation,
   type ParsedParameter,
+  type ParameterStyle,
+  type ParsedExample,
+  type ParsedLink,
   type ParsedRequestBody,
   type ParsedResponse,
   type ParsedSchema,
   type ParsedSecurityScheme,
+  type ParsedSecurityRequirement,
   type ParsedServer,
+  type ParseOptions,
+  type ParsedSpecSummary,
+  type OverlayReport,
+  type SchemaEnumValue,
   type ToolResponse,
+  type ErrorResponse,
+  type ResponseMeta,
   successResponse,
   errorResponse,
   isOpenAPIV3,
 } from '../types.js';
+import { convertSwagger2, isSwagger2 } from './swagger2.js';
+import { convertPostmanCollection, isPostmanCollection, isSupportedPostmanCollection } from './postman.js';
+import { bundleSpecFiles, bundleSpecPath, isLocalSpecPath } from './bundle.js';
+import { resolveJsonPointer } from './pointer.js';
+import { cursorSpecId, isPaged, pageOperations, referencedSchemas } from './paginate.js';
+import { cacheParsedSpec, getCachedSpec, hashSpec } from './cache.js';
+import { applyOverlays } from './overlay.js';
+import { bundleSpecRefs, bundleSpecUrl } from './fetch.js';
 
 type OpenAPISpec = OpenAPIV3.Document | OpenAPIV3_1.Document;
 type SchemaObject = OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject;
@@ -25,62 +46,440 @@ type ResponseObject = OpenAPIV3.ResponseObject | OpenAPIV3_1.ResponseObject;
 type SecuritySchemeObject = OpenAPIV3.SecuritySchemeObject | OpenAPIV3_1.SecuritySchemeObject;
 type OperationObject = OpenAPIV3.OperationObject | OpenAPIV3_1.OperationObject;
 type PathItemObject = OpenAPIV3.PathItemObject | OpenAPIV3_1.PathItemObject;
+type HeaderObject = OpenAPIV3.HeaderObject | OpenAPIV3_1.HeaderObject;
+type MediaTypeObject = OpenAPIV3.MediaTypeObject | OpenAPIV3_1.MediaTypeObject;
+type ExampleObject = OpenAPIV3.ExampleObject | OpenAPIV3_1.ExampleObject;
+type LinkObject = OpenAPIV3.LinkObject | OpenAPIV3_1.LinkObject;
+type CallbackObject = OpenAPIV3.CallbackObject | OpenAPIV3_1.CallbackObject;
 
 /**
- * Parse an OpenAPI specification from URL or JSON string
+ * Matches refs that name a whole component schema, as kept by preserve_refs
+ */
+const COMPONENT_SCHEMA_REF = /^#\/components\/schemas\/[^/]+$/;
+
+/**
+ * Default parameter serialization style per location
+ */
+const DEFAULT_PARAMETER_STYLES: Record<ParsedParameter['in'], ParameterStyle> = {
+  query: 'form',
+  cookie: 'form',
+  path: 'simple',
+  header: 'simple',
+};
+
+/**
+ * Ref parser options for loaded documents. External refs were bundled while
+ * loading, under the fetch rules, so nothing is read from disk or network here
+ */
+const LOCAL_REFS_ONLY = { resolve: { file: false, http: false } } as SwaggerParser.Options;
+
+/**
+ * Format of the raw spec input, as detected from its content
+ */
+export type SpecInputFormat = 'json' | 'yaml' | 'url' | 'bundle';
+
+/**
+ * Parse an OpenAPI specification from URL, JSON string, YAML string,
+ * local file or directory, or an in-memory map of spec files
  */
 export async function openapiParse(
-  specUrlOrJson: string
+  specUrlOrJson: string,
+  options: ParseOptions = {}
 ): Promise<ToolResponse<ParsedOpenAPISpec>> {
   try {
-    let spec: OpenAPISpec;
+    const cached = await cursorSpec(options);
+    if (cached) {
+      return pageParsedSpec(cached.spec, cached.spec_id, options, { spec_id: cached.spec_id });
+    }
 
-    // Determine if input is URL or JSON
-    if (specUrlOrJson.trim().startsWith('{')) {
-      // Parse as JSON
-      try {
-        const parsed = JSON.parse(specUrlOrJson);
-        spec = await SwaggerParser.dereference(parsed) as OpenAPISpec;
-      } catch (parseError) {
-        return errorResponse('PARSE_ERROR', 'Invalid JSON provided', {
-          error: parseError instanceof Error ? parseError.message : String(parseError),
-        });
-      }
+    const loaded = await loadSpecDocument(specUrlOrJson, options);
+    if (!loaded.ok) {
+      return loaded;
+    }
+    return await parseLoadedSpec(loaded.data, options);
+  } catch (error) {
+    return errorResponse('INTERNAL_ERROR', 'Unexpected error while parsing OpenAPI spec', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Resolve refs in a loaded OpenAPI 3.x document, parse it, cache the
+ * result and return the requested page
+ */
+export async function parseLoadedSpec(
+  loaded: LoadedSpec,
+  options: ParseOptions = {}
+): Promise<ToolResponse<ParsedOpenAPISpec>> {
+  const { document, source, format, warnings, overlays } = loaded;
+
+  let spec: OpenAPISpec;
+  try {
+    if (options.preserve_refs) {
+      // Keep component schema refs; only inline parameters, responses, etc.
+      const bundled = await SwaggerParser.bundle(document as OpenAPISpec, LOCAL_REFS_ONLY) as OpenAPISpec;
+      spec = inlineNonSchemaRefs(bundled, warnings);
     } else {
-      // Parse as URL
+      spec = await SwaggerParser.dereference(document as OpenAPISpec, LOCAL_REFS_ONLY) as OpenAPISpec;
+    }
+  } catch (parseError) {
+    return errorResponse('PARSE_ERROR', 'Failed to resolve OpenAPI spec', {
+      format,
+      error: parseError instanceof Error ? parseError.message : String(parseError),
+    });
+  }
+
+  // Validate it's OpenAPI 3.x
+  if (!isOpenAPIV3(spec)) {
+    return unsupportedVersionError(spec);
+  }
+
+  const parsedSpec = parseSpec(spec, warnings);
+  const specId = await cacheParsedSpec(parsedSpec, warnings);
+  const meta = { source, spec_id: specId, ...(overlays && { overlays }), warnings };
+
+  if (!isPaged(options)) {
+    return successResponse(parsedSpec, meta);
+  }
+  // A spec too large to cache still gets cursors tied to its content
+  return pageParsedSpec(parsedSpec, specId ?? hashSpec(parsedSpec), options, meta);
+}
+
+/**
+ * Return the requested page of a parsed spec, with the component schemas it uses
+ */
+function pageParsedSpec(
+  spec: ParsedOpenAPISpec,
+  specId: string,
+  options: ParseOptions,
+  meta: Partial<ResponseMeta>
+): ToolResponse<ParsedOpenAPISpec> {
+  const page = pageOperations(spec.paths, specId, options);
+  if (!page.ok) {
+    return page;
+  }
+
+  // Webhooks are not paged, so they are returned once, with the first page
+  const webhooks = options.cursor === undefined ? spec.webhooks : undefined;
+
+  return successResponse({
+    ...spec,
+    paths: page.data.paths,
+    schemas: referencedSchemas([page.data.paths, webhooks], spec.schemas),
+    webhooks,
+  }, {
+    ...meta,
+    pagination: { next_cursor: page.data.next_cursor },
+  });
+}
+
+/**
+ * Look up the cached spec a cursor was issued for, so later pages are served
+ * without loading the spec again. Undefined when there is no cursor or the
+ * spec has left the cache
+ */
+async function cursorSpec(options: ParseOptions): Promise<{ spec: ParsedOpenAPISpec; spec_id: string } | undefined> {
+  const specId = options.cursor === undefined ? undefined : cursorSpecId(options.cursor);
+  const spec = specId === undefined ? undefined : await getCachedSpec(specId);
+  return spec && specId ? { spec, spec_id: specId } : undefined;
+}
+
+/**
+ * Parse an OpenAPI spec into an outline of its operations (method, path,
+ * operation ID, summary and tags) without parameters or schemas
+ */
+export async function openapiParseSummary(
+  specUrlOrJson: string,
+  options: ParseOptions = {}
+): Promise<ToolResponse<ParsedSpecSummary>> {
+  const cached = await cursorSpec(options);
+  const parsed = cached
+    ? successResponse(cached.spec, { spec_id: cached.spec_id })
+    : await openapiParse(specUrlOrJson, { ...options, page_size: undefined, cursor: undefined });
+  if (!parsed.ok) {
+    return parsed;
+  }
+  const spec = parsed.data;
+
+  let paths = spec.paths;
+  let nextCursor: string | null | undefined;
+  if (isPaged(options)) {
+    const page = pageOperations(spec.paths, parsed.meta.spec_id ?? hashSpec(spec), options);
+    if (!page.ok) {
+      return page;
+    }
+    paths = page.data.paths;
+    nextCursor = page.data.next_cursor;
+  }
+
+  return successResponse({
+    openapi_version: spec.openapi_version,
+    info: spec.info,
+    servers: spec.servers,
+    total_operations: spec.paths.reduce((count, path) => count + path.operations.length, 0),
+    operations: paths.flatMap((path) => path.operations.map((operation) => ({
+      method: operation.method,
+      path: path.path,
+      operation_id: operation.operation_id,
+      summary: operation.summary,
+      tags: operation.tags,
+      deprecated: operation.deprecated,
+    }))),
+  }, {
+    source: parsed.meta.source,
+    spec_id: parsed.meta.spec_id,
+    ...(parsed.meta.overlays && { overlays: parsed.meta.overlays }),
+    warnings: parsed.meta.warnings,
+    ...(nextCursor !== undefined && { pagination: { next_cursor: nextCursor } }),
+  });
+}
+
+/**
+ * A spec document loaded from any supported input, with external refs
+ * bundled in but internal refs left in place
+ */
+export interface LoadedSpec {
+  document: unknown;
+  source: string;
+  format: SpecInputFormat;
+  warnings: string[];
+  /** Outcome of the overlays applied to the document, if any were given */
+  overlays?: OverlayReport[];
+}
+
+/**
+ * Load a raw spec document from URL, JSON string, YAML string, local file
+ * or directory, or an in-memory map of spec files, applying overlays,
+ * upgrading Swagger 2.0 when requested and converting Postman collections
+ */
+export async function loadSpecDocument(
+  specUrlOrJson: string,
+  options: Pick<ParseOptions, 'convert_swagger2' | 'files' | 'entry_file' | 'overlays' | 'fetch'> = {}
+): Promise<ToolResponse<LoadedSpec>> {
+  let document: unknown;
+  let source: string;
+  const warnings: string[] = [];
+  let format: SpecInputFormat = options.files ? 'bundle' : detectInputFormat(specUrlOrJson);
+  if (format === 'url' && await isLocalSpecPath(specUrlOrJson)) {
+    format = 'bundle';
+  }
+
+  if (format === 'bundle') {
+    // Resolve a multi-file spec offline, from a file map or a local path.
+    // With a file map, the spec input names the entry file.
+    const bundled = options.files
+      ? await bundleSpecFiles(options.files, options.entry_file || specUrlOrJson || undefined)
+      : await bundleSpecPath(specUrlOrJson, options.entry_file);
+    if (!bundled.ok) {
+      return bundled;
+    }
+    document = bundled.data.document;
+    source = options.files ? `bundle:${bundled.data.entry_file}` : specUrlOrJson;
+  } else if (format === 'url') {
+    // Load from URL, resolving external refs into the document
+    const fetched = await bundleSpecUrl(specUrlOrJson, options.fetch);
+    if (!fetched.ok) {
+      return fetched;
+    }
+    document = fetched.data;
+    source = specUrlOrJson;
+  } else {
+    // Parse inline JSON or YAML
+    let parseError: unknown;
+    try {
+      document = format === 'json' ? JSON.parse(specUrlOrJson) : yaml.load(specUrlOrJson);
+    } catch (error) {
+      parseError = error;
+    }
+
+    // A YAML flow mapping starts with '{' too, so input that is not JSON gets a
+    // second chance as YAML. If that fails as well, the JSON error is reported
+    if (parseError !== undefined && format === 'json') {
       try {
-        spec = await SwaggerParser.dereference(specUrlOrJson) as OpenAPISpec;
-      } catch (fetchError) {
-        return errorResponse('UPSTREAM_ERROR', 'Failed to fetch or parse OpenAPI spec from URL', {
-          url: specUrlOrJson,
-          error: fetchError instanceof Error ? fetchError.message : String(fetchError),
-        });
+        document = yaml.load(specUrlOrJson);
+        format = 'yaml';
+        parseError = undefined;
+      } catch {
+        // Fall through to the JSON error
       }
     }
 
-    // Validate it's OpenAPI 3.x
-    if (!isOpenAPIV3(spec)) {
-      return errorResponse('INVALID_INPUT', 'Only OpenAPI 3.0 and 3.1 specifications are supported', {
-        provided_version: (spec as Record<string, unknown>).openapi || (spec as Record<string, unknown>).swagger || 'unknown',
+    if (parseError !== undefined) {
+      return errorResponse(
+        'PARSE_ERROR',
+        format === 'json' ? 'Invalid JSON provided' : 'Invalid YAML provided',
+        describeParseError(parseError)
+      );
+    }
+
+    if (typeof document !== 'object' || document === null || Array.isArray(document)) {
+      return errorResponse('PARSE_ERROR', `${format.toUpperCase()} input must be an object`, {
+        format,
       });
     }
+    source = `${format}_input`;
+
+    // Remote refs of an inline spec are fetched under the same rules as a spec URL
+    if (hasExternalRefs(document)) {
+      const bundled = await bundleSpecRefs(document, options.fetch);
+      if (!bundled.ok) {
+        return bundled;
+      }
+      document = bundled.data;
+    }
+  }
 
-    const parsedSpec = parseSpec(spec);
+  // Overlays target the document as written, so they run before any conversion
+  let overlays: OverlayReport[] | undefined;
+  if (options.overlays?.length) {
+    const applied = applyOverlays(document as Record<string, unknown>, options.overlays, warnings);
+    if (!applied.ok) {
+      return applied;
+    }
+    overlays = applied.data;
+  }
 
-    return successResponse(parsedSpec, {
-      source: specUrlOrJson.startsWith('{') ? 'json_input' : specUrlOrJson,
-    });
-  } catch (error) {
-    return errorResponse('INTERNAL_ERROR', 'Unexpected error while parsing OpenAPI spec', {
-      error: error instanceof Error ? error.message : String(error),
-    });
+  if (isPostmanCollection(document)) {
+    if (!isSupportedPostmanCollection(document)) {
+      return errorResponse('INVALID_INPUT', 'Only Postman Collection v2.1 is supported', {
+        schema: document.info.schema,
+      });
+    }
+    const conversion = convertPostmanCollection(document);
+    document = conversion.spec;
+    warnings.push(`Converted Postman collection '${conversion.spec.info.title}' to OpenAPI ${conversion.spec.openapi}`);
+    warnings.push(...conversion.warnings);
+  }
+
+  // Upgrade Swagger 2.0 before refs are resolved so #/definitions pointers get rewritten
+  if (isSwagger2(document) && options.convert_swagger2) {
+    const conversion = convertSwagger2(document);
+    document = conversion.spec;
+    warnings.push(`Converted Swagger ${conversion.source_version} spec to OpenAPI ${conversion.spec.openapi}`);
+    warnings.push(...conversion.warnings);
   }
+
+  return successResponse({ document, source, format, warnings, ...(overlays && { overlays }) });
+}
+
+/**
+ * Error returned for documents that are not OpenAPI 3.0 or 3.1
+ */
+export function unsupportedVersionError(document: unknown): ErrorResponse {
+  const raw = (document ?? {}) as Record<string, unknown>;
+  return errorResponse(
+    'INVALID_INPUT',
+    isSwagger2(document)
+      ? 'Swagger 2.0 specifications require convert_swagger2 to be enabled'
+      : 'Only OpenAPI 3.0 and 3.1 specifications are supported',
+    {
+      provided_version: raw.openapi || raw.swagger || 'unknown',
+    }
+  );
+}
+
+/**
+ * Check whether a document has a $ref to another file or URL
+ */
+function hasExternalRefs(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(hasExternalRefs);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  return Object.entries(value).some(([key, item]) =>
+    key === '$ref' && typeof item === 'string' ? !item.startsWith('#') : hasExternalRefs(item));
+}
+
+/**
+ * Detect whether the input is inline JSON, inline YAML or a URL
+ */
+function detectInputFormat(input: string): SpecInputFormat {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith('{')) return 'json';
+
+  // URLs and file paths are single-line; YAML documents span lines or
+  // start with a document marker or a top-level mapping key
+  if (
+    trimmed.includes('\n') ||
+    trimmed.startsWith('---') ||
+    /^(openapi|swagger)\s*:/.test(trimmed)
+  ) {
+    return 'yaml';
+  }
+
+  return 'url';
+}
+
+/**
+ * Extract error details, including line/column for YAML syntax errors
+ */
+function describeParseError(error: unknown): Record<string, unknown> {
+  if (error instanceof yaml.YAMLException) {
+    return {
+      error: error.reason,
+      line: error.mark.line + 1,
+      column: error.mark.column + 1,
+    };
+  }
+
+  return {
+    error: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Inline every internal $ref except those naming a component schema, so the
+ * parsed spec keeps schema pointers while parameters, bodies and responses
+ * are available inline
+ */
+function inlineNonSchemaRefs(spec: OpenAPISpec, warnings: string[]): OpenAPISpec {
+  const resolving = new Set<string>();
+
+  const visit = (node: unknown): unknown => {
+    if (Array.isArray(node)) return node.map(visit);
+    if (typeof node !== 'object' || node === null) return node;
+
+    if (isRef(node)) {
+      const ref = node.$ref;
+      if (COMPONENT_SCHEMA_REF.test(ref)) return node;
+
+      const target = ref.startsWith('#') ? resolveJsonPointer(spec, ref) : undefined;
+      if (target === undefined) {
+        warnings.push(`Unresolved $ref '${ref}' kept as a pointer`);
+        return node;
+      }
+      if (resolving.has(ref)) {
+        warnings.push(`Circular $ref '${ref}' kept as a pointer`);
+        return node;
+      }
+
+      resolving.add(ref);
+      try {
+        return visit(target);
+      } finally {
+        resolving.delete(ref);
+      }
+    }
+
+    return Object.fromEntries(Object.entries(node).map(([key, value]) => [key, visit(value)]));
+  };
+
+  return visit(spec) as OpenAPISpec;
 }
 
 /**
  * Parse the OpenAPI spec into our internal representation
  */
-function parseSpec(spec: OpenAPISpec): ParsedOpenAPISpec {
+function parseSpec(spec: OpenAPISpec, warnings: string[] = []): ParsedOpenAPISpec {
+  const ctx = createSchemaContext(spec.components?.schemas || {}, warnings);
+  const servers = parseServers(spec.servers);
+  const security = parseSecurity(spec.security);
+  const defaults: OperationDefaults = { servers, security };
+
   return {
     openapi_version: spec.openapi,
     info: {
@@ -88,13 +487,30 @@ function parseSpec(spec: OpenAPISpec): ParsedOpenAPISpec {
       version: spec.info.version,
       description: spec.info.description,
     },
-    servers: parseServers(spec.servers),
-    paths: parsePaths(spec.paths || {}),
-    schemas: parseSchemas(spec.components?.schemas || {}),
+    servers,
+    paths: parsePaths(spec.paths || {}, defaults, ctx),
+    schemas: parseSchemas(spec.components?.schemas || {}, ctx),
     security_schemes: parseSecuritySchemes(spec.components?.securitySchemes || {}),
+    security,
+    webhooks: parseWebhooks((spec as OpenAPIV3_1.Document).webhooks, ctx),
   };
 }
 
+/**
+ * Spec-level settings inherited by operations that do not override them
+ */
+interface OperationDefaults {
+  servers: ParsedServer[];
+  security?: ParsedSecurityRequirement[];
+}
+
+/**
+ * Parse a security requirement array, keeping an explicit empty array
+ */
+function parseSecurity(security?: OpenAPISpec['security']): ParsedSecurityRequirement[] | undefined {
+  return security?.map((requirement) => ({ ...requirement }) as ParsedSecurityRequirement);
+}
+
 /**
  * Parse servers array
  */
@@ -119,32 +535,80 @@ function parseServers(servers?: OpenAPISpec['servers']): ParsedServer[] {
   }));
 }
 
+/**
+ * Parse OpenAPI 3.1 webhooks. They are requests sent by the API, so spec-level
+ * servers and security do not apply to them
+ */
+function parseWebhooks(webhooks: OpenAPIV3_1.Document['webhooks'], ctx: SchemaContext): ParsedWebhook[] | undefined {
+  if (!webhooks || Object.keys(webhooks).length === 0) return undefined;
+
+  return Object.entries(webhooks).map(([name, pathItem]) => ({
+    name,
+    operations: parsePathOperations(name, pathItem as PathItemObject, { servers: [] }, ctx),
+  }));
+}
+
+/**
+ * Parse operation callbacks, keyed by callback name and runtime expression
+ */
+function parseCallbacks(
+  callbacks: OperationObject['callbacks'],
+  ctx: SchemaContext
+): ParsedCallback[] | undefined {
+  if (!callbacks) return undefined;
+
+  const parsed: ParsedCallback[] = [];
+  for (const [name, callback] of Object.entries(callbacks)) {
+    for (const [expression, pathItem] of Object.entries(callback as CallbackObject)) {
+      parsed.push({
+        name,
+        expression,
+        operations: parsePathOperations(expression, pathItem as PathItemObject, { servers: [] }, ctx),
+      });
+    }
+  }
+
+  return parsed.length > 0 ? parsed : undefined;
+}
+
 /**
  * Parse paths object
  */
-function parsePaths(paths: OpenAPISpec['paths']): ParsedPath[] {
+function parsePaths(paths: OpenAPISpec['paths'], defaults: OperationDefaults, ctx: SchemaContext): ParsedPath[] {
   if (!paths) return [];
 
   return Object.entries(paths).map(([path, pathItem]) => ({
     path,
-    operations: parsePathOperations(path, pathItem as PathItemObject),
+    operations: parsePathOperations(path, pathItem as PathItemObject, defaults, ctx),
   }));
 }
 
 /**
  * Parse operations for a path
  */
-function parsePathOperations(path: string, pathItem: PathItemObject): ParsedOperation[] {
+function parsePathOperations(
+  path: string,
+  pathItem: PathItemObject,
+  defaults: OperationDefaults,
+  ctx: SchemaContext
+): ParsedOperation[] {
   const methods = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const;
   const operations: ParsedOperation[] = [];
 
   // Get path-level parameters
   const pathParameters = pathItem.parameters || [];
 
+  // Path-level servers override the spec-level list
+  const pathDefaults: OperationDefaults = pathItem.servers?.length
+    ? { ...defaults, servers: parseServers(pathItem.servers) }
+    : defaults;
+
   for (const method of methods) {
     const operation = pathItem[method] as OperationObject | undefined;
     if (operation) {
-      operations.push(parseOperation(method, path, operation, pathParameters as (ParameterObject | ReferenceObject)[]));
+      operations.push(
+        parseOperation(method, path, operation, pathParameters as (ParameterObject | ReferenceObject)[], pathDefaults, ctx)
+      );
     }
   }
 
@@ -158,7 +622,9 @@ function parseOperation(
   method: string,
   path: string,
   operation: OperationObject,
-  pathParameters: (ParameterObject | ReferenceObject)[]
+  pathParameters: (ParameterObject | ReferenceObject)[],
+  defaults: OperationDefaults,
+  ctx: SchemaContext
 ): ParsedOperation {
   // Generate operation ID if not provided
   const operationId = operation.operationId || generateOperationId(method, path);
@@ -166,19 +632,25 @@ function parseOperation(
   // Merge path-level and operation-level parameters
   const allParameters = [...pathParameters, ...(operation.parameters || [])];
 
+  // Operation-level security (including an explicit []) and servers replace inherited ones
+  const servers = operation.servers?.length ? parseServers(operation.servers) : defaults.servers;
+
   return {
     method: method.toUpperCase(),
     operation_id: operationId,
     summary: operation.summary,
     description: operation.description,
     tags: operation.tags,
-    parameters: parseParameters(allParameters as (ParameterObject | ReferenceObject)[]),
+    parameters: parseParameters(allParameters as (ParameterObject | ReferenceObject)[], ctx),
     request_body: operation.requestBody
-      ? parseRequestBody(operation.requestBody as RequestBodyObject | ReferenceObject)
+      ? parseRequestBody(operation.requestBody as RequestBodyObject | ReferenceObject, ctx)
       : undefined,
-    responses: parseResponses(operation.responses || {}),
-    security: operation.security?.map((sec) => sec as Record<string, string[]>),
+    responses: parseResponses(operation.responses || {}, ctx),
+    security: operation.security ? parseSecurity(operation.security) : defaults.security,
+    servers: servers.length > 0 ? servers : undefined,
+    callbacks: parseCallbacks(operation.callbacks, ctx),
     deprecated: operation.deprecated,
+    extensions: parseExtensions(operation),
   };
 }
 
@@ -200,130 +672,327 @@ function generateOperationId(method: string, path: string): string {
 /**
  * Parse parameters array
  */
-function parseParameters(parameters: (ParameterObject | ReferenceObject)[]): ParsedParameter[] {
+function parseParameters(parameters: (ParameterObject | ReferenceObject)[], ctx: SchemaContext): ParsedParameter[] {
   return parameters
     .filter((param): param is ParameterObject => !isRef(param))
-    .map((param) => ({
-      name: param.name,
-      in: param.in as 'query' | 'header' | 'path' | 'cookie',
-      description: param.description,
-      required: param.required || param.in === 'path',
-      deprecated: param.deprecated,
-      schema: parseSchema((param.schema as SchemaObject | ReferenceObject) || { type: 'string' }),
-    }));
+    .map((param) => parseParameter(param.name, param.in as ParsedParameter['in'], param, ctx));
+}
+
+/**
+ * Parse a parameter or header, recording its effective serialization style
+ */
+function parseParameter(
+  name: string,
+  location: ParsedParameter['in'],
+  param: ParameterObject | HeaderObject,
+  ctx: SchemaContext
+): ParsedParameter {
+  const content = param.content ? parseMediaTypes(param.content, ctx) : undefined;
+  // Content-based parameters carry their schema in the (single) media type
+  const schema = param.schema
+    ? parseSchema(param.schema as SchemaObject | ReferenceObject, ctx)
+    : content
+      ? Object.values(content)[0]?.schema ?? {}
+      : { type: 'string' };
+
+  const parsed: ParsedParameter = {
+    name,
+    in: location,
+    description: param.description,
+    required: param.required || location === 'path',
+    deprecated: param.deprecated,
+    schema,
+  };
+
+  if (content) {
+    parsed.content = content;
+  } else {
+    const style = (param.style as ParameterStyle | undefined) ?? DEFAULT_PARAMETER_STYLES[location];
+    parsed.style = style;
+    parsed.explode = param.explode ?? style === 'form';
+  }
+  if (param.allowReserved !== undefined) parsed.allow_reserved = param.allowReserved;
+  if (param.allowEmptyValue !== undefined) parsed.allow_empty_value = param.allowEmptyValue;
+  if (param.example !== undefined) parsed.example = param.example;
+  if (param.examples) parsed.examples = parseExamples(param.examples);
+
+  const extensions = parseExtensions(param);
+  if (extensions) parsed.extensions = extensions;
+
+  return parsed;
+}
+
+/**
+ * Parse named examples
+ */
+function parseExamples(examples: Record<string, ExampleObject | ReferenceObject>): Record<string, ParsedExample> {
+  return Object.fromEntries(
+    Object.entries(examples)
+      .filter((entry): entry is [string, ExampleObject] => !isRef(entry[1]))
+      .map(([name, example]) => [
+        name,
+        {
+          summary: example.summary,
+          description: example.description,
+          value: example.value,
+          external_value: example.externalValue,
+        },
+      ])
+  );
+}
+
+/**
+ * Parse a content map of media types to schemas
+ */
+function parseMediaTypes(
+  content: Record<string, MediaTypeObject>,
+  ctx: SchemaContext
+): Record<string, { schema: ParsedSchema }> {
+  return Object.fromEntries(
+    Object.entries(content).map(([mediaType, media]) => [
+      mediaType,
+      {
+        schema: parseSchema((media.schema as SchemaObject | ReferenceObject) || {}, ctx),
+      },
+    ])
+  );
 }
 
 /**
  * Parse request body
  */
-function parseRequestBody(requestBody: RequestBodyObject | ReferenceObject): ParsedRequestBody | undefined {
+function parseRequestBody(
+  requestBody: RequestBodyObject | ReferenceObject,
+  ctx: SchemaContext
+): ParsedRequestBody | undefined {
   if (isRef(requestBody)) return undefined;
 
   return {
     description: requestBody.description,
     required: requestBody.required || false,
-    content: Object.fromEntries(
-      Object.entries(requestBody.content || {}).map(([mediaType, content]) => [
-        mediaType,
-        {
-          schema: parseSchema((content.schema as SchemaObject | ReferenceObject) || {}),
-        },
-      ])
-    ),
+    content: parseMediaTypes(requestBody.content || {}, ctx),
   };
 }
 
 /**
  * Parse responses object
  */
-function parseResponses(responses: Record<string, ResponseObject | ReferenceObject>): ParsedResponse[] {
+function parseResponses(
+  responses: Record<string, ResponseObject | ReferenceObject>,
+  ctx: SchemaContext
+): ParsedResponse[] {
   return Object.entries(responses)
     .filter((entry): entry is [string, ResponseObject] => !isRef(entry[1]))
-    .map(([statusCode, response]) => ({
-      status_code: statusCode,
-      description: response.description || '',
-      content: response.content
-        ? Object.fromEntries(
-            Object.entries(response.content || {}).map(([mediaType, content]) => [
-              mediaType,
-              {
-                schema: parseSchema((content.schema as SchemaObject | ReferenceObject) || {}),
-              },
-            ])
-          )
-        : undefined,
-    }));
+    .map(([statusCode, response]) => {
+      const parsed: ParsedResponse = {
+        status_code: statusCode,
+        description: response.description || '',
+        content: response.content ? parseMediaTypes(response.content, ctx) : undefined,
+      };
+
+      if (response.headers) {
+        parsed.headers = Object.fromEntries(
+          Object.entries(response.headers)
+            .filter((entry): entry is [string, HeaderObject] => !isRef(entry[1]))
+            .map(([name, header]) => [name, parseParameter(name, 'header', header, ctx)])
+        );
+      }
+
+      if (response.links) {
+        parsed.links = Object.fromEntries(
+          Object.entries(response.links)
+            .filter((entry): entry is [string, LinkObject] => !isRef(entry[1]))
+            .map(([name, link]) => [name, parseLink(link)])
+        );
+      }
+
+      return parsed;
+    });
+}
+
+/**
+ * Parse a response link
+ */
+function parseLink(link: LinkObject): ParsedLink {
+  const parsed: ParsedLink = {};
+  if (link.operationId) parsed.operation_id = link.operationId;
+  if (link.operationRef) parsed.operation_ref = link.operationRef;
+  if (link.description) parsed.description = link.description;
+  if (link.parameters) parsed.parameters = link.parameters;
+  if (link.requestBody !== undefined) parsed.request_body = link.requestBody;
+  if (link.server) parsed.server = parseServers([link.server])[0];
+  return parsed;
 }
 
 /**
  * Parse schemas from components
  */
-function parseSchemas(schemas: Record<string, SchemaObject | ReferenceObject>): Record<string, ParsedSchema> {
+function parseSchemas(
+  schemas: Record<string, SchemaObject | ReferenceObject>,
+  ctx: SchemaContext
+): Record<string, ParsedSchema> {
   return Object.fromEntries(
-    Object.entries(schemas).map(([name, schema]) => [name, parseSchema(schema)])
+    Object.entries(schemas).map(([name, schema]) => [name, parseSchema(schema, ctx)])
   );
 }
 
+/**
+ * Tracks the schemas being parsed so circular (dereferenced) schemas
+ * are emitted as $ref pointers instead of recursing forever
+ */
+interface SchemaContext {
+  names: Map<object, string>;
+  stack: Set<object>;
+  warnings: string[];
+}
+
+function createSchemaContext(
+  schemas: Record<string, SchemaObject | ReferenceObject> = {},
+  warnings: string[] = []
+): SchemaContext {
+  return {
+    names: new Map(Object.entries(schemas).map(([name, schema]) => [schema as object, name])),
+    stack: new Set(),
+    warnings,
+  };
+}
+
 /**
  * Parse a single schema
  */
-function parseSchema(schema: SchemaObject | ReferenceObject): ParsedSchema {
+function parseSchema(
+  schema: SchemaObject | ReferenceObject,
+  ctx: SchemaContext = createSchemaContext()
+): ParsedSchema {
   if (isRef(schema)) {
     return { $ref: schema.$ref };
   }
 
-  const parsed: ParsedSchema = {};
+  if (ctx.stack.has(schema)) {
+    const name = ctx.names.get(schema);
+    if (name) {
+      return { $ref: `#/components/schemas/${name}` };
+    }
+    ctx.warnings.push('Truncated a circular inline schema that has no component name');
+    return {};
+  }
 
-  if (schema.type) {
-    parsed.type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  ctx.stack.add(schema);
+  try {
+    return parseSchemaObject(schema, ctx);
+  } finally {
+    ctx.stack.delete(schema);
   }
+}
+
+/**
+ * Parse the keywords of a (non-reference) schema object
+ */
+function parseSchemaObject(schema: SchemaObject, ctx: SchemaContext): ParsedSchema {
+  const parsed: ParsedSchema = {};
+  // 3.1-only keywords are not on the 3.0 type, so read them untyped
+  const raw = schema as Record<string, unknown>;
+
+  if (schema.type) parsed.type = schema.type;
   if (schema.format) parsed.format = schema.format;
   if (schema.description) parsed.description = schema.description;
   if (schema.title) parsed.title = schema.title;
-  if (schema.enum) parsed.enum = schema.enum as (string | number | boolean)[];
+  if (schema.enum) parsed.enum = schema.enum as SchemaEnumValue[];
+  if (raw.const !== undefined) parsed.const = raw.const;
   if (schema.default !== undefined) parsed.default = schema.default;
   if (schema.example !== undefined) parsed.example = schema.example;
+  if (Array.isArray(raw.examples)) parsed.examples = raw.examples;
   if ('nullable' in schema && schema.nullable) parsed.nullable = schema.nullable;
   if (schema.minimum !== undefined) parsed.minimum = schema.minimum;
   if (schema.maximum !== undefined) parsed.maximum = schema.maximum;
+  if (schema.multipleOf !== undefined) parsed.multipleOf = schema.multipleOf;
   if (schema.minLength !== undefined) parsed.minLength = schema.minLength;
   if (schema.maxLength !== undefined) parsed.maxLength = schema.maxLength;
   if (schema.pattern) parsed.pattern = schema.pattern;
+  if (schema.minItems !== undefined) parsed.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) parsed.maxItems = schema.maxItems;
+  if (schema.uniqueItems !== undefined) parsed.uniqueItems = schema.uniqueItems;
+  if (schema.readOnly !== undefined) parsed.readOnly = schema.readOnly;
+  if (schema.writeOnly !== undefined) parsed.writeOnly = schema.writeOnly;
+  if (typeof raw.contentEncoding === 'string') parsed.contentEncoding = raw.contentEncoding;
+  if (typeof raw.contentMediaType === 'string') parsed.contentMediaType = raw.contentMediaType;
   if (schema.required) parsed.required = schema.required;
 
+  // OpenAPI 3.0 uses boolean exclusive flags that modify minimum/maximum;
+  // normalize to the numeric 3.1 / JSON Schema 2020-12 form
+  if (typeof raw.exclusiveMinimum === 'number') {
+    parsed.exclusiveMinimum = raw.exclusiveMinimum;
+  } else if (raw.exclusiveMinimum === true && parsed.minimum !== undefined) {
+    parsed.exclusiveMinimum = parsed.minimum;
+    delete parsed.minimum;
+  }
+  if (typeof raw.exclusiveMaximum === 'number') {
+    parsed.exclusiveMaximum = raw.exclusiveMaximum;
+  } else if (raw.exclusiveMaximum === true && parsed.maximum !== undefined) {
+    parsed.exclusiveMaximum = parsed.maximum;
+    delete parsed.maximum;
+  }
+
+  if (raw.dependentRequired && typeof raw.dependentRequired === 'object') {
+    parsed.dependentRequired = raw.dependentRequired as Record<string, string[]>;
+  }
+
   if (schema.properties) {
     parsed.properties = Object.fromEntries(
       Object.entries(schema.properties).map(([key, value]) => [
         key,
-        parseSchema(value as SchemaObject | ReferenceObject),
+        parseSchema(value as SchemaObject | ReferenceObject, ctx),
       ])
     );
   }
 
   if ('items' in schema && schema.items) {
-    parsed.items = parseSchema(schema.items as SchemaObject | ReferenceObject);
+    parsed.items = parseSchema(schema.items as SchemaObject | ReferenceObject, ctx);
+  }
+
+  if (Array.isArray(raw.prefixItems)) {
+    parsed.prefixItems = raw.prefixItems.map((s) => parseSchema(s as SchemaObject | ReferenceObject, ctx));
   }
 
   if (schema.oneOf) {
-    parsed.oneOf = schema.oneOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject));
+    parsed.oneOf = schema.oneOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject, ctx));
   }
 
   if (schema.anyOf) {
-    parsed.anyOf = schema.anyOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject));
+    parsed.anyOf = schema.anyOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject, ctx));
   }
 
   if (schema.allOf) {
-    parsed.allOf = schema.allOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject));
+    parsed.allOf = schema.allOf.map((s) => parseSchema(s as SchemaObject | ReferenceObject, ctx));
+  }
+
+  for (const keyword of ['not', 'if', 'then', 'else'] as const) {
+    const value = raw[keyword];
+    if (value && typeof value === 'object') {
+      parsed[keyword] = parseSchema(value as SchemaObject | ReferenceObject, ctx);
+    }
   }
 
   if (schema.additionalProperties !== undefined) {
     if (typeof schema.additionalProperties === 'boolean') {
       parsed.additionalProperties = schema.additionalProperties;
     } else {
-      parsed.additionalProperties = parseSchema(schema.additionalProperties as SchemaObject | ReferenceObject);
+      parsed.additionalProperties = parseSchema(schema.additionalProperties as SchemaObject | ReferenceObject, ctx);
     }
   }
 
+  if (raw.$defs && typeof raw.$defs === 'object') {
+    parsed.$defs = Object.fromEntries(
+      Object.entries(raw.$defs as Record<string, unknown>).map(([key, value]) => [
+        key,
+        parseSchema(value as SchemaObject | ReferenceObject, ctx),
+      ])
+    );
+  }
+
+  const extensions = parseExtensions(schema);
+  if (extensions) parsed.extensions = extensions;
+
   return parsed;
 }
 
@@ -392,6 +1061,14 @@ function parseSecurityScheme(scheme: SecuritySchemeObject): ParsedSecurityScheme
   return parsed;
 }
 
+/**
+ * Collect the vendor extensions (x-* keys) of a spec object
+ */
+function parseExtensions(obj: object): Record<string, unknown> | undefined {
+  const entries = Object.entries(obj).filter(([key]) => key.startsWith('x-'));
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
 /**
  * Check if object is a reference
  */
@@ -0,0 +1,32 @@
+/**
+ * Encode path tokens as a JSON pointer
+ */
+export function toJsonPointer(tokens: (string | number)[]): string {
+  return tokens.map((token) => '/' + String(token).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+/**
+ * Decode a JSON pointer (with or without a leading '#') into path tokens
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  const path = pointer.startsWith('#') ? pointer.slice(1) : pointer;
+  if (path === '') return [];
+  return path
+    .slice(1)
+    .split('/')
+    .map((token) => decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+/**
+ * Resolve a JSON pointer against a document, returning undefined if it does not exist
+ */
+export function resolveJsonPointer(document: unknown, pointer: string): unknown {
+  let node = document;
+  for (const token of parseJsonPointer(pointer)) {
+    if (typeof node !== 'object' || node === null || !(token in node)) {
+      return undefined;
+    }
+    node = (node as Record<string, unknown>)[token];
+  }
+  return node;
+}
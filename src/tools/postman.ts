@@ -0,0 +1,610 @@
+import type { OpenAPIV3 } from 'openapi-types';
+import { inferScalarSchema, inferSchema, mergeSchemas } from './infer.js';
+
+const TARGET_OPENAPI_VERSION = '3.0.3';
+const SUPPORTED_SCHEMA = /schema\.getpostman\.com\/json\/collection\/v2\.1\./;
+
+/**
+ * Headers described by the request body or security schemes rather than parameters
+ */
+const RESERVED_HEADERS = ['content-type', 'accept', 'authorization'];
+
+/**
+ * Media types for raw bodies by their Postman language setting
+ */
+const RAW_MEDIA_TYPES: Record<string, string> = {
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  javascript: 'application/javascript',
+  text: 'text/plain',
+};
+
+type PostmanDescription = string | { content?: string };
+
+interface PostmanKeyValue {
+  key?: string;
+  value?: string;
+  type?: string;
+  disabled?: boolean;
+  description?: PostmanDescription;
+}
+
+interface PostmanAuth {
+  type: string;
+  [attributes: string]: unknown;
+}
+
+interface PostmanUrl {
+  raw?: string;
+  protocol?: string;
+  host?: string | string[];
+  port?: string;
+  path?: string | (string | { value?: string })[];
+  query?: PostmanKeyValue[];
+  variable?: PostmanKeyValue[];
+}
+
+interface PostmanBody {
+  mode?: 'raw' | 'urlencoded' | 'formdata' | 'file' | 'graphql';
+  raw?: string;
+  urlencoded?: PostmanKeyValue[];
+  formdata?: PostmanKeyValue[];
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+  disabled?: boolean;
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanKeyValue[];
+  body?: PostmanBody;
+  auth?: PostmanAuth;
+  description?: PostmanDescription;
+}
+
+interface PostmanResponse {
+  name?: string;
+  status?: string;
+  code?: number;
+  header?: PostmanKeyValue[];
+  body?: string;
+}
+
+interface PostmanItem {
+  name?: string;
+  description?: PostmanDescription;
+  item?: PostmanItem[];
+  request?: string | PostmanRequest;
+  response?: PostmanResponse[];
+  auth?: PostmanAuth;
+}
+
+export interface PostmanCollection {
+  info: {
+    name?: string;
+    description?: PostmanDescription;
+    version?: string | { major?: number; minor?: number; patch?: number };
+    schema?: string;
+  };
+  item?: PostmanItem[];
+  variable?: PostmanKeyValue[];
+  auth?: PostmanAuth;
+}
+
+export interface PostmanConversionResult {
+  spec: OpenAPIV3.Document;
+  warnings: string[];
+}
+
+/**
+ * State shared while walking a collection's items
+ */
+interface ConversionContext {
+  variables: Map<string, string>;
+  paths: Record<string, Record<string, OpenAPIV3.OperationObject>>;
+  servers: OpenAPIV3.ServerObject[];
+  tags: OpenAPIV3.TagObject[];
+  securitySchemes: Record<string, OpenAPIV3.SecuritySchemeObject>;
+  operationIds: Set<string>;
+  /** Collection-level security, which operations only repeat when theirs differs */
+  rootSecurity?: OpenAPIV3.SecurityRequirementObject[];
+  /** Request that first defined each "METHOD /path" */
+  definedBy: Map<string, string>;
+  warnings: string[];
+}
+
+/**
+ * Check if a document is a Postman collection (any version)
+ */
+export function isPostmanCollection(document: unknown): document is PostmanCollection {
+  const info = (document as { info?: { schema?: unknown } } | null)?.info;
+  return typeof info?.schema === 'string' && info.schema.includes('schema.getpostman.com');
+}
+
+/**
+ * Check if a Postman collection uses the supported v2.1 format
+ */
+export function isSupportedPostmanCollection(collection: PostmanCollection): boolean {
+  return SUPPORTED_SCHEMA.test(collection.info.schema || '');
+}
+
+/**
+ * Convert a Postman Collection v2.1 into an OpenAPI 3.0 document: folders
+ * become tags, collection variables server variables, saved example bodies
+ * inferred schemas and auth blocks security schemes
+ */
+export function convertPostmanCollection(collection: PostmanCollection): PostmanConversionResult {
+  const ctx: ConversionContext = {
+    variables: new Map((collection.variable || [])
+      .filter((variable) => variable.key)
+      .map((variable) => [variable.key!, String(variable.value ?? '')])),
+    paths: {},
+    servers: [],
+    tags: [],
+    securitySchemes: {},
+    operationIds: new Set(),
+    definedBy: new Map(),
+    warnings: [],
+  };
+
+  ctx.rootSecurity = convertAuth(ctx, collection.auth);
+  convertItems(ctx, collection.item || [], undefined, collection.auth);
+
+  const converted: Record<string, unknown> = {
+    openapi: TARGET_OPENAPI_VERSION,
+    info: {
+      title: collection.info.name || 'Postman collection',
+      version: convertVersion(collection.info.version),
+      description: descriptionText(collection.info.description),
+    },
+    servers: ctx.servers,
+    paths: ctx.paths,
+    components: Object.keys(ctx.securitySchemes).length > 0 ? { securitySchemes: ctx.securitySchemes } : {},
+  };
+
+  if (ctx.rootSecurity) converted.security = ctx.rootSecurity;
+  if (ctx.tags.length > 0) converted.tags = ctx.tags;
+
+  return {
+    spec: converted as unknown as OpenAPIV3.Document,
+    warnings: ctx.warnings,
+  };
+}
+
+/**
+ * Convert requests and recurse into folders, which tag the requests they contain
+ */
+function convertItems(ctx: ConversionContext, items: PostmanItem[], tag: string | undefined, auth: PostmanAuth | undefined): void {
+  for (const item of items) {
+    const itemAuth = item.auth && item.auth.type !== 'inherit' ? item.auth : auth;
+
+    if (item.item) {
+      const name = item.name || 'Folder';
+      if (!ctx.tags.some((t) => t.name === name)) {
+        ctx.tags.push({ name, description: descriptionText(item.description) });
+      }
+      convertItems(ctx, item.item, name, itemAuth);
+    } else if (item.request) {
+      convertRequest(ctx, item, tag, itemAuth);
+    }
+  }
+}
+
+/**
+ * Convert a single request, with its saved examples, into an operation
+ */
+function convertRequest(ctx: ConversionContext, item: PostmanItem, tag: string | undefined, inheritedAuth: PostmanAuth | undefined): void {
+  const request: PostmanRequest = typeof item.request === 'string' ? { url: item.request } : item.request!;
+  const name = item.name || 'Untitled request';
+  const method = (request.method || 'GET').toLowerCase();
+  const url = splitUrl(request.url);
+
+  const parameters: OpenAPIV3.ParameterObject[] = [];
+  const pathTemplate = '/' + url.path
+    .map((segment) => segment
+      .replace(/^:(\w+)$/, (_, param: string) => addPathParameter(ctx, parameters, param, url.variables))
+      .replace(/\{\{([^}]+)\}\}/g, (_, param: string) => addPathParameter(ctx, parameters, param, url.variables)))
+    .join('/');
+
+  const key = `${method.toUpperCase()} ${pathTemplate}`;
+  const existing = ctx.definedBy.get(key);
+  if (existing) {
+    ctx.warnings.push(`Skipped request '${name}': ${key} is already defined by '${existing}'`);
+    return;
+  }
+  ctx.definedBy.set(key, name);
+
+  for (const query of url.query) {
+    if (!query.key) continue;
+    parameters.push({
+      name: query.key,
+      in: 'query',
+      required: false,
+      description: descriptionText(query.description),
+      schema: query.value && !query.value.includes('{{') ? inferScalarSchema(query.value) : { type: 'string' },
+      example: query.value || undefined,
+    });
+  }
+
+  for (const header of request.header || []) {
+    if (!header.key || header.disabled || RESERVED_HEADERS.includes(header.key.toLowerCase())) continue;
+    parameters.push({
+      name: header.key,
+      in: 'header',
+      required: false,
+      description: descriptionText(header.description),
+      schema: { type: 'string' },
+      example: header.value || undefined,
+    });
+  }
+
+  const operation: OpenAPIV3.OperationObject = {
+    operationId: uniqueOperationId(ctx, name),
+    summary: name,
+    description: descriptionText(request.description ?? item.description),
+    tags: tag ? [tag] : undefined,
+    parameters: parameters.length > 0 ? parameters : undefined,
+    requestBody: convertBody(ctx, request.body, name),
+    responses: convertResponses(ctx, item.response || [], name),
+  };
+
+  const server = serverUrl(ctx, url);
+  if (ctx.servers.length === 0) {
+    ctx.servers.push(server);
+  } else if (ctx.servers[0].url !== server.url) {
+    operation.servers = [server];
+  }
+
+  const auth = request.auth && request.auth.type !== 'inherit' ? request.auth : inheritedAuth;
+  const security = convertAuth(ctx, auth);
+  if (security && JSON.stringify(security) !== JSON.stringify(ctx.rootSecurity)) {
+    operation.security = security;
+  }
+
+  ctx.paths[pathTemplate] = { ...ctx.paths[pathTemplate], [method]: operation };
+}
+
+/**
+ * A request URL split into its origin, path segments, query and path variables
+ */
+interface SplitUrl {
+  origin: string;
+  path: string[];
+  query: PostmanKeyValue[];
+  variables: PostmanKeyValue[];
+}
+
+/**
+ * Split a Postman URL, structured or raw, into its parts
+ */
+function splitUrl(url: string | PostmanUrl | undefined): SplitUrl {
+  const object: PostmanUrl = typeof url === 'string' ? { raw: url } : url || {};
+
+  if (object.host !== undefined || object.path !== undefined) {
+    const host = Array.isArray(object.host) ? object.host.join('.') : object.host || '';
+    const path = typeof object.path === 'string'
+      ? object.path.split('/')
+      : (object.path || []).map((segment) => typeof segment === 'string' ? segment : segment.value || '');
+    return {
+      origin: `${object.protocol ? `${object.protocol}://` : ''}${host}${object.port ? `:${object.port}` : ''}`,
+      path: path.filter(Boolean),
+      query: (object.query || []).filter((query) => !query.disabled),
+      variables: object.variable || [],
+    };
+  }
+
+  // Only a raw URL: split it by hand
+  const raw = object.raw || '';
+  const queryStart = raw.indexOf('?');
+  const beforeQuery = queryStart === -1 ? raw : raw.slice(0, queryStart);
+  const queryString = queryStart === -1 ? '' : raw.slice(queryStart + 1);
+  const [, origin, path] = /^((?:[a-z][a-z0-9+.-]*:\/\/)?[^/]*)(.*)$/i.exec(beforeQuery)!;
+
+  return {
+    origin,
+    path: path.split('/').filter(Boolean),
+    query: queryString
+      .split('&')
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, ...value] = pair.split('=');
+        return { key, value: value.join('=') };
+      }),
+    variables: object.variable || [],
+  };
+}
+
+/**
+ * Build a server from a request's origin, turning {{variables}} into server variables
+ */
+function serverUrl(ctx: ConversionContext, url: SplitUrl): OpenAPIV3.ServerObject {
+  if (!url.origin) {
+    return { url: '/' };
+  }
+
+  const variables: Record<string, OpenAPIV3.ServerVariableObject> = {};
+  const template = url.origin.replace(/\{\{([^}]+)\}\}/g, (_, name: string) => {
+    if (!ctx.variables.has(name)) {
+      warnOnce(ctx, `Variable '{{${name}}}' is not defined in the collection; its server variable defaults to ''`);
+    }
+    variables[name] = { default: ctx.variables.get(name) ?? '' };
+    return `{${name}}`;
+  });
+
+  return Object.keys(variables).length > 0 ? { url: template, variables } : { url: template };
+}
+
+/**
+ * Declare a path parameter for a ':name' segment or {{variable}}, returning its template
+ */
+function addPathParameter(
+  ctx: ConversionContext,
+  parameters: OpenAPIV3.ParameterObject[],
+  name: string,
+  urlVariables: PostmanKeyValue[]
+): string {
+  if (!parameters.some((param) => param.in === 'path' && param.name === name)) {
+    const variable = urlVariables.find((v) => v.key === name);
+    const example = variable?.value || ctx.variables.get(name);
+    parameters.push({
+      name,
+      in: 'path',
+      required: true,
+      description: descriptionText(variable?.description),
+      schema: example && !example.includes('{{') ? inferScalarSchema(example) : { type: 'string' },
+      example: example || undefined,
+    });
+  }
+  return `{${name}}`;
+}
+
+/**
+ * Derive a unique camelCase operation ID from a request name
+ */
+function uniqueOperationId(ctx: ConversionContext, name: string): string {
+  const words = name.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  let base = words
+    .map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase())
+    .join('') || 'operation';
+  if (/^\d/.test(base)) base = `op${base}`;
+
+  let operationId = base;
+  for (let i = 2; ctx.operationIds.has(operationId); i++) {
+    operationId = `${base}${i}`;
+  }
+  ctx.operationIds.add(operationId);
+  return operationId;
+}
+
+/**
+ * Convert a request body, inferring a schema from a raw JSON example
+ */
+function convertBody(ctx: ConversionContext, body: PostmanBody | undefined, name: string): OpenAPIV3.RequestBodyObject | undefined {
+  if (!body || body.disabled) return undefined;
+
+  switch (body.mode) {
+    case 'raw': {
+      const raw = body.raw?.trim();
+      if (!raw) return undefined;
+
+      const language = body.options?.raw?.language;
+      if (language === 'json' || (!language && /^[[{]/.test(raw))) {
+        const example = parseJsonExample(raw);
+        if (example !== undefined) {
+          return { required: true, content: { 'application/json': { schema: inferSchema(example), example } } };
+        }
+        ctx.warnings.push(`Request '${name}' has a raw JSON body that could not be parsed; it is typed as a plain string`);
+      }
+
+      const mediaType = language && language !== 'json' ? RAW_MEDIA_TYPES[language] || 'text/plain' : 'text/plain';
+      return { required: true, content: { [mediaType]: { schema: { type: 'string' }, example: body.raw } } };
+    }
+
+    case 'urlencoded':
+    case 'formdata': {
+      const fields = (body[body.mode] || []).filter((field) => field.key && !field.disabled);
+      if (fields.length === 0) return undefined;
+
+      const properties: Record<string, OpenAPIV3.SchemaObject> = {};
+      for (const field of fields) {
+        properties[field.key!] = field.type === 'file'
+          ? { type: 'string', format: 'binary' }
+          : { type: 'string', description: descriptionText(field.description), example: field.value || undefined };
+      }
+      const mediaType = body.mode === 'urlencoded' ? 'application/x-www-form-urlencoded' : 'multipart/form-data';
+      return { required: true, content: { [mediaType]: { schema: { type: 'object', properties } } } };
+    }
+
+    case 'graphql': {
+      const variables = body.graphql?.variables ? parseJsonExample(body.graphql.variables) : undefined;
+      return {
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              required: ['query'],
+              properties: {
+                query: { type: 'string' },
+                variables: variables !== undefined ? inferSchema(variables) : { type: 'object' },
+              },
+            },
+            example: { query: body.graphql?.query, variables },
+          },
+        },
+      };
+    }
+
+    case 'file':
+      return { required: true, content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert saved example responses, merging the schemas of examples that share a status code
+ */
+function convertResponses(ctx: ConversionContext, responses: PostmanResponse[], name: string): OpenAPIV3.ResponsesObject {
+  const result: Record<string, OpenAPIV3.ResponseObject> = {};
+
+  for (const response of responses) {
+    const code = String(response.code ?? 200);
+    const target = result[code] || (result[code] = { description: response.status || response.name || 'Response' });
+
+    const body = response.body?.trim();
+    if (!body) continue;
+
+    const contentType = response.header
+      ?.find((header) => header.key?.toLowerCase() === 'content-type')
+      ?.value?.split(';')[0].trim();
+    const example = !contentType || contentType.includes('json') ? parseJsonExample(body) : undefined;
+
+    if (example === undefined) {
+      if (!contentType) {
+        ctx.warnings.push(`Example '${response.name || code}' of request '${name}' is not JSON; it is typed as a plain string`);
+      }
+      target.content = { ...target.content, [contentType || 'text/plain']: { schema: { type: 'string' } } };
+      continue;
+    }
+
+    const mediaType = contentType || 'application/json';
+    const existing = target.content?.[mediaType];
+    target.content = {
+      ...target.content,
+      [mediaType]: existing?.schema
+        ? { ...existing, schema: mergeSchemas(existing.schema as OpenAPIV3.SchemaObject, inferSchema(example)) }
+        : { schema: inferSchema(example), example },
+    };
+  }
+
+  if (Object.keys(result).length === 0) {
+    result['200'] = { description: 'Successful response' };
+  }
+
+  return result;
+}
+
+/**
+ * Parse a JSON example, reading unquoted {{variables}} as null
+ */
+function parseJsonExample(raw: string): unknown {
+  for (const candidate of [raw, raw.replace(/(?<!")\{\{[^}]+\}\}(?!")/g, 'null')]) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Convert an auth block into a security requirement, registering its scheme.
+ * 'noauth' yields [] (public); no auth block yields undefined
+ */
+function convertAuth(ctx: ConversionContext, auth: PostmanAuth | undefined): OpenAPIV3.SecurityRequirementObject[] | undefined {
+  if (!auth) return undefined;
+  if (auth.type === 'noauth') return [];
+
+  const converted = securityScheme(auth);
+  if (!converted) {
+    warnOnce(ctx, `Postman auth type '${auth.type}' has no OpenAPI equivalent; requests using it are left without security`);
+    return undefined;
+  }
+
+  // Schemes of the same kind that differ (e.g. API keys in other headers) get numbered names
+  let name = converted.name;
+  for (let i = 2; ctx.securitySchemes[name] && JSON.stringify(ctx.securitySchemes[name]) !== JSON.stringify(converted.scheme); i++) {
+    name = `${converted.name}${i}`;
+  }
+  ctx.securitySchemes[name] = converted.scheme;
+
+  return [{ [name]: converted.scopes }];
+}
+
+/**
+ * Map a Postman auth block to a named OpenAPI security scheme
+ */
+function securityScheme(auth: PostmanAuth): { name: string; scheme: OpenAPIV3.SecuritySchemeObject; scopes: string[] } | undefined {
+  switch (auth.type) {
+    case 'bearer':
+      return { name: 'bearerAuth', scheme: { type: 'http', scheme: 'bearer' }, scopes: [] };
+    case 'basic':
+      return { name: 'basicAuth', scheme: { type: 'http', scheme: 'basic' }, scopes: [] };
+    case 'digest':
+      return { name: 'digestAuth', scheme: { type: 'http', scheme: 'digest' }, scopes: [] };
+    case 'apikey':
+      return {
+        name: 'apiKeyAuth',
+        scheme: {
+          type: 'apiKey',
+          name: authAttribute(auth, 'key') || 'X-API-Key',
+          in: authAttribute(auth, 'in') === 'query' ? 'query' : 'header',
+        },
+        scopes: [],
+      };
+    case 'oauth2': {
+      const scopes = (authAttribute(auth, 'scope') || '').split(/\s+/).filter(Boolean);
+      const scopeMap = Object.fromEntries(scopes.map((scope) => [scope, '']));
+      const tokenUrl = authAttribute(auth, 'accessTokenUrl') || '';
+      const authorizationUrl = authAttribute(auth, 'authUrl') || '';
+
+      let flows: OpenAPIV3.OAuth2SecurityScheme['flows'];
+      switch (authAttribute(auth, 'grant_type')) {
+        case 'client_credentials':
+          flows = { clientCredentials: { tokenUrl, scopes: scopeMap } };
+          break;
+        case 'password_credentials':
+          flows = { password: { tokenUrl, scopes: scopeMap } };
+          break;
+        case 'implicit':
+          flows = { implicit: { authorizationUrl, scopes: scopeMap } };
+          break;
+        default:
+          flows = { authorizationCode: { authorizationUrl, tokenUrl, scopes: scopeMap } };
+      }
+      return { name: 'oauth2Auth', scheme: { type: 'oauth2', flows }, scopes };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Read an attribute of a v2.1 auth block, stored as [{ key, value }] under its type
+ */
+function authAttribute(auth: PostmanAuth, key: string): string | undefined {
+  const attributes = auth[auth.type];
+  if (!Array.isArray(attributes)) return undefined;
+  const value = (attributes as PostmanKeyValue[]).find((attribute) => attribute.key === key)?.value;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+/**
+ * Read a Postman description, which may be a string or { content }
+ */
+function descriptionText(description: PostmanDescription | undefined): string | undefined {
+  return (typeof description === 'string' ? description : description?.content) || undefined;
+}
+
+/**
+ * Read a collection version, which may be a string or { major, minor, patch }
+ */
+function convertVersion(version: PostmanCollection['info']['version']): string {
+  if (typeof version === 'string' && version) return version;
+  if (typeof version === 'object') return `${version.major ?? 1}.${version.minor ?? 0}.${version.patch ?? 0}`;
+  return '1.0.0';
+}
+
+/**
+ * Add a warning unless it was already reported
+ */
+function warnOnce(ctx: ConversionContext, message: string): void {
+  if (!ctx.warnings.includes(message)) {
+    ctx.warnings.push(message);
+  }
+}
@@ -1,5 +1,10 @@
 import {
   type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type ParsedSecurityRequirement,
+  type ParsedSecurityScheme,
+  type ParsedServer,
+  type JSONSchema,
   type ScaffoldOptions,
   type GeneratedScaffold,
   type GeneratedFile,
@@ -7,7 +12,15 @@ import {
   successResponse,
   errorResponse,
 } from '../types.js';
-import { generateToolSchemas } from './schemas.js';
+import {
+  generateToolSchemas,
+  convertSchemaToJSONSchema,
+  createConversionState,
+  selectToolOperations,
+} from './schemas.js';
+import { GRAPHQL_EXTENSION } from './graphql.js';
+import { UPSTREAM_PATH_EXTENSION } from './merge.js';
+import { type ResolvedServer, expandServerUrl, selectServer } from './servers.js';
 
 /**
  * Generate a complete MCP server scaffold from parsed OpenAPI spec
@@ -29,17 +42,42 @@ export function generateServerScaffold(
     }
 
     // Get tool schemas first
-    const toolSchemasResult = generateToolSchemas(parsedSpec);
+    const toolSchemasResult = generateToolSchemas(parsedSpec, {
+      include: options.include,
+      exclude: options.exclude,
+      exclude_deprecated: options.exclude_deprecated,
+      naming: options.naming,
+      name_template: options.name_template,
+      name_prefix: options.name_prefix,
+    });
     if (!toolSchemasResult.ok) {
       return toolSchemasResult;
     }
 
-    const { tools } = toolSchemasResult.data;
+    const { tools, summary } = toolSchemasResult.data;
 
     const serverName = options.server_name || parsedSpec.info.title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
     const serverVersion = options.server_version || parsedSpec.info.version || '1.0.0';
     const author = options.author || 'Generated by openapi-generate';
-    const baseUrl = options.base_url || parsedSpec.servers[0]?.url || 'http://localhost:8080';
+
+    const server = resolveServer(parsedSpec.servers, options);
+    if (!server.ok) {
+      return server;
+    }
+    // An explicit base_url replaces the spec's servers, variables and all
+    const apiServer = options.base_url ? undefined : server.data;
+    const baseUrl = options.base_url || apiServer?.url || 'http://localhost:8080';
+
+    const endpoints = resolveToolEndpoints(parsedSpec, baseUrl, options);
+    if (!endpoints.ok) {
+      return endpoints;
+    }
+
+    // Callbacks are received only for operations that became tools
+    const selected = selectToolOperations(parsedSpec, options, []);
+    const webhookEvents = options.include_webhooks && selected.ok
+      ? collectWebhookEvents(parsedSpec, new Set(selected.data.operations.map(({ operation }) => operation)))
+      : [];
 
     let files: GeneratedFile[];
 
@@ -49,7 +87,10 @@ export function generateServerScaffold(
         serverVersion,
         author,
         baseUrl,
+        server: apiServer,
+        endpoints: endpoints.data,
         includeTests: options.include_tests ?? true,
+        webhookEvents,
       });
     } else {
       files = generatePythonScaffold(parsedSpec, tools, {
@@ -57,7 +98,10 @@ export function generateServerScaffold(
         serverVersion,
         author,
         baseUrl,
+        server: apiServer,
+        endpoints: endpoints.data,
         includeTests: options.include_tests ?? true,
+        webhookEvents,
       });
     }
 
@@ -65,6 +109,7 @@ export function generateServerScaffold(
       files,
       language,
       tool_count: tools.length,
+      filtered: summary.filtered,
     });
   } catch (error) {
     return errorResponse('INTERNAL_ERROR', 'Failed to generate server scaffold', {
@@ -78,7 +123,273 @@ interface ScaffoldConfig {
   serverVersion: string;
   author: string;
   baseUrl: string;
+  /** The spec server the base URL was expanded from, when base_url did not replace it */
+  server?: ResolvedServer;
+  endpoints: Map<string, ToolEndpoint>;
   includeTests: boolean;
+  webhookEvents: WebhookEvent[];
+}
+
+/**
+ * An incoming webhook or callback the generated server accepts, with the
+ * JSON Schema its payload is validated against
+ */
+interface WebhookEvent {
+  name: string;
+  schema: JSONSchema;
+}
+
+/**
+ * Tool added to generated servers that receive webhooks
+ */
+const WEBHOOK_EVENTS_TOOL = {
+  name: 'list_webhook_events',
+  description: 'List webhook and callback events received by this server',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      event: { type: 'string', description: 'Only return events with this name' },
+      since_id: { type: 'number', description: 'Only return events received after this event id' },
+    },
+    required: [],
+  },
+};
+
+/**
+ * Collect receivable events from spec webhooks and the callbacks of the
+ * operations that became tools. Names that sanitize to the same identifier
+ * get a _2 (_3, ...) suffix
+ */
+function collectWebhookEvents(spec: ParsedOpenAPISpec, toolOperations: Set<ParsedOperation>): WebhookEvent[] {
+  const events: WebhookEvent[] = [];
+  const taken = new Set<string>();
+
+  const addEvents = (name: string, operations: ParsedOperation[]) => {
+    for (const operation of operations) {
+      const eventName = (operations.length > 1 ? `${name}_${operation.method.toLowerCase()}` : name)
+        .replace(/[^a-zA-Z0-9_.-]+/g, '_');
+      let unique = eventName;
+      for (let suffix = 2; taken.has(unique); suffix++) {
+        unique = `${eventName}_${suffix}`;
+      }
+      taken.add(unique);
+      events.push({ name: unique, schema: webhookPayloadSchema(spec, operation) });
+    }
+  };
+
+  for (const webhook of spec.webhooks || []) {
+    addEvents(webhook.name, webhook.operations);
+  }
+
+  for (const path of spec.paths) {
+    for (const operation of path.operations) {
+      if (!toolOperations.has(operation)) continue;
+      for (const callback of operation.callbacks || []) {
+        addEvents(`${operation.operation_id}.${callback.name}`, callback.operations);
+      }
+    }
+  }
+
+  return events;
+}
+
+/**
+ * Convert the request body of a webhook operation into a payload schema
+ */
+function webhookPayloadSchema(spec: ParsedOpenAPISpec, operation: ParsedOperation): JSONSchema {
+  const content = operation.request_body?.content;
+  const media = content?.['application/json'] || Object.values(content || {})[0];
+  if (!media?.schema) return {};
+
+  // Recursive payloads are truncated so the schema needs no shared $defs. The
+  // API sends the payload, so its readOnly fields are expected
+  return convertSchemaToJSONSchema(
+    media.schema,
+    spec.schemas || {},
+    createConversionState({ circular_refs: 'truncate' }, [], 'payload')
+  );
+}
+
+/**
+ * The operation behind a generated tool, with its effective base URL and auth
+ */
+interface ToolEndpoint {
+  method: string;
+  path: string;
+  baseUrl: string;
+  /** Whether the operation calls the configured API server, whose URL generated tools load from the config */
+  configured: boolean;
+  security?: ParsedSecurityRequirement[];
+  /** Where the operation expects the API_KEY credential; unset for public operations */
+  credential?: CredentialPlacement;
+  /** Set for operations imported from GraphQL: the root field and the document to send */
+  graphql?: { field: string; document: string };
+}
+
+/**
+ * Where a generated tool sends the API_KEY credential
+ */
+interface CredentialPlacement {
+  in: 'header' | 'query' | 'cookie';
+  name: string;
+  /** Auth scheme written before the key, e.g. Bearer */
+  scheme?: string;
+}
+
+/**
+ * Pick the spec server the scaffold calls and expand its URL variables,
+ * rejecting server_variables that no server in the spec declares
+ */
+function resolveServer(
+  servers: ParsedServer[],
+  options: ScaffoldOptions
+): ToolResponse<ResolvedServer | undefined> {
+  const selected = selectServer(servers, options.server);
+  if (!selected.ok) {
+    return selected;
+  }
+
+  const declared = new Set(servers.flatMap((server) => Object.keys(server.variables || {})));
+  const unknown = Object.keys(options.server_variables || {}).filter((name) => !declared.has(name));
+  if (unknown.length > 0 && !options.base_url) {
+    return errorResponse('INVALID_INPUT', `Unknown server variables: ${unknown.join(', ')}`, {
+      declared: [...declared],
+    });
+  }
+
+  return selected.data ? expandServerUrl(selected.data, options.server_variables) : successResponse(undefined);
+}
+
+/**
+ * Resolve the endpoint each tool calls, keyed by tool name
+ */
+function resolveToolEndpoints(
+  spec: ParsedOpenAPISpec,
+  baseUrl: string,
+  options: ScaffoldOptions
+): ToolResponse<Map<string, ToolEndpoint>> {
+  const defaultServerUrl = spec.servers[0]?.url;
+  const endpoints = new Map<string, ToolEndpoint>();
+
+  // Same selection and naming as the generated tool schemas
+  const selected = selectToolOperations(spec, options, []);
+  if (!selected.ok) {
+    return selected;
+  }
+
+  for (const { path, operation, name } of selected.data.operations) {
+    // Operations served from another host keep their own server; the rest use the configured base URL
+    let endpointUrl = baseUrl;
+    let configured = true;
+    if (operation.servers?.[0] && operation.servers[0].url !== defaultServerUrl) {
+      // Prefer the operation's server for the same environment, falling back to its first one
+      const environment = selectServer(operation.servers, options.server);
+      const server = expandServerUrl(
+        environment.ok && environment.data ? environment.data : operation.servers[0],
+        options.server_variables
+      );
+      if (!server.ok) {
+        return errorResponse(server.error.code, server.error.message, {
+          ...server.error.details,
+          operation: operation.operation_id,
+        });
+      }
+      endpointUrl = server.data.url;
+      configured = false;
+    }
+
+    // Operations the merge mounted under a namespace call their original path
+    const graphql = operation.extensions?.[GRAPHQL_EXTENSION] as ToolEndpoint['graphql'];
+    const upstreamPath = operation.extensions?.[UPSTREAM_PATH_EXTENSION];
+    endpoints.set(name, {
+      method: operation.method.toUpperCase(),
+      path: typeof upstreamPath === 'string' ? upstreamPath : path,
+      baseUrl: endpointUrl,
+      configured,
+      security: operation.security,
+      credential: credentialPlacement(operation.security, spec.security_schemes || {}),
+      graphql,
+    });
+  }
+
+  return successResponse(endpoints);
+}
+
+/**
+ * Where an operation expects its credential, from the first security scheme
+ * that carries one. Operations without security information, such as those
+ * imported from GraphQL, get API_KEY as a bearer token; public ones get nothing
+ */
+function credentialPlacement(
+  security: ParsedSecurityRequirement[] | undefined,
+  schemes: Record<string, ParsedSecurityScheme>
+): CredentialPlacement | undefined {
+  if (!security) {
+    return { in: 'header', name: 'Authorization', scheme: 'Bearer' };
+  }
+
+  for (const name of security.flatMap((requirement) => Object.keys(requirement))) {
+    const scheme = schemes[name];
+    if (scheme?.type === 'apiKey' && scheme.name && ['header', 'query', 'cookie'].includes(scheme.in ?? '')) {
+      return { in: scheme.in as CredentialPlacement['in'], name: scheme.name };
+    }
+    if (scheme?.type === 'http' && scheme.scheme?.toLowerCase() === 'basic') {
+      return { in: 'header', name: 'Authorization', scheme: 'Basic' };
+    }
+    if (scheme?.type === 'http' || scheme?.type === 'oauth2' || scheme?.type === 'openIdConnect') {
+      return { in: 'header', name: 'Authorization', scheme: 'Bearer' };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Environment setting that fills in a server URL variable, e.g. API_SERVER_REGION
+ */
+function serverVariableEnv(name: string): string {
+  return `API_SERVER_${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').replace(/[^A-Za-z0-9]+/g, '_').toUpperCase()}`;
+}
+
+/**
+ * The API section of a generated .env.example. A templated server gets one
+ * setting per URL variable, with API_BASE_URL left as a commented override
+ */
+function generateApiEnvExample(config: ScaffoldConfig): string {
+  const variables = config.server?.variables || [];
+  if (variables.length === 0) {
+    return `API_BASE_URL=${config.baseUrl}
+API_KEY=your-api-key-here
+`;
+  }
+
+  const settings = variables.map((variable) => {
+    const notes = [variable.description, variable.enum && `One of: ${variable.enum.join(', ')}`].filter(Boolean);
+    return `${notes.length > 0 ? `# ${notes.join('. ')}\n` : ''}${serverVariableEnv(variable.name)}=${variable.value}`;
+  });
+
+  return `# Server: ${config.server!.template}${config.server!.description ? ` (${config.server!.description})` : ''}
+# Each API_SERVER_* setting fills in the URL; set API_BASE_URL to replace it entirely
+# API_BASE_URL=${config.baseUrl}
+${settings.join('\n')}
+API_KEY=your-api-key-here
+`;
+}
+
+/**
+ * Describe the security requirements of an operation for generated comments
+ */
+function describeSecurity(security?: ParsedSecurityRequirement[]): string | undefined {
+  if (!security) return undefined;
+  if (security.length === 0) return 'none (public endpoint)';
+
+  const alternatives = security.map((requirement) => {
+    const schemes = Object.entries(requirement).map(([name, scopes]) =>
+      scopes.length > 0 ? `${name} [${scopes.join(', ')}]` : name
+    );
+    return schemes.length > 0 ? schemes.join(' + ') : 'anonymous';
+  });
+
+  return alternatives.join(' or ');
 }
 
 /**
@@ -120,6 +431,7 @@ function generateTypeScriptScaffold(
           '@modelcontextprotocol/sdk': '^1.0.0',
           express: '^4.21.0',
           zod: '^3.23.8',
+          ...(config.webhookEvents.length > 0 ? { ajv: '^8.17.1' } : {}),
         },
         devDependencies: {
           '@types/express': '^4.17.21',
@@ -190,17 +502,32 @@ export default defineConfig({
   // src/config.ts
   files.push({
     path: 'src/config.ts',
-    content: generateConfigFile(config.serverName, config.serverVersion),
+    content: generateConfigFile(config),
   });
 
   // Generate tool files
+  const endpoints = config.endpoints;
   const toolNames: string[] = [];
   for (const tool of tools) {
     const fileName = tool.name.replace(/-/g, '_');
     toolNames.push(fileName);
     files.push({
       path: `src/tools/${fileName}.ts`,
-      content: generateToolFile(tool, config.baseUrl),
+      content: generateToolFile(tool, endpoints.get(tool.name)!),
+    });
+  }
+
+  // Webhook receiver and the tool that surfaces received events
+  if (config.webhookEvents.length > 0) {
+    files.push({
+      path: 'src/webhooks.ts',
+      content: generateWebhooksFile(config.webhookEvents),
+    });
+
+    toolNames.push('list_webhook_events');
+    files.push({
+      path: 'src/tools/list_webhook_events.ts',
+      content: generateWebhookEventsToolFile(),
     });
   }
 
@@ -213,7 +540,7 @@ export default defineConfig({
   // src/transport/http.ts
   files.push({
     path: 'src/transport/http.ts',
-    content: generateHttpTransportFile(),
+    content: generateHttpTransportFile(config.webhookEvents.length > 0),
   });
 
   // src/transport/index.ts
@@ -249,9 +576,7 @@ MCP_PORT=8080
 MCP_HOST=0.0.0.0
 
 # API Configuration
-API_BASE_URL=${config.baseUrl}
-API_KEY=your-api-key-here
-`,
+${generateApiEnvExample(config)}`,
   });
 
   // .gitignore
@@ -269,7 +594,13 @@ coverage/
   // README.md
   files.push({
     path: 'README.md',
-    content: generateReadmeFile(config.serverName, spec.info.description || '', tools.length),
+    content: generateReadmeFile(
+      config.serverName,
+      spec.info.description || '',
+      tools.length,
+      'typescript',
+      config.webhookEvents.map((event) => event.name)
+    ),
   });
 
   // Tests
@@ -297,6 +628,8 @@ function generatePythonScaffold(
   config: ScaffoldConfig
 ): GeneratedFile[] {
   const files: GeneratedFile[] = [];
+  const hasWebhooks = config.webhookEvents.length > 0;
+  const serverTools = hasWebhooks ? [...tools, WEBHOOK_EVENTS_TOOL] : tools;
 
   // pyproject.toml
   files.push({
@@ -318,7 +651,10 @@ authors = [
 dependencies = [
     "mcp>=1.0.0",
     "httpx>=0.27.0",
-    "pydantic>=2.0.0",
+    "pydantic>=2.0.0",${hasWebhooks ? `
+    "jsonschema>=4.18.0",
+    "starlette>=0.27.0",
+    "uvicorn>=0.23.0",` : ''}
 ]
 
 [project.optional-dependencies]
@@ -338,13 +674,13 @@ packages = ["src/${config.serverName.replace(/-/g, '_')}"]
   // src/main.py (entry point)
   files.push({
     path: 'src/main.py',
-    content: generatePythonMainFile(config.serverName),
+    content: generatePythonMainFile(config.serverName, hasWebhooks),
   });
 
   // src/server.py
   files.push({
     path: 'src/server.py',
-    content: generatePythonServerFile(tools, config.serverName),
+    content: generatePythonServerFile(serverTools, config.serverName),
   });
 
   // src/types.py
@@ -356,22 +692,41 @@ packages = ["src/${config.serverName.replace(/-/g, '_')}"]
   // src/config.py
   files.push({
     path: 'src/config.py',
-    content: generatePythonConfigFile(config.serverName, config.serverVersion, config.baseUrl),
+    content: generatePythonConfigFile(config),
   });
 
   // src/tools/__init__.py
-  const toolNames = tools.map((t) => t.name.replace(/-/g, '_'));
+  const toolNames = serverTools.map((t) => t.name.replace(/-/g, '_'));
   files.push({
     path: 'src/tools/__init__.py',
     content: toolNames.map((name) => `from .${name} import ${name}`).join('\n') + '\n',
   });
 
   // Generate tool files
+  const endpoints = config.endpoints;
   for (const tool of tools) {
     const fileName = tool.name.replace(/-/g, '_');
     files.push({
       path: `src/tools/${fileName}.py`,
-      content: generatePythonToolFile(tool, config.baseUrl),
+      content: generatePythonToolFile(tool, endpoints.get(tool.name)!),
+    });
+  }
+
+  // Webhook receiver and the tool that surfaces received events
+  if (hasWebhooks) {
+    files.push({
+      path: 'src/webhooks.py',
+      content: generatePythonWebhooksFile(config.webhookEvents),
+    });
+
+    files.push({
+      path: 'src/http_transport.py',
+      content: generatePythonHttpTransportFile(config.serverName),
+    });
+
+    files.push({
+      path: 'src/tools/list_webhook_events.py',
+      content: generatePythonWebhookEventsToolFile(),
     });
   }
 
@@ -380,12 +735,13 @@ packages = ["src/${config.serverName.replace(/-/g, '_')}"]
     path: '.env.example',
     content: `# MCP Server Configuration (HTTP-only)
 MCP_PORT=8080
-MCP_HOST=0.0.0.0
+MCP_HOST=0.0.0.0${hasWebhooks ? `
+
+# Port of the webhook receiver (POST /webhooks/<event>)
+WEBHOOK_PORT=8081` : ''}
 
 # API Configuration
-API_BASE_URL=${config.baseUrl}
-API_KEY=your-api-key-here
-`,
+${generateApiEnvExample(config)}`,
   });
 
   // .gitignore
@@ -409,7 +765,13 @@ venv/
   // README.md
   files.push({
     path: 'README.md',
-    content: generateReadmeFile(config.serverName, spec.info.description || '', tools.length, 'python'),
+    content: generateReadmeFile(
+      config.serverName,
+      spec.info.description || '',
+      tools.length,
+      'python',
+      config.webhookEvents.map((event) => event.name)
+    ),
   });
 
   // Tests
@@ -516,16 +878,26 @@ export function errorResponse(
 `;
 }
 
-function generateConfigFile(serverName: string, serverVersion: string): string {
+function generateConfigFile(config: ScaffoldConfig): string {
+  const variables = (config.server?.variables || []).map((variable) =>
+    `    ${JSON.stringify(variable.name)}: { env: '${serverVariableEnv(variable.name)}', default: ${JSON.stringify(variable.value)}${
+      variable.enum ? `, enum: ${JSON.stringify(variable.enum)}` : ''} },`);
+
   return `import type { ServerConfig } from './types.js';
 
 const DEFAULT_CONFIG: ServerConfig = {
-  name: '${serverName}',
-  version: '${serverVersion}',
+  name: '${config.serverName}',
+  version: '${config.serverVersion}',
   port: 8080,
   host: '0.0.0.0',
 };
 
+// API server URL, with the API_SERVER_* settings that fill in its {variables}
+const API_SERVER: { url: string; variables: Record<string, { env: string; default: string; enum?: string[] }> } = {
+  url: ${JSON.stringify(config.server?.template ?? config.baseUrl)},
+  variables: {${variables.length > 0 ? `\n${variables.join('\n')}\n  ` : ''}},
+};
+
 export function loadConfig(): ServerConfig {
   return {
     name: process.env.MCP_SERVER_NAME || DEFAULT_CONFIG.name,
@@ -535,28 +907,102 @@ export function loadConfig(): ServerConfig {
   };
 }
 
+export function loadApiBaseUrl(): string {
+  if (process.env.API_BASE_URL) {
+    return process.env.API_BASE_URL;
+  }
+
+  return API_SERVER.url.replace(/\\{([^{}]+)\\}/g, (_, name: string) => {
+    const variable = API_SERVER.variables[name];
+    const value = process.env[variable.env] || variable.default;
+    if (variable.enum && !variable.enum.includes(value)) {
+      throw new Error(\`\${variable.env} must be one of: \${variable.enum.join(', ')}\`);
+    }
+    return value;
+  });
+}
+
+export function loadApiKey(): string | undefined {
+  return process.env.API_KEY || undefined;
+}
+
 export { DEFAULT_CONFIG };
 `;
 }
 
 function generateToolFile(
   tool: { name: string; description: string; inputSchema: object },
-  baseUrl: string
+  endpoint: ToolEndpoint
 ): string {
-  const inputSchema = tool.inputSchema as { properties: Record<string, { type?: string; description?: string }>; required: string[] };
+  const inputSchema = tool.inputSchema as {
+    properties: Record<string, { type?: string | string[]; description?: string }>;
+    required: string[];
+  };
   const params = Object.entries(inputSchema.properties || {});
 
   const paramTypes = params
     .map(([name, schema]) => {
-      const type = schema.type === 'integer' || schema.type === 'number' ? 'number' : schema.type || 'string';
-      const tsType = type === 'array' ? 'unknown[]' : type === 'object' ? 'Record<string, unknown>' : type;
+      const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+      const tsType = types.map(toTypeScriptType).join(' | ');
       const required = inputSchema.required?.includes(name);
       return `  ${name}${required ? '' : '?'}: ${tsType};`;
     })
     .join('\n');
 
-  return `import { type ToolResponse, successResponse, errorResponse } from '../types.js';
+  const url = `${endpoint.baseUrl}${endpoint.path}`;
+  const auth = describeSecurity(endpoint.security);
+  const hasBody = !['GET', 'HEAD', 'DELETE'].includes(endpoint.method);
+  // The configured server's URL is read at call time, so API_BASE_URL and API_SERVER_* apply
+  const urlExpression = endpoint.configured ? `\`\${loadApiBaseUrl()}${endpoint.path}\`` : `'${url}'`;
+  const credential = endpoint.graphql ? endpoint.credential : undefined;
+  const configImports = [endpoint.configured && 'loadApiBaseUrl', credential && 'loadApiKey'].filter(Boolean);
+
+  const implementation = endpoint.graphql
+    ? `    // GraphQL request to ${url}${auth ? `
+    // Auth: ${auth}` : ''}
+    const url = ${urlExpression};${credential ? `
+    const apiKey = loadApiKey();` : ''}
+    const response = await fetch(${credential?.in === 'query'
+      ? `apiKey ? \`\${url}?${encodeURIComponent(credential.name)}=\${encodeURIComponent(apiKey)}\` : url`
+      : 'url'}, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',${credential && credential.in !== 'query' ? `
+        ...(apiKey && { ${typeScriptCredentialHeader(credential)} }),` : ''}
+      },
+      body: JSON.stringify({ query: DOCUMENT, variables: input }),
+    });
+    const payload = (await response.json()) as { data?: Record<string, unknown>; errors?: { message: string }[] };
+    if (!response.ok || payload.errors?.length) {
+      return errorResponse('UPSTREAM_ERROR', 'GraphQL request for ${tool.name} failed', {
+        status: response.status,
+        errors: payload.errors,
+      });
+    }
+
+    return successResponse({
+      result: payload.data?.['${endpoint.graphql.field}'],
+    });`
+    : `    // TODO: Implement API call to ${endpoint.method} ${url}${auth ? `
+    // Auth: ${auth}` : ''}
+    const url = ${urlExpression};
+    // Example:
+    // const response = await fetch(url, {
+    //   method: '${endpoint.method}',
+    //   headers: { 'Content-Type': 'application/json' },${hasBody ? `
+    //   body: JSON.stringify(input),` : ''}
+    // });
+    // const data = await response.json();
 
+    return successResponse({
+      result: input, // Placeholder
+    });`;
+
+  return `import { type ToolResponse, successResponse, errorResponse } from '../types.js';
+${configImports.length > 0 ? `import { ${configImports.join(', ')} } from '../config.js';
+` : ''}${endpoint.graphql ? `
+const DOCUMENT = ${JSON.stringify(endpoint.graphql.document)};
+` : ''}
 export interface ${toPascalCase(tool.name)}Input {
 ${paramTypes || '  // No parameters'}
 }
@@ -573,18 +1019,7 @@ export async function ${toCamelCase(tool.name)}(
   input: ${toPascalCase(tool.name)}Input
 ): Promise<ToolResponse<${toPascalCase(tool.name)}Output>> {
   try {
-    // TODO: Implement API call to ${baseUrl}
-    // Example:
-    // const response = await fetch(\`${baseUrl}/endpoint\`, {
-    //   method: 'POST',
-    //   headers: { 'Content-Type': 'application/json' },
-    //   body: JSON.stringify(input),
-    // });
-    // const data = await response.json();
-
-    return successResponse({
-      result: input, // Placeholder
-    });
+${implementation}
   } catch (error) {
     return errorResponse('UPSTREAM_ERROR', 'Failed to execute ${tool.name}', {
       error: error instanceof Error ? error.message : String(error),
@@ -594,15 +1029,121 @@ export async function ${toCamelCase(tool.name)}(
 `;
 }
 
+/**
+ * Header entry of a generated TypeScript tool that sends apiKey
+ */
+function typeScriptCredentialHeader(credential: CredentialPlacement): string {
+  if (credential.in === 'cookie') {
+    return `Cookie: \`${credential.name}=\${apiKey}\``;
+  }
+  const key = /^[A-Za-z_$][\w$]*$/.test(credential.name) ? credential.name : `'${credential.name}'`;
+  return `${key}: ${credential.scheme ? `\`${credential.scheme} \${apiKey}\`` : 'apiKey'}`;
+}
+
 function generateToolsIndexFile(toolNames: string[]): string {
   const imports = toolNames.map((name) => `export { ${toCamelCase(name)} } from './${name}.js';`);
   return imports.join('\n') + '\n';
 }
 
-function generateHttpTransportFile(): string {
+function generateWebhooksFile(events: WebhookEvent[]): string {
+  const schemas = Object.fromEntries(events.map((event) => [event.name, event.schema]));
+
+  return `import { Ajv2020 } from 'ajv/dist/2020.js';
+
+export interface WebhookEvent {
+  id: number;
+  event: string;
+  received_at: string;
+  payload: unknown;
+}
+
+export type WebhookResult =
+  | { ok: true; event: WebhookEvent }
+  | { ok: false; status: number; errors: string[] };
+
+/**
+ * Payload schemas for each webhook and callback event, generated from the OpenAPI spec
+ */
+export const WEBHOOK_SCHEMAS: Record<string, object> = ${JSON.stringify(schemas, null, 2)};
+
+/**
+ * Number of received events kept in memory
+ */
+const MAX_EVENTS = 100;
+
+const ajv = new Ajv2020({ strict: false, allErrors: true });
+const validators = Object.fromEntries(
+  Object.entries(WEBHOOK_SCHEMAS).map(([event, schema]) => [event, ajv.compile(schema)])
+);
+
+const events: WebhookEvent[] = [];
+let nextId = 1;
+
+/**
+ * Validate an incoming webhook payload and record it
+ */
+export function receiveWebhook(event: string, payload: unknown): WebhookResult {
+  const validate = validators[event];
+  if (!validate) {
+    return { ok: false, status: 404, errors: [\`Unknown webhook event: \${event}\`] };
+  }
+
+  if (!validate(payload)) {
+    return {
+      ok: false,
+      status: 400,
+      errors: (validate.errors || []).map((error) => \`\${error.instancePath || '/'} \${error.message}\`),
+    };
+  }
+
+  const received: WebhookEvent = {
+    id: nextId++,
+    event,
+    received_at: new Date().toISOString(),
+    payload,
+  };
+  events.push(received);
+  if (events.length > MAX_EVENTS) events.shift();
+
+  return { ok: true, event: received };
+}
+
+/**
+ * Return received events, optionally filtered by name or by id
+ */
+export function getWebhookEvents(event?: string, sinceId?: number): WebhookEvent[] {
+  return events.filter(
+    (received) => (!event || received.event === event) && (sinceId === undefined || received.id > sinceId)
+  );
+}
+`;
+}
+
+function generateWebhookEventsToolFile(): string {
+  return `import { type ToolResponse, successResponse } from '../types.js';
+import { type WebhookEvent, getWebhookEvents } from '../webhooks.js';
+
+export interface ListWebhookEventsInput {
+  event?: string;
+  since_id?: number;
+}
+
+/**
+ * ${WEBHOOK_EVENTS_TOOL.description}
+ */
+export async function listWebhookEvents(
+  input: ListWebhookEventsInput
+): Promise<ToolResponse<{ events: WebhookEvent[] }>> {
+  return successResponse({ events: getWebhookEvents(input?.event, input?.since_id) });
+}
+`;
+}
+
+function generateHttpTransportFile(includeWebhooks = false): string {
   return `import express from 'express';
 import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import type { ServerConfig } from '../types.js';
+import type { ServerConfig } from '../types.js';${includeWebhooks ? `
+import { receiveWebhook } from '../webhooks.js';` : ''}
 
 export async function startHttpTransport(server: Server, config: ServerConfig): Promise<void> {
   const app = express();
@@ -612,7 +1153,17 @@ export async function startHttpTransport(server: Server, config: ServerConfig):
   app.get('/health', (_req, res) => {
     res.json({ status: 'ok', server: config.name, version: config.version });
   });
-
+${includeWebhooks ? `
+  // Webhook receiver: payloads are validated against the spec before being recorded
+  app.post('/webhooks/:event', (req, res) => {
+    const result = receiveWebhook(req.params.event, req.body);
+    if (!result.ok) {
+      res.status(result.status).json({ ok: false, errors: result.errors });
+      return;
+    }
+    res.status(202).json({ ok: true, id: result.event.id });
+  });
+` : ''}
   // MCP endpoint would go here
   // Note: HTTP transport for MCP requires SSE or WebSocket implementation
 
@@ -738,8 +1289,21 @@ function generateReadmeFile(
   serverName: string,
   description: string,
   toolCount: number,
-  language: 'typescript' | 'python' = 'typescript'
+  language: 'typescript' | 'python' = 'typescript',
+  webhookEvents: string[] = []
 ): string {
+  const webhooksSection = webhookEvents.length > 0
+    ? `
+## Webhooks
+
+${language === 'python'
+    ? 'POST incoming payloads to `/webhooks/<event>` on `WEBHOOK_PORT` (8081 by default)'
+    : 'POST incoming payloads to `/webhooks/<event>`'}. Payloads are validated against the spec and received events are available through the \`list_webhook_events\` tool.
+
+Events: ${webhookEvents.map((event) => `\`${event}\``).join(', ')}
+`
+    : '';
+
   if (language === 'python') {
     return `# ${serverName}
 
@@ -762,7 +1326,7 @@ The server runs on HTTP transport (port 8080 by default).
 ## Tools
 
 This server provides ${toolCount} tools generated from the OpenAPI specification.
-
+${webhooksSection}
 ## Configuration
 
 Copy \`.env.example\` to \`.env\` and configure:
@@ -808,7 +1372,7 @@ npm run dev
 ## Tools
 
 This server provides ${toolCount} tools generated from the OpenAPI specification.
-
+${webhooksSection}
 ## Configuration
 
 Copy \`.env.example\` to \`.env\` and configure:
@@ -865,12 +1429,13 @@ describe('MCP Server', () => {
 `;
 }
 
-function generatePythonMainFile(serverName: string): string {
+function generatePythonMainFile(serverName: string, includeWebhooks = false): string {
   return `#!/usr/bin/env python3
 """Main entry point for ${serverName} MCP server."""
 import asyncio
 import os
-from .server import create_server
+from .server import create_server${includeWebhooks ? `
+from .http_transport import serve_webhooks` : ''}
 
 
 def main() -> None:
@@ -879,23 +1444,84 @@ def main() -> None:
     host = os.getenv("MCP_HOST", "0.0.0.0")
 
     server = create_server()
+${includeWebhooks ? `
+    # HTTP transport on the MCP port, webhook receiver on WEBHOOK_PORT
+    webhook_port = int(os.getenv("WEBHOOK_PORT", "8081"))
+
+    async def run() -> None:
+        await asyncio.gather(
+            server.run_http(host=host, port=port),
+            serve_webhooks(host=host, port=webhook_port),
+        )
 
+    asyncio.run(run())
+` : `
     # HTTP transport - run on specified port
     asyncio.run(server.run_http(host=host, port=port))
-
+`}
 
 if __name__ == "__main__":
     main()
 `;
 }
 
+/**
+ * HTTP app that receives webhooks, the Python counterpart of the
+ * TypeScript transport's /webhooks/:event route
+ */
+function generatePythonHttpTransportFile(serverName: string): string {
+  return `"""HTTP receiver for webhook and callback deliveries."""
+import uvicorn
+from starlette.applications import Starlette
+from starlette.requests import Request
+from starlette.responses import JSONResponse
+from starlette.routing import Route
+
+from .webhooks import receive_webhook
+
+
+async def health(_request: Request) -> JSONResponse:
+    """Health check endpoint."""
+    return JSONResponse({"status": "ok", "server": "${serverName}"})
+
+
+async def webhook(request: Request) -> JSONResponse:
+    """Webhook receiver: payloads are validated against the spec before being recorded."""
+    try:
+        payload = await request.json()
+    except ValueError:
+        return JSONResponse({"ok": False, "errors": ["Request body must be JSON"]}, status_code=400)
+
+    status, body = receive_webhook(request.path_params["event"], payload)
+    return JSONResponse(body, status_code=status)
+
+
+def create_app() -> Starlette:
+    """Create the HTTP app with the health check and webhook routes."""
+    return Starlette(routes=[
+        Route("/health", health, methods=["GET"]),
+        Route("/webhooks/{event}", webhook, methods=["POST"]),
+    ])
+
+
+async def serve_webhooks(host: str, port: int) -> None:
+    """Serve the webhook receiver until the process stops."""
+    server = uvicorn.Server(uvicorn.Config(create_app(), host=host, port=port, log_level="warning"))
+    await server.serve()
+`;
+}
+
 function generatePythonServerFile(
   tools: { name: string; description: string; inputSchema: object }[],
   serverName: string
 ): string {
   const toolImports = tools.map((t) => t.name.replace(/-/g, '_')).join(', ');
 
+  // Schemas and descriptions are emitted as JSON strings, since JSON's true,
+  // false and null are not Python literals
   return `"""MCP Server implementation."""
+import json
+
 from mcp.server import Server
 from mcp.types import Tool, TextContent
 from .tools import ${toolImports}
@@ -912,8 +1538,8 @@ ${tools
   .map(
     (tool) => `            Tool(
                 name="${tool.name.replace(/-/g, '_')}",
-                description="${tool.description.replace(/"/g, '\\"')}",
-                inputSchema=${JSON.stringify(tool.inputSchema)},
+                description=${JSON.stringify(tool.description)},
+                inputSchema=json.loads(${JSON.stringify(JSON.stringify(tool.inputSchema))}),
             ),`
   )
   .join('\n')}
@@ -921,8 +1547,6 @@ ${tools
 
     @server.call_tool()
     async def call_tool(name: str, arguments: dict) -> list[TextContent]:
-        import json
-
 ${tools
   .map(
     (tool) => `        if name == "${tool.name.replace(/-/g, '_')}":
@@ -1009,11 +1633,20 @@ def error_response(code: str, message: str, details: dict = None) -> dict:
 `;
 }
 
-function generatePythonConfigFile(serverName: string, serverVersion: string, baseUrl: string): string {
+function generatePythonConfigFile(config: ScaffoldConfig): string {
+  const { serverName, serverVersion, baseUrl } = config;
+  const variables = (config.server?.variables || []).map((variable) =>
+    `    ${JSON.stringify(variable.name)}: {"env": "${serverVariableEnv(variable.name)}", "default": ${JSON.stringify(variable.value)}${
+      variable.enum ? `, "enum": ${JSON.stringify(variable.enum)}` : ''}},`);
+
   return `"""Configuration management."""
 import os
 from dataclasses import dataclass
 
+# API server URL, with the API_SERVER_* settings that fill in its {variables}
+API_SERVER_URL = ${JSON.stringify(config.server?.template ?? baseUrl)}
+API_SERVER_VARIABLES = {${variables.length > 0 ? `\n${variables.join('\n')}\n` : ''}}
+
 
 @dataclass
 class ServerConfig:
@@ -1033,21 +1666,78 @@ def load_config() -> ServerConfig:
         version=os.getenv("MCP_SERVER_VERSION", "${serverVersion}"),
         port=int(os.getenv("MCP_PORT", "8080")),
         host=os.getenv("MCP_HOST", "0.0.0.0"),
-        api_base_url=os.getenv("API_BASE_URL", "${baseUrl}"),
+        api_base_url=os.getenv("API_BASE_URL") or resolve_api_base_url(),
         api_key=os.getenv("API_KEY"),
     )
+
+
+def resolve_api_base_url() -> str:
+    """Fill in the API server URL from its API_SERVER_* settings."""
+    url = API_SERVER_URL
+    for name, variable in API_SERVER_VARIABLES.items():
+        value = os.getenv(variable["env"], variable["default"])
+        if "enum" in variable and value not in variable["enum"]:
+            raise ValueError(f"{variable['env']} must be one of: {', '.join(variable['enum'])}")
+        url = url.replace("{" + name + "}", value)
+    return url
 `;
 }
 
 function generatePythonToolFile(
   tool: { name: string; description: string; inputSchema: object },
-  baseUrl: string
+  endpoint: ToolEndpoint
 ): string {
   const funcName = tool.name.replace(/-/g, '_');
+  const url = `${endpoint.baseUrl}${endpoint.path}`;
+  const auth = describeSecurity(endpoint.security);
+  const hasBody = !['GET', 'HEAD', 'DELETE'].includes(endpoint.method);
+  // The configured server's URL is read at call time, so API_BASE_URL and API_SERVER_* apply
+  const urlExpression = endpoint.configured ? `load_config().api_base_url + "${endpoint.path}"` : `"${url}"`;
+  const credential = endpoint.graphql ? endpoint.credential : undefined;
+
+  const implementation = endpoint.graphql
+    ? `        # GraphQL request to ${url}${auth ? `
+        # Auth: ${auth}` : ''}
+        url = ${urlExpression}${credential ? `
+        api_key = load_config().api_key` : ''}
+        async with httpx.AsyncClient() as client:
+            response = await client.post(
+                url,
+                json={"query": DOCUMENT, "variables": args},${credential ? `
+                ${pythonCredentialArgument(credential)} if api_key else {},` : ''}
+            )
+        payload = response.json()
+        if response.is_error or payload.get("errors"):
+            return error_response(
+                "UPSTREAM_ERROR",
+                "GraphQL request for ${funcName} failed",
+                {"status": response.status_code, "errors": payload.get("errors")},
+            )
+
+        return success_response({"result": (payload.get("data") or {}).get("${endpoint.graphql.field}")})`
+    : `        # TODO: Implement API call to ${endpoint.method} ${url}${auth ? `
+        # Auth: ${auth}` : ''}
+        url = ${urlExpression}
+        # Example:
+        # import httpx
+        # async with httpx.AsyncClient() as client:
+        #     response = await client.request(
+        #         "${endpoint.method}",
+        #         url,${hasBody ? `
+        #         json=args,` : ''}
+        #     )
+        #     data = response.json()
+
+        return success_response({"result": args})  # Placeholder`;
 
   return `"""${tool.description}"""
-from ..types import success_response, error_response
+${endpoint.graphql ? `import httpx
 
+` : ''}${endpoint.configured || credential ? `from ..config import load_config
+` : ''}from ..types import success_response, error_response
+${endpoint.graphql ? `
+DOCUMENT = ${JSON.stringify(endpoint.graphql.document)}
+` : ''}
 
 async def ${funcName}(args: dict) -> dict:
     """
@@ -1060,17 +1750,7 @@ async def ${funcName}(args: dict) -> dict:
         Standard response envelope
     """
     try:
-        # TODO: Implement API call to ${baseUrl}
-        # Example:
-        # import httpx
-        # async with httpx.AsyncClient() as client:
-        #     response = await client.post(
-        #         "${baseUrl}/endpoint",
-        #         json=args,
-        #     )
-        #     data = response.json()
-
-        return success_response({"result": args})  # Placeholder
+${implementation}
 
     except Exception as e:
         return error_response(
@@ -1081,6 +1761,82 @@ async def ${funcName}(args: dict) -> dict:
 `;
 }
 
+/**
+ * httpx keyword argument of a generated Python tool that sends api_key
+ */
+function pythonCredentialArgument(credential: CredentialPlacement): string {
+  const value = credential.scheme ? `f"${credential.scheme} {api_key}"` : 'api_key';
+  const keyword = { header: 'headers', query: 'params', cookie: 'cookies' }[credential.in];
+  return `${keyword}={${JSON.stringify(credential.name)}: ${value}}`;
+}
+
+function generatePythonWebhooksFile(events: WebhookEvent[]): string {
+  const schemas = Object.fromEntries(events.map((event) => [event.name, event.schema]));
+
+  return `"""Webhook receiver: validates incoming payloads and records them."""
+import json
+from collections import deque
+from datetime import datetime, timezone
+from typing import Any
+
+from jsonschema import Draft202012Validator
+
+# Payload schemas for each webhook and callback event, generated from the OpenAPI spec
+WEBHOOK_SCHEMAS: dict[str, Any] = json.loads(${JSON.stringify(JSON.stringify(schemas))})
+
+# Number of received events kept in memory
+MAX_EVENTS = 100
+
+_validators = {event: Draft202012Validator(schema) for event, schema in WEBHOOK_SCHEMAS.items()}
+_events: deque[dict[str, Any]] = deque(maxlen=MAX_EVENTS)
+_next_id = 1
+
+
+def receive_webhook(event: str, payload: Any) -> tuple[int, dict[str, Any]]:
+    """Validate a webhook payload and record it. Returns an HTTP status and response body."""
+    global _next_id
+
+    validator = _validators.get(event)
+    if validator is None:
+        return 404, {"ok": False, "errors": [f"Unknown webhook event: {event}"]}
+
+    errors = [f"/{'/'.join(map(str, e.path))} {e.message}" for e in validator.iter_errors(payload)]
+    if errors:
+        return 400, {"ok": False, "errors": errors}
+
+    received = {
+        "id": _next_id,
+        "event": event,
+        "received_at": datetime.now(timezone.utc).isoformat(),
+        "payload": payload,
+    }
+    _next_id += 1
+    _events.append(received)
+    return 202, {"ok": True, "id": received["id"]}
+
+
+def get_webhook_events(event: str | None = None, since_id: int | None = None) -> list[dict[str, Any]]:
+    """Return received events, optionally filtered by name or by id."""
+    return [
+        e for e in _events
+        if (event is None or e["event"] == event) and (since_id is None or e["id"] > since_id)
+    ]
+`;
+}
+
+function generatePythonWebhookEventsToolFile(): string {
+  return `"""${WEBHOOK_EVENTS_TOOL.description}"""
+from ..types import success_response
+from ..webhooks import get_webhook_events
+
+
+async def list_webhook_events(args: dict) -> dict:
+    """${WEBHOOK_EVENTS_TOOL.description}."""
+    events = get_webhook_events(args.get("event"), args.get("since_id"))
+    return success_response({"events": events})
+`;
+}
+
 function generatePythonTestFile(toolNames: string[]): string {
   return `"""Unit tests for tools."""
 import pytest
@@ -1106,6 +1862,24 @@ async def test_${name}_returns_valid_envelope():
 }
 
 // Utility functions
+function toTypeScriptType(type: string | undefined): string {
+  switch (type) {
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'array':
+      return 'unknown[]';
+    case 'object':
+      return 'Record<string, unknown>';
+    case 'null':
+      return 'null';
+    case 'boolean':
+      return 'boolean';
+    default:
+      return 'string';
+  }
+}
+
 function toCamelCase(str: string): string {
   return str.replace(/_([a-z])/g, (_, letter) => letter.toUpperCase());
 }
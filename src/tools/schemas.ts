@@ -1,20 +1,63 @@
+import { createHash } from 'crypto';
 import {
+  type OperationFilterOptions,
+  type ToolNamingOptions,
   type ParsedOpenAPISpec,
   type ParsedOperation,
   type ParsedSchema,
   type MCPToolSchema,
   type JSONSchema,
+  type ToolSchemaOptions,
+  type GeneratedToolSchemas,
+  type FilteredOperation,
   type ToolResponse,
   successResponse,
   errorResponse,
+  hasType,
 } from '../types.js';
+import { createOperationMatcher } from './filter.js';
+import {
+  type ToolNamer,
+  MAX_TOOL_NAME_LENGTH,
+  createToolNamer,
+  sanitizeToolName,
+  toolNameForOperation,
+} from './naming.js';
+
+/**
+ * Default number of nested schema refs followed before a recursive
+ * schema is truncated in 'truncate' mode
+ */
+const DEFAULT_MAX_DEPTH = 5;
+
+/**
+ * Prefix of refs into a tool input schema's $defs
+ */
+const LOCAL_DEFS_PREFIX = '#/$defs/';
+
+/**
+ * Vendor extensions that let API owners steer tool generation from the spec
+ */
+const MCP_DESCRIPTION = 'x-mcp-description';
+const MCP_HIDDEN = 'x-mcp-hidden';
+const MCP_PARAM_DESCRIPTION = 'x-mcp-param-description';
+
+/**
+ * An operation that becomes a tool, with its final, unique tool name
+ */
+interface ToolOperation {
+  path: string;
+  operation: ParsedOperation;
+  name: string;
+}
 
 /**
  * Generate MCP tool definitions from parsed OpenAPI spec
  */
 export function generateToolSchemas(
-  parsedSpec: ParsedOpenAPISpec
-): ToolResponse<{ tools: MCPToolSchema[]; summary: { total_tools: number; by_tag: Record<string, number> } }> {
+  parsedSpec: ParsedOpenAPISpec,
+  options: ToolSchemaOptions = {}
+): ToolResponse<GeneratedToolSchemas> {
   try {
     if (!parsedSpec || typeof parsedSpec !== 'object') {
       return errorResponse('INVALID_INPUT', 'Invalid parsed spec provided', {});
@@ -24,19 +67,30 @@ export function generateToolSchemas(
       return errorResponse('INVALID_INPUT', 'Parsed spec must contain paths array', {});
     }
 
+    if (options.circular_refs && !['defs', 'truncate'].includes(options.circular_refs)) {
+      return errorResponse('INVALID_INPUT', 'circular_refs must be "defs" or "truncate"', {
+        provided: options.circular_refs,
+      });
+    }
+
     const tools: MCPToolSchema[] = [];
     const byTag: Record<string, number> = {};
+    const warnings: string[] = [];
 
-    for (const path of parsedSpec.paths) {
-      for (const operation of path.operations) {
-        const tool = operationToTool(operation, parsedSpec.schemas || {});
-        tools.push(tool);
+    const selected = selectToolOperations(parsedSpec, options, warnings);
+    if (!selected.ok) {
+      return selected;
+    }
+    const { operations, filtered } = selected.data;
 
-        // Count by tag
-        const tags = operation.tags || ['untagged'];
-        for (const tag of tags) {
-          byTag[tag] = (byTag[tag] || 0) + 1;
-        }
+    for (const { operation, name } of operations) {
+      const tool = operationToTool(operation, parsedSpec.schemas || {}, options, warnings, name);
+      tools.push(tool);
+
+      // Count by tag
+      const tags = operation.tags || ['untagged'];
+      for (const tag of tags) {
+        byTag[tag] = (byTag[tag] || 0) + 1;
       }
     }
 
@@ -45,7 +99,11 @@ export function generateToolSchemas(
       summary: {
         total_tools: tools.length,
         by_tag: byTag,
+        filtered_out: filtered.length,
+        filtered,
       },
+    }, {
+      warnings,
     });
   } catch (error) {
     return errorResponse('INTERNAL_ERROR', 'Failed to generate tool schemas', {
@@ -54,23 +112,122 @@ export function generateToolSchemas(
   }
 }
 
+/**
+ * Pick the operations that become tools, dropping those hidden by
+ * x-mcp-hidden or the operation filters, and name each one. Names that
+ * collide after sanitizing and truncation are made unique, and each rename
+ * is added to warnings
+ */
+function selectToolOperations(
+  parsedSpec: ParsedOpenAPISpec,
+  options: OperationFilterOptions & ToolNamingOptions,
+  warnings: string[]
+): ToolResponse<{ operations: ToolOperation[]; filtered: FilteredOperation[] }> {
+  const matcher = createOperationMatcher(options);
+  if (!matcher.ok) {
+    return matcher;
+  }
+
+  const namer = createToolNamer(options);
+  if (!namer.ok) {
+    return namer;
+  }
+
+  const selected: Omit<ToolOperation, 'name'>[] = [];
+  const filtered: FilteredOperation[] = [];
+  for (const path of parsedSpec.paths) {
+    for (const operation of path.operations) {
+      const reason = isHidden(operation) ? `hidden by ${MCP_HIDDEN}` : matcher.data(path.path, operation);
+      if (reason) {
+        filtered.push({
+          operation: `${operation.method.toUpperCase()} ${path.path}`,
+          operation_id: operation.operation_id,
+          reason,
+        });
+      } else {
+        selected.push({ path: path.path, operation });
+      }
+    }
+  }
+
+  return successResponse({ operations: assignToolNames(selected, namer.data, warnings), filtered });
+}
+
+/**
+ * Give each operation a unique tool name. Of the operations sharing a name,
+ * the one whose method and path sort first keeps it and the others get a
+ * suffix hashed from their method and path, so names do not depend on the
+ * order of the spec. Names differing only in - and _ collide too, since
+ * scaffolds turn both into the same file and function name
+ */
+function assignToolNames(
+  operations: Omit<ToolOperation, 'name'>[],
+  namer: ToolNamer,
+  warnings: string[]
+): ToolOperation[] {
+  const baseNames = operations.map(({ operation, path }) => namer(operation, path));
+  const labels = operations.map(({ operation, path }) => `${operation.method.toUpperCase()} ${path}`);
+  const key = (name: string) => name.replace(/-/g, '_');
+
+  const owners = new Map<string, number>();
+  baseNames.forEach((base, index) => {
+    const owner = owners.get(key(base));
+    if (owner === undefined || labels[index] < labels[owner]) {
+      owners.set(key(base), index);
+    }
+  });
+
+  // Every plain name stays reserved for the operation that owns it
+  const taken = new Set(baseNames.map(key));
+  return operations.map(({ path, operation }, index) => {
+    const base = baseNames[index];
+    const owner = owners.get(key(base))!;
+    if (owner === index) {
+      return { path, operation, name: base };
+    }
+
+    const hash = createHash('sha1').update(labels[index]).digest('hex');
+    let name = base;
+    for (let length = 6; taken.has(key(name)); length++) {
+      const suffix = length <= hash.length ? hash.slice(0, length) : `${hash}_${length - hash.length}`;
+      name = `${base.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length - 1).replace(/[_-]+$/, '')}_${suffix}`;
+    }
+    taken.add(key(name));
+
+    warnings.push(`Tool name '${base}' of ${labels[index]} is already used by ${labels[owner]} ('${baseNames[owner]}'); renamed to '${name}'`);
+    return { path, operation, name };
+  });
+}
+
 /**
  * Convert an OpenAPI operation to an MCP tool definition
  */
 function operationToTool(
   operation: ParsedOperation,
-  schemas: Record<string, ParsedSchema>
+  schemas: Record<string, ParsedSchema>,
+  options: ToolSchemaOptions = {},
+  warnings: string[] = [],
+  toolName: string = toolNameForOperation(operation)
 ): MCPToolSchema {
   const properties: Record<string, JSONSchema> = {};
   const required: string[] = [];
+  const state = createConversionState(options, warnings);
 
   // Add parameters to input schema
   for (const param of operation.parameters) {
-    properties[param.name] = convertSchemaToJSONSchema(param.schema, schemas);
+    if (isHidden(param)) {
+      if (param.required && param.schema.default === undefined) {
+        warnings.push(`Required parameter '${param.name}' of tool '${toolName}' is hidden by ${MCP_HIDDEN}`);
+      }
+      continue;
+    }
+
+    properties[param.name] = convertSchemaToJSONSchema(param.schema, schemas, state);
 
     // Add description if available
-    if (param.description) {
-      properties[param.name].description = param.description;
+    const paramDescription = stringExtension(param, MCP_PARAM_DESCRIPTION) ?? param.description;
+    if (paramDescription) {
+      properties[param.name].description = paramDescription;
     }
 
     if (param.required) {
@@ -87,10 +244,10 @@ function operationToTool(
       Object.values(operation.request_body.content)[0];
 
     if (contentType?.schema) {
-      const bodySchema = convertSchemaToJSONSchema(contentType.schema, schemas);
+      const bodySchema = convertSchemaToJSONSchema(contentType.schema, schemas, state);
 
       // If body is an object, merge its properties
-      if (bodySchema.type === 'object' && bodySchema.properties) {
+      if (hasType(bodySchema, 'object') && bodySchema.properties) {
         for (const [key, value] of Object.entries(bodySchema.properties)) {
           // Prefix with body_ if there's a conflict
           const propName = properties[key] ? `body_${key}` : key;
@@ -120,10 +277,10 @@ function operationToTool(
   }
 
   // Generate description
-  const description = buildToolDescription(operation);
+  const description = stringExtension(operation, MCP_DESCRIPTION) ?? buildToolDescription(operation);
 
-  return {
-    name: sanitizeToolName(operation.operation_id),
+  const tool: MCPToolSchema = {
+    name: toolName,
     description,
     inputSchema: {
       type: 'object',
@@ -131,6 +288,68 @@ function operationToTool(
       required,
     },
   };
+
+  const defs = buildDefs(schemas, state);
+  if (defs) {
+    tool.inputSchema.$defs = defs;
+  }
+
+  return tool;
+}
+
+/**
+ * Tracks the component schemas being expanded so recursive schemas are
+ * emitted as $defs references or truncated instead of recursing forever
+ */
+interface ConversionState {
+  mode: 'defs' | 'truncate';
+  maxDepth: number;
+  refStack: string[];
+  defs: Set<string>;
+  localDefs: Record<string, JSONSchema>;
+  warnings: string[];
+  /** Tool input leaves out readOnly and hidden properties; received payloads keep every property */
+  direction: 'input' | 'payload';
+}
+
+function createConversionState(
+  options: ToolSchemaOptions = {},
+  warnings: string[] = [],
+  direction: ConversionState['direction'] = 'input'
+): ConversionState {
+  return {
+    direction,
+    mode: options.circular_refs || 'defs',
+    maxDepth: options.max_depth ?? DEFAULT_MAX_DEPTH,
+    refStack: [],
+    defs: new Set(),
+    localDefs: {},
+    warnings,
+  };
+}
+
+/**
+ * Convert every schema referenced through $defs, including those first
+ * referenced while converting another definition
+ */
+function buildDefs(
+  allSchemas: Record<string, ParsedSchema>,
+  state: ConversionState
+): Record<string, JSONSchema> | undefined {
+  if (state.defs.size === 0 && Object.keys(state.localDefs).length === 0) return undefined;
+
+  const defs: Record<string, JSONSchema> = {};
+  let pending = [...state.defs];
+  while (pending.length > 0) {
+    for (const name of pending) {
+      state.refStack = [name];
+      defs[name] = convertSchemaToJSONSchema(allSchemas[name], allSchemas, state);
+    }
+    pending = [...state.defs].filter((name) => !(name in defs));
+  }
+  state.refStack = [];
+
+  return { ...state.localDefs, ...defs };
 }
 
 /**
@@ -138,57 +357,134 @@ function operationToTool(
  */
 function convertSchemaToJSONSchema(
   schema: ParsedSchema,
-  allSchemas: Record<string, ParsedSchema>
+  allSchemas: Record<string, ParsedSchema>,
+  state: ConversionState = createConversionState()
 ): JSONSchema {
   // Handle $ref
+  if (schema.$ref?.startsWith(LOCAL_DEFS_PREFIX)) {
+    return { $ref: schema.$ref };
+  }
+
   if (schema.$ref) {
     const refName = schema.$ref.replace('#/components/schemas/', '');
     const refSchema = allSchemas[refName];
-    if (refSchema) {
-      return convertSchemaToJSONSchema(refSchema, allSchemas);
+    if (!refSchema) {
+      // If reference not found, return generic object
+      return { type: 'object' };
+    }
+
+    if (state.refStack.includes(refName)) {
+      if (state.mode === 'defs') {
+        state.defs.add(refName);
+        return { $ref: `${LOCAL_DEFS_PREFIX}${refName}` };
+      }
+      if (state.refStack.length >= state.maxDepth) {
+        const warning = `Recursive schema '${refName}' truncated at depth ${state.maxDepth}`;
+        if (!state.warnings.includes(warning)) {
+          state.warnings.push(warning);
+        }
+        return { type: 'object', description: `Recursive ${refName} (truncated)` };
+      }
+    }
+
+    state.refStack.push(refName);
+    try {
+      return convertSchemaToJSONSchema(refSchema, allSchemas, state);
+    } finally {
+      state.refStack.pop();
     }
-    // If reference not found, return generic object
-    return { type: 'object' };
   }
 
   const jsonSchema: JSONSchema = {};
 
-  if (schema.type) jsonSchema.type = schema.type;
+  if (schema.type) jsonSchema.type = toNullableType(schema.type, schema.nullable);
   if (schema.description) jsonSchema.description = schema.description;
   if (schema.format) jsonSchema.format = schema.format;
   if (schema.enum) jsonSchema.enum = schema.enum;
+  if (schema.const !== undefined) jsonSchema.const = schema.const;
   if (schema.default !== undefined) jsonSchema.default = schema.default;
+  if (schema.examples) {
+    jsonSchema.examples = schema.examples;
+  } else if (schema.example !== undefined) {
+    jsonSchema.examples = [schema.example];
+  }
   if (schema.minimum !== undefined) jsonSchema.minimum = schema.minimum;
   if (schema.maximum !== undefined) jsonSchema.maximum = schema.maximum;
+  if (schema.exclusiveMinimum !== undefined) jsonSchema.exclusiveMinimum = schema.exclusiveMinimum;
+  if (schema.exclusiveMaximum !== undefined) jsonSchema.exclusiveMaximum = schema.exclusiveMaximum;
+  if (schema.multipleOf !== undefined) jsonSchema.multipleOf = schema.multipleOf;
   if (schema.minLength !== undefined) jsonSchema.minLength = schema.minLength;
   if (schema.maxLength !== undefined) jsonSchema.maxLength = schema.maxLength;
   if (schema.pattern) jsonSchema.pattern = schema.pattern;
+  if (schema.minItems !== undefined) jsonSchema.minItems = schema.minItems;
+  if (schema.maxItems !== undefined) jsonSchema.maxItems = schema.maxItems;
+  if (schema.uniqueItems !== undefined) jsonSchema.uniqueItems = schema.uniqueItems;
+  if (schema.readOnly !== undefined) jsonSchema.readOnly = schema.readOnly;
+  if (schema.writeOnly !== undefined) jsonSchema.writeOnly = schema.writeOnly;
+  if (schema.contentEncoding) jsonSchema.contentEncoding = schema.contentEncoding;
+  if (schema.contentMediaType) jsonSchema.contentMediaType = schema.contentMediaType;
+  if (schema.dependentRequired) jsonSchema.dependentRequired = schema.dependentRequired;
   if (schema.required) jsonSchema.required = schema.required;
 
   if (schema.properties) {
     jsonSchema.properties = {};
     for (const [key, value] of Object.entries(schema.properties)) {
-      jsonSchema.properties[key] = convertSchemaToJSONSchema(value, allSchemas);
+      // Tool schemas describe input, so server-populated readOnly fields are left out
+      if (state.direction === 'input' && (isReadOnly(value, allSchemas) || isHidden(value))) {
+        jsonSchema.required = jsonSchema.required?.filter((name) => name !== key);
+        continue;
+      }
+      jsonSchema.properties[key] = convertSchemaToJSONSchema(value, allSchemas, state);
+
+      const propertyDescription = stringExtension(value, MCP_PARAM_DESCRIPTION);
+      if (propertyDescription) {
+        jsonSchema.properties[key].description = propertyDescription;
+      }
+    }
+    if (jsonSchema.required?.length === 0) {
+      delete jsonSchema.required;
     }
   }
 
   if (schema.items) {
-    jsonSchema.items = convertSchemaToJSONSchema(schema.items, allSchemas);
+    jsonSchema.items = convertSchemaToJSONSchema(schema.items, allSchemas, state);
+  }
+
+  if (schema.prefixItems) {
+    jsonSchema.prefixItems = schema.prefixItems.map((s) => convertSchemaToJSONSchema(s, allSchemas, state));
+  }
+
+  for (const keyword of ['not', 'if', 'then', 'else'] as const) {
+    const subSchema = schema[keyword];
+    if (subSchema) {
+      jsonSchema[keyword] = convertSchemaToJSONSchema(subSchema, allSchemas, state);
+    }
+  }
+
+  if (schema.$defs) {
+    // Local definitions are hoisted to the tool's $defs, where '#/$defs/...' refs resolve
+    for (const [name, definition] of Object.entries(schema.$defs)) {
+      if (name in state.localDefs || name in allSchemas) {
+        state.warnings.push(`Local $defs entry '${name}' conflicts with another definition and was skipped`);
+        continue;
+      }
+      state.localDefs[name] = convertSchemaToJSONSchema(definition, allSchemas, state);
+    }
   }
 
   if (schema.oneOf) {
-    jsonSchema.oneOf = schema.oneOf.map((s) => convertSchemaToJSONSchema(s, allSchemas));
+    jsonSchema.oneOf = schema.oneOf.map((s) => convertSchemaToJSONSchema(s, allSchemas, state));
   }
 
   if (schema.anyOf) {
-    jsonSchema.anyOf = schema.anyOf.map((s) => convertSchemaToJSONSchema(s, allSchemas));
+    jsonSchema.anyOf = schema.anyOf.map((s) => convertSchemaToJSONSchema(s, allSchemas, state));
   }
 
   if (schema.allOf) {
     // Merge allOf schemas
     const merged: JSONSchema = { type: 'object', properties: {}, required: [] };
     for (const subSchema of schema.allOf) {
-      const converted = convertSchemaToJSONSchema(subSchema, allSchemas);
+      const converted = convertSchemaToJSONSchema(subSchema, allSchemas, state);
       if (converted.properties) {
         merged.properties = { ...merged.properties, ...converted.properties };
       }
@@ -203,13 +499,48 @@ function convertSchemaToJSONSchema(
     if (typeof schema.additionalProperties === 'boolean') {
       jsonSchema.additionalProperties = schema.additionalProperties;
     } else {
-      jsonSchema.additionalProperties = convertSchemaToJSONSchema(schema.additionalProperties, allSchemas);
+      jsonSchema.additionalProperties = convertSchemaToJSONSchema(schema.additionalProperties, allSchemas, state);
     }
   }
 
   return jsonSchema;
 }
 
+/**
+ * Widen a type to include null for OpenAPI 3.0 nullable schemas
+ */
+function toNullableType(type: string | string[], nullable?: boolean): string | string[] {
+  if (!nullable) return type;
+  const types = Array.isArray(type) ? type : [type];
+  return types.includes('null') ? types : [...types, 'null'];
+}
+
+/**
+ * Check if a property schema (or the component it references) is readOnly
+ */
+function isReadOnly(schema: ParsedSchema, allSchemas: Record<string, ParsedSchema>): boolean {
+  if (schema.readOnly) return true;
+  if (schema.$ref) {
+    return allSchemas[schema.$ref.replace('#/components/schemas/', '')]?.readOnly === true;
+  }
+  return false;
+}
+
+/**
+ * Check whether a spec object is hidden from tools with x-mcp-hidden
+ */
+function isHidden(target: { extensions?: Record<string, unknown> }): boolean {
+  return target.extensions?.[MCP_HIDDEN] === true;
+}
+
+/**
+ * Read a string-valued vendor extension, ignoring other value types
+ */
+function stringExtension(target: { extensions?: Record<string, unknown> }, key: string): string | undefined {
+  const value = target.extensions?.[key];
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
 /**
  * Build a description for the tool
  */
@@ -234,16 +565,12 @@ function buildToolDescription(operation: ParsedOperation): string {
   return parts.join(' ').trim() || `Execute ${operation.operation_id}`;
 }
 
-/**
- * Sanitize tool name to be valid
- */
-function sanitizeToolName(name: string): string {
-  return name
-    .replace(/[^a-zA-Z0-9_-]/g, '_')
-    .replace(/_+/g, '_')
-    .replace(/^_|_$/g, '')
-    .toLowerCase()
-    .slice(0, 64); // MCP tool names should be reasonably short
-}
-
-export { operationToTool, convertSchemaToJSONSchema, sanitizeToolName };
+export {
+  operationToTool,
+  selectToolOperations,
+  convertSchemaToJSONSchema,
+  createConversionState,
+  sanitizeToolName,
+  toolNameForOperation,
+  isHidden,
+};
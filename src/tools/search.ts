@@ -0,0 +1,228 @@
+import {
+  type ParsedOpenAPISpec,
+  type ParsedOperation,
+  type SearchHit,
+  type SearchOptions,
+  type SearchResult,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+import { createToolNamer } from './naming.js';
+import { selectToolOperations } from './schemas.js';
+
+const DEFAULT_LIMIT = 10;
+
+/**
+ * BM25 term frequency saturation and document length normalization
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * How much a term counts in each field of an operation
+ */
+const FIELD_WEIGHTS = {
+  operation_id: 3,
+  path: 2.5,
+  summary: 2,
+  tags: 1.5,
+  parameters: 1,
+  description: 1,
+  method: 0.5,
+};
+
+/**
+ * Verbs each HTTP method stands for, so "create a refund" finds POST /refunds
+ */
+const METHOD_TERMS: Record<string, string[]> = {
+  get: ['get', 'list', 'fetch', 'read', 'retrieve', 'find'],
+  post: ['create', 'add', 'new', 'submit'],
+  put: ['update', 'replace', 'set'],
+  patch: ['update', 'modify', 'edit'],
+  delete: ['delete', 'remove'],
+};
+
+/**
+ * Words too common in questions and descriptions to tell operations apart
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'api', 'are', 'by', 'can', 'do', 'does', 'endpoint', 'for', 'from', 'how', 'i', 'in',
+  'is', 'it', 'me', 'of', 'on', 'operation', 'or', 'that', 'the', 'this', 'to', 'which', 'what', 'with',
+]);
+
+/**
+ * An operation with the weighted frequency of each of its terms
+ */
+interface IndexedOperation {
+  operation: ParsedOperation;
+  path: string;
+  terms: Map<string, number>;
+  length: number;
+}
+
+interface SearchIndex {
+  operations: IndexedOperation[];
+  /** Number of operations containing each term */
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+/**
+ * Indexes of specs searched before, so repeated queries against a cached spec reuse them
+ */
+const indexes = new WeakMap<ParsedOpenAPISpec, SearchIndex>();
+
+/**
+ * Rank a spec's operations by relevance to a free-text query, using BM25
+ * over their operation ids, paths, summaries, descriptions, tags and
+ * parameter names. Hits carry the tool name generate_tool_schemas gives
+ * them under the same naming options
+ */
+export function openapiSearch(
+  spec: ParsedOpenAPISpec,
+  query: string,
+  options: SearchOptions = {}
+): ToolResponse<SearchResult> {
+  if (!spec || !Array.isArray(spec.paths)) {
+    return errorResponse('INVALID_INPUT', 'Invalid parsed spec provided', {});
+  }
+  if (typeof query !== 'string' || query.trim() === '') {
+    return errorResponse('INVALID_INPUT', 'query must be a non-empty string', {});
+  }
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1) {
+    return errorResponse('INVALID_INPUT', 'limit must be a positive integer', { provided: options.limit });
+  }
+
+  const namer = createToolNamer(options);
+  if (!namer.ok) {
+    return namer;
+  }
+  // Hidden operations have no tool, so they keep their plain name
+  const selected = selectToolOperations(spec, options, []);
+  const toolNames = new Map(selected.ok ? selected.data.operations.map(({ operation, name }) => [operation, name]) : []);
+
+  let index = indexes.get(spec);
+  if (!index) {
+    index = buildIndex(spec);
+    indexes.set(spec, index);
+  }
+
+  const warnings: string[] = [];
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) {
+    warnings.push(`Query '${query}' has no searchable terms`);
+  }
+
+  const total = index.operations.length;
+  const hits: SearchHit[] = [];
+  for (const document of index.operations) {
+    let score = 0;
+    const matched: string[] = [];
+
+    for (const term of queryTerms) {
+      const frequency = document.terms.get(term);
+      if (!frequency) continue;
+
+      const documentFrequency = index.documentFrequency.get(term)!;
+      const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+      const norm = K1 * (1 - B + B * document.length / index.averageLength);
+      score += idf * frequency * (K1 + 1) / (frequency + norm);
+      matched.push(term);
+    }
+
+    if (score > 0) {
+      hits.push({
+        method: document.operation.method.toUpperCase(),
+        path: document.path,
+        operation_id: document.operation.operation_id,
+        tool_name: toolNames.get(document.operation) ?? namer.data(document.operation, document.path),
+        summary: document.operation.summary,
+        score: Math.round(score * 1000) / 1000,
+        matched_terms: matched,
+      });
+    }
+  }
+
+  hits.sort((a, b) => b.score - a.score);
+
+  return successResponse({
+    query,
+    hits: hits.slice(0, limit),
+    total_operations: total,
+  }, { warnings });
+}
+
+/**
+ * Build the term index for every operation in a spec
+ */
+function buildIndex(spec: ParsedOpenAPISpec): SearchIndex {
+  const operations: IndexedOperation[] = [];
+  const documentFrequency = new Map<string, number>();
+
+  for (const path of spec.paths) {
+    for (const operation of path.operations) {
+      const fields: Record<keyof typeof FIELD_WEIGHTS, string[]> = {
+        operation_id: tokenize(operation.operation_id),
+        path: tokenize(path.path),
+        summary: tokenize(operation.summary ?? ''),
+        tags: (operation.tags ?? []).flatMap(tokenize),
+        parameters: operation.parameters.flatMap((parameter) => tokenize(parameter.name)),
+        description: tokenize(operation.description ?? ''),
+        method: METHOD_TERMS[operation.method.toLowerCase()] ?? [],
+      };
+
+      const terms = new Map<string, number>();
+      let length = 0;
+      for (const [field, fieldTerms] of Object.entries(fields)) {
+        const weight = FIELD_WEIGHTS[field as keyof typeof FIELD_WEIGHTS];
+        for (const term of fieldTerms) {
+          terms.set(term, (terms.get(term) ?? 0) + weight);
+          length += weight;
+        }
+      }
+
+      for (const term of terms.keys()) {
+        documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+      }
+      operations.push({
+        operation,
+        path: path.path,
+        terms,
+        length,
+      });
+    }
+  }
+
+  const averageLength = operations.reduce((sum, document) => sum + document.length, 0) / (operations.length || 1);
+  return { operations, documentFrequency, averageLength: averageLength || 1 };
+}
+
+/**
+ * Split text into lowercase terms, breaking camelCase, snake_case, kebab-case
+ * and path segments apart and dropping plural endings
+ */
+function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term !== '' && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+/**
+ * Reduce a plural to its singular: "refunds" and "refund" match, as do
+ * "categories" and "category"
+ */
+function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) {
+    return `${term.slice(0, -3)}y`;
+  }
+  if (term.length > 3 && term.endsWith('s') && !/(ss|us|is)$/.test(term)) {
+    return term.slice(0, -1);
+  }
+  return term;
+}
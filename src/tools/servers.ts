@@ -0,0 +1,122 @@
+import {
+  type ParsedServer,
+  type ToolResponse,
+  successResponse,
+  errorResponse,
+} from '../types.js';
+
+const TEMPLATE_VARIABLE = /\{([^{}]+)\}/g;
+
+/**
+ * A server variable with the value chosen for it
+ */
+export interface ResolvedServerVariable {
+  name: string;
+  value: string;
+  enum?: string[];
+  description?: string;
+}
+
+/**
+ * A server with its URL template expanded
+ */
+export interface ResolvedServer {
+  /** The URL with every variable filled in */
+  url: string;
+  /** The URL as declared, with its {variable} placeholders */
+  template: string;
+  description?: string;
+  variables: ResolvedServerVariable[];
+}
+
+/**
+ * Pick a server by environment name or index. A name matches a server whose
+ * description equals it, or else the one server whose description or URL
+ * contains it ("prod" matches "Production server"). Without a selector the
+ * first server is used
+ */
+export function selectServer(
+  servers: ParsedServer[],
+  selector?: string | number
+): ToolResponse<ParsedServer | undefined> {
+  if (selector === undefined || selector === '') {
+    return successResponse(servers[0]);
+  }
+
+  const available = servers.map((server, index) => ({ index, url: server.url, description: server.description }));
+
+  if (typeof selector === 'number' || /^\d+$/.test(selector)) {
+    const server = servers[Number(selector)];
+    if (!server) {
+      return errorResponse('INVALID_INPUT', `No server at index ${selector}`, { available });
+    }
+    return successResponse(server);
+  }
+
+  const wanted = selector.toLowerCase();
+  const exact = servers.find((server) => server.description?.toLowerCase() === wanted);
+  if (exact) {
+    return successResponse(exact);
+  }
+
+  const matches = servers.filter((server) =>
+    server.description?.toLowerCase().includes(wanted) || server.url.toLowerCase().includes(wanted));
+  if (matches.length === 1) {
+    return successResponse(matches[0]);
+  }
+
+  return errorResponse(
+    'INVALID_INPUT',
+    matches.length === 0
+      ? `No server matches '${selector}'`
+      : `'${selector}' matches several servers; pass its index or full description`,
+    { available }
+  );
+}
+
+/**
+ * Expand a server URL template. Each {variable} takes its value from the
+ * given values or else its declared default, and must be one of the
+ * variable's enum values when it declares them
+ */
+export function expandServerUrl(
+  server: ParsedServer,
+  values: Record<string, string> = {}
+): ToolResponse<ResolvedServer> {
+  const declared = server.variables || {};
+  const variables: ResolvedServerVariable[] = [];
+
+  for (const name of templateVariables(server.url)) {
+    const variable = declared[name];
+    const value = values[name] ?? variable?.default;
+    if (value === undefined) {
+      return errorResponse('INVALID_INPUT', `Server URL uses {${name}} but declares no such variable`, {
+        server: server.url,
+        variable: name,
+      });
+    }
+    if (variable?.enum && variable.enum.length > 0 && !variable.enum.includes(value)) {
+      return errorResponse('INVALID_INPUT', `Server variable ${name} must be one of: ${variable.enum.join(', ')}`, {
+        server: server.url,
+        variable: name,
+        provided: value,
+      });
+    }
+    variables.push({ name, value, enum: variable?.enum, description: variable?.description });
+  }
+
+  const byName = new Map(variables.map((variable) => [variable.name, variable.value]));
+  return successResponse({
+    url: server.url.replace(TEMPLATE_VARIABLE, (_, name: string) => byName.get(name)!),
+    template: server.url,
+    description: server.description,
+    variables,
+  });
+}
+
+/**
+ * The distinct {variable} names in a server URL, in order of appearance
+ */
+function templateVariables(url: string): string[] {
+  return [...new Set([...url.matchAll(TEMPLATE_VARIABLE)].map((match) => match[1]))];
+}
@@ -0,0 +1,548 @@
+import type { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { hasType } from '../types.js';
+
+const TARGET_OPENAPI_VERSION = '3.0.3';
+const DEFAULT_MEDIA_TYPE = 'application/json';
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'] as const;
+
+/**
+ * Keywords that move from a Swagger 2.0 non-body parameter or header into its schema
+ */
+const SIMPLE_SCHEMA_KEYWORDS = [
+  'type',
+  'format',
+  'items',
+  'default',
+  'maximum',
+  'exclusiveMaximum',
+  'minimum',
+  'exclusiveMinimum',
+  'maxLength',
+  'minLength',
+  'pattern',
+  'maxItems',
+  'minItems',
+  'uniqueItems',
+  'enum',
+  'multipleOf',
+] as const;
+
+/**
+ * Mapping of Swagger 2.0 collectionFormat values to OpenAPI 3 style/explode
+ */
+const COLLECTION_FORMATS: Record<string, { style: string; explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  multi: { style: 'form', explode: true },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+};
+
+type JsonObject = Record<string, unknown>;
+
+export interface Swagger2ConversionResult {
+  spec: OpenAPIV3.Document;
+  source_version: string;
+  warnings: string[];
+}
+
+/**
+ * Check if a document is a Swagger 2.0 specification
+ */
+export function isSwagger2(spec: unknown): spec is OpenAPIV2.Document {
+  return (
+    typeof spec === 'object' &&
+    spec !== null &&
+    'swagger' in spec &&
+    String((spec as OpenAPIV2.Document).swagger).startsWith('2.')
+  );
+}
+
+/**
+ * Upgrade a Swagger 2.0 document to OpenAPI 3.0, recording every lossy conversion
+ */
+export function convertSwagger2(doc: OpenAPIV2.Document): Swagger2ConversionResult {
+  const ctx: ConversionContext = { doc, warnings: [] };
+  const components: JsonObject = {};
+
+  if (doc.definitions) {
+    components.schemas = mapValues(doc.definitions, (schema) => convertSchema(ctx, schema));
+  }
+
+  if (doc.parameters) {
+    const parameters: JsonObject = {};
+    const requestBodies: JsonObject = {};
+    for (const [name, param] of Object.entries(doc.parameters)) {
+      if (param.in === 'body') {
+        requestBodies[name] = convertBodyParameter(ctx, param, doc.consumes);
+      } else if (param.in === 'formData') {
+        ctx.warnings.push(
+          `Global formData parameter '${name}' has no OpenAPI 3 component equivalent; it is inlined into each referencing operation`
+        );
+      } else {
+        parameters[name] = convertParameter(ctx, param, `#/parameters/${name}`);
+      }
+    }
+    if (Object.keys(parameters).length > 0) components.parameters = parameters;
+    if (Object.keys(requestBodies).length > 0) components.requestBodies = requestBodies;
+  }
+
+  if (doc.responses) {
+    components.responses = mapValues(doc.responses, (response) =>
+      convertResponse(ctx, response, doc.produces)
+    );
+  }
+
+  if (doc.securityDefinitions) {
+    components.securitySchemes = mapValues(doc.securityDefinitions, (scheme, name) =>
+      convertSecurityScheme(ctx, scheme, name)
+    );
+  }
+
+  const converted: JsonObject = {
+    openapi: TARGET_OPENAPI_VERSION,
+    info: doc.info,
+    servers: convertServers(ctx),
+    paths: convertPaths(ctx),
+    components,
+  };
+
+  if (doc.security) converted.security = doc.security;
+  if (doc.tags) converted.tags = doc.tags;
+  if (doc.externalDocs) converted.externalDocs = doc.externalDocs;
+  copyExtensions(doc, converted);
+
+  return {
+    spec: converted as unknown as OpenAPIV3.Document,
+    source_version: doc.swagger,
+    warnings: ctx.warnings,
+  };
+}
+
+/**
+ * Build servers from schemes, host and basePath
+ */
+function convertServers(ctx: ConversionContext): OpenAPIV3.ServerObject[] {
+  const { host, basePath = '', schemes } = ctx.doc;
+
+  if (!host) {
+    if (!basePath) return [];
+    ctx.warnings.push('Swagger 2.0 spec has no host; server URL is relative to basePath');
+    return [{ url: basePath }];
+  }
+
+  if (!schemes || schemes.length === 0) {
+    ctx.warnings.push(`Swagger 2.0 spec has no schemes; assuming https for host '${host}'`);
+  }
+
+  return (schemes && schemes.length > 0 ? schemes : ['https']).map((scheme) => ({
+    url: `${scheme}://${host}${basePath}`,
+  }));
+}
+
+/**
+ * Convert paths, pushing path-level body parameters into operations
+ */
+function convertPaths(ctx: ConversionContext): OpenAPIV3.PathsObject {
+  const paths: OpenAPIV3.PathsObject = {};
+
+  for (const [path, pathItem] of Object.entries(ctx.doc.paths || {})) {
+    const converted: JsonObject = {};
+    copyExtensions(pathItem, converted);
+    const pathParameters = resolveParameters(ctx, pathItem.parameters || []);
+
+    const pathLevel = pathParameters.filter((param) => param.in !== 'body' && param.in !== 'formData');
+    if (pathLevel.length > 0) {
+      converted.parameters = pathLevel.map((param) => convertParameterOrRef(ctx, param));
+    }
+
+    // Body and formData parameters cannot live on the path item in OpenAPI 3,
+    // so they are pushed down into every operation
+    const inheritedBody = pathParameters.filter((param) => param.in === 'body' || param.in === 'formData');
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method as OpenAPIV2.HttpMethods];
+      if (operation) {
+        converted[method] = convertOperation(ctx, method, path, operation, inheritedBody);
+      }
+    }
+
+    paths[path] = converted as OpenAPIV3.PathItemObject;
+  }
+
+  return paths;
+}
+
+/**
+ * Convert a single operation
+ */
+function convertOperation(
+  ctx: ConversionContext,
+  method: string,
+  path: string,
+  operation: OpenAPIV2.OperationObject,
+  inheritedBody: ResolvedParameter[]
+): OpenAPIV3.OperationObject {
+  const location = `${method.toUpperCase()} ${path}`;
+  const consumes = operation.consumes || ctx.doc.consumes;
+  const produces = operation.produces || ctx.doc.produces;
+  const resolved = [...inheritedBody, ...resolveParameters(ctx, operation.parameters || [])];
+
+  const converted: JsonObject = {};
+  for (const key of ['tags', 'summary', 'description', 'externalDocs', 'operationId', 'deprecated', 'security'] as const) {
+    if (operation[key] !== undefined) converted[key] = operation[key];
+  }
+  copyExtensions(operation, converted);
+
+  const parameters = resolved
+    .filter((param) => param.in !== 'body' && param.in !== 'formData')
+    .map((param) => convertParameterOrRef(ctx, param));
+  if (parameters.length > 0) converted.parameters = parameters;
+
+  const bodyParam = resolved.find((param) => param.in === 'body');
+  const formParams = resolved.filter((param) => param.in === 'formData');
+
+  if (bodyParam) {
+    converted.requestBody = bodyParam.ref && bodyParam.ref.startsWith('#/parameters/')
+      ? { $ref: `#/components/requestBodies/${bodyParam.ref.slice('#/parameters/'.length)}` }
+      : convertBodyParameter(ctx, bodyParam.param, consumes);
+    if (formParams.length > 0) {
+      ctx.warnings.push(`${location}: formData parameters ignored because a body parameter is also defined`);
+    }
+  } else if (formParams.length > 0) {
+    converted.requestBody = convertFormParameters(ctx, formParams.map((p) => p.param), consumes, location);
+  }
+
+  if (operation.schemes) {
+    ctx.warnings.push(`${location}: operation-level schemes are not supported in OpenAPI 3 and were dropped`);
+  }
+
+  converted.responses = mapValues(
+    (operation.responses || {}) as Record<string, OpenAPIV2.Response>,
+    (response) => convertResponseOrRef(ctx, response, produces)
+  );
+
+  return converted as unknown as OpenAPIV3.OperationObject;
+}
+
+/**
+ * Resolve parameter references so their location is known
+ */
+function resolveParameters(ctx: ConversionContext, parameters: OpenAPIV2.Parameters): ResolvedParameter[] {
+  return parameters.map((param) => {
+    if ('$ref' in param && typeof param.$ref === 'string') {
+      const name = param.$ref.replace('#/parameters/', '');
+      const target = ctx.doc.parameters?.[name];
+      if (target) {
+        return { param: target, ref: param.$ref, in: target.in };
+      }
+      ctx.warnings.push(`Unresolved parameter reference '${param.$ref}'`);
+      return { param: param as OpenAPIV2.ParameterObject, ref: param.$ref, in: 'unknown' };
+    }
+    const inline = param as OpenAPIV2.ParameterObject;
+    return { param: inline, in: inline.in };
+  });
+}
+
+/**
+ * Convert a resolved parameter, keeping component references
+ */
+function convertParameterOrRef(ctx: ConversionContext, resolved: ResolvedParameter): JsonObject {
+  if (resolved.ref) {
+    return { $ref: resolved.ref.replace('#/parameters/', '#/components/parameters/') };
+  }
+  return convertParameter(ctx, resolved.param, resolved.param.name);
+}
+
+/**
+ * Convert a non-body parameter, moving type keywords into schema
+ */
+function convertParameter(
+  ctx: ConversionContext,
+  param: OpenAPIV2.ParameterObject,
+  label: string
+): JsonObject {
+  const converted: JsonObject = {
+    name: param.name,
+    in: param.in,
+  };
+  if (param.description !== undefined) converted.description = param.description;
+  if (param.required !== undefined) converted.required = param.required;
+  if (param.allowEmptyValue !== undefined) converted.allowEmptyValue = param.allowEmptyValue;
+  copyExtensions(param, converted);
+
+  converted.schema = convertSimpleSchema(ctx, param);
+
+  if (hasType(param, 'array') && param.collectionFormat) {
+    const mapping = COLLECTION_FORMATS[param.collectionFormat];
+    if (mapping) {
+      converted.style = mapping.style;
+      converted.explode = mapping.explode;
+    } else {
+      ctx.warnings.push(
+        `Parameter '${label}': collectionFormat '${param.collectionFormat}' has no OpenAPI 3 equivalent; using the default style`
+      );
+    }
+  }
+
+  if (hasType(param, 'file')) {
+    ctx.warnings.push(`Parameter '${label}': type 'file' is only valid in formData; converted to a binary string`);
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a body parameter into a request body
+ */
+function convertBodyParameter(
+  ctx: ConversionContext,
+  param: OpenAPIV2.ParameterObject,
+  consumes?: string[]
+): JsonObject {
+  const schema = convertSchema(ctx, param.schema || {});
+  const requestBody: JsonObject = {
+    content: Object.fromEntries(mediaTypes(consumes).map((type) => [type, { schema }])),
+  };
+  if (param.description !== undefined) requestBody.description = param.description;
+  if (param.required !== undefined) requestBody.required = param.required;
+  copyExtensions(param, requestBody);
+  return requestBody;
+}
+
+/**
+ * Collapse formData parameters into a single object request body
+ */
+function convertFormParameters(
+  ctx: ConversionContext,
+  params: OpenAPIV2.ParameterObject[],
+  consumes: string[] | undefined,
+  location: string
+): JsonObject {
+  const properties: JsonObject = {};
+  const required: string[] = [];
+
+  for (const param of params) {
+    const schema = convertSimpleSchema(ctx, param);
+    if (param.description !== undefined) schema.description = param.description;
+    // Form fields become properties, so their extensions apply to the property
+    copyExtensions(param, schema);
+    properties[param.name] = schema;
+    if (param.required) required.push(param.name);
+    if (param.collectionFormat && param.collectionFormat !== 'multi') {
+      ctx.warnings.push(
+        `${location}: collectionFormat '${param.collectionFormat}' on formData parameter '${param.name}' was dropped`
+      );
+    }
+  }
+
+  const schema: JsonObject = { type: 'object', properties };
+  if (required.length > 0) schema.required = required;
+
+  const hasFile = params.some((param) => hasType(param, 'file'));
+  const formTypes = (consumes || []).filter(
+    (type) => type === 'multipart/form-data' || type === 'application/x-www-form-urlencoded'
+  );
+  const types = formTypes.length > 0
+    ? formTypes
+    : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+  return {
+    required: required.length > 0,
+    content: Object.fromEntries(types.map((type) => [type, { schema }])),
+  };
+}
+
+/**
+ * Convert a response, keeping component references
+ */
+function convertResponseOrRef(
+  ctx: ConversionContext,
+  response: OpenAPIV2.Response,
+  produces?: string[]
+): JsonObject {
+  if ('$ref' in response && typeof response.$ref === 'string') {
+    return { $ref: response.$ref.replace('#/responses/', '#/components/responses/') };
+  }
+  return convertResponse(ctx, response as OpenAPIV2.ResponseObject, produces);
+}
+
+/**
+ * Convert a response, moving schema and examples into content
+ */
+function convertResponse(
+  ctx: ConversionContext,
+  response: OpenAPIV2.ResponseObject,
+  produces?: string[]
+): JsonObject {
+  const converted: JsonObject = { description: response.description || '' };
+  copyExtensions(response, converted);
+
+  if (response.schema) {
+    const schema = convertSchema(ctx, response.schema);
+    converted.content = Object.fromEntries(
+      mediaTypes(produces).map((type) => {
+        const media: JsonObject = { schema };
+        if (response.examples?.[type] !== undefined) media.example = response.examples[type];
+        return [type, media];
+      })
+    );
+  }
+
+  if (response.examples) {
+    const unmatched = Object.keys(response.examples).filter((type) => !mediaTypes(produces).includes(type));
+    if (unmatched.length > 0 || !response.schema) {
+      ctx.warnings.push(
+        `Response examples for ${unmatched.length > 0 ? unmatched.join(', ') : 'a schema-less response'} were dropped`
+      );
+    }
+  }
+
+  if (response.headers) {
+    converted.headers = mapValues(response.headers, (header) => {
+      const convertedHeader: JsonObject = { schema: convertSimpleSchema(ctx, header) };
+      if (header.description !== undefined) convertedHeader.description = header.description;
+      return convertedHeader;
+    });
+  }
+
+  return converted;
+}
+
+/**
+ * Convert a security definition into a security scheme
+ */
+function convertSecurityScheme(
+  ctx: ConversionContext,
+  scheme: OpenAPIV2.SecuritySchemeObject,
+  name: string
+): JsonObject {
+  const converted: JsonObject = {};
+  if (scheme.description !== undefined) converted.description = scheme.description;
+  copyExtensions(scheme, converted);
+
+  if (scheme.type === 'basic') {
+    return { type: 'http', scheme: 'basic', ...converted };
+  }
+
+  if (scheme.type === 'apiKey') {
+    return { type: 'apiKey', name: scheme.name, in: scheme.in, ...converted };
+  }
+
+  const scopes = scheme.scopes || {};
+  switch (scheme.flow) {
+    case 'implicit':
+      return { type: 'oauth2', flows: { implicit: { authorizationUrl: scheme.authorizationUrl, scopes } }, ...converted };
+    case 'password':
+      return { type: 'oauth2', flows: { password: { tokenUrl: scheme.tokenUrl, scopes } }, ...converted };
+    case 'application':
+      return { type: 'oauth2', flows: { clientCredentials: { tokenUrl: scheme.tokenUrl, scopes } }, ...converted };
+    case 'accessCode':
+      return {
+        type: 'oauth2',
+        flows: {
+          authorizationCode: {
+            authorizationUrl: scheme.authorizationUrl,
+            tokenUrl: scheme.tokenUrl,
+            scopes,
+          },
+        },
+        ...converted,
+      };
+    default:
+      ctx.warnings.push(`Security scheme '${name}' has an unknown OAuth2 flow and was converted without flows`);
+      return { type: 'oauth2', flows: {}, ...converted };
+  }
+}
+
+/**
+ * Build a schema from the type keywords of a non-body parameter or header
+ */
+function convertSimpleSchema(
+  ctx: ConversionContext,
+  source: OpenAPIV2.ItemsObject | OpenAPIV2.ParameterObject
+): JsonObject {
+  const schema: JsonObject = {};
+  for (const keyword of SIMPLE_SCHEMA_KEYWORDS) {
+    if (source[keyword] !== undefined) schema[keyword] = source[keyword];
+  }
+  return convertSchema(ctx, schema);
+}
+
+/**
+ * Convert a Swagger 2.0 schema: rewrite refs, files, x-nullable and discriminators
+ */
+function convertSchema(ctx: ConversionContext, schema: unknown): JsonObject {
+  if (Array.isArray(schema)) {
+    return schema.map((item) => convertSchema(ctx, item)) as unknown as JsonObject;
+  }
+  if (typeof schema !== 'object' || schema === null) {
+    return schema as JsonObject;
+  }
+
+  const converted: JsonObject = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === '$ref' && typeof value === 'string') {
+      converted.$ref = value.replace('#/definitions/', '#/components/schemas/');
+    } else if (key === 'x-nullable') {
+      converted.nullable = value;
+    } else if (key === 'discriminator' && typeof value === 'string') {
+      converted.discriminator = { propertyName: value };
+    } else if (key === 'collectionFormat') {
+      continue;
+    } else if (key === 'properties' && typeof value === 'object' && value !== null) {
+      converted.properties = mapValues(value as JsonObject, (property) => convertSchema(ctx, property));
+    } else if (
+      key === 'items' ||
+      key === 'additionalProperties' ||
+      key === 'allOf' ||
+      key === 'anyOf' ||
+      key === 'oneOf' ||
+      key === 'not'
+    ) {
+      converted[key] = typeof value === 'boolean' ? value : convertSchema(ctx, value);
+    } else {
+      converted[key] = value;
+    }
+  }
+
+  if (hasType(converted, 'file')) {
+    converted.type = 'string';
+    converted.format = 'binary';
+  }
+
+  return converted;
+}
+
+interface ConversionContext {
+  doc: OpenAPIV2.Document;
+  warnings: string[];
+}
+
+interface ResolvedParameter {
+  param: OpenAPIV2.ParameterObject;
+  ref?: string;
+  in: string;
+}
+
+/**
+ * Media types from consumes/produces, defaulting to JSON
+ */
+function mediaTypes(types?: string[]): string[] {
+  return types && types.length > 0 ? types : [DEFAULT_MEDIA_TYPE];
+}
+
+/**
+ * Map the values of a record
+ */
+function mapValues<T, R>(record: Record<string, T>, fn: (value: T, key: string) => R): Record<string, R> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value, key)]));
+}
+
+/**
+ * Copy x-* vendor extensions
+ */
+function copyExtensions(source: object, target: JsonObject): void {
+  for (const [key, value] of Object.entries(source)) {
+    if (key.startsWith('x-')) target[key] = value;
+  }
+}
@@ -1,6 +1,81 @@
 import { createServer, IncomingMessage, ServerResponse, Server } from 'http';
-import type { JsonRpcRequest, JsonRpcResponse, ServerConfig, ParsedOpenAPISpec, ScaffoldOptions } from '../types.js';
-import { openapiParse, generateToolSchemas, generateServerScaffold } from '../tools/index.js';
+import {
+  type JsonRpcRequest,
+  type JsonRpcResponse,
+  type ServerConfig,
+  type ParsedOpenAPISpec,
+  type ScaffoldOptions,
+  type ToolSchemaOptions,
+  type ExportOptions,
+  type MergeSource,
+  type FetchOptions,
+  type ToolNamingOptions,
+  errorResponse,
+} from '../types.js';
+import {
+  openapiParse,
+  openapiParseSummary,
+  openapiLint,
+  openapiDiff,
+  graphqlImport,
+  harToSpec,
+  openapiExport,
+  mergeSpecs,
+  openapiSearch,
+  generateToolSchemas,
+  generateServerScaffold,
+  resolveParsedSpec,
+} from '../tools/index.js';
+
+/**
+ * Input schema for an include/exclude operation filter
+ */
+const operationFilterSchema = {
+  type: 'object',
+  properties: {
+    tags: { type: 'array', items: { type: 'string' }, description: 'Operation tags' },
+    paths: { type: 'array', items: { type: 'string' }, description: "Path globs; '*' matches within a segment, '**' across segments" },
+    methods: { type: 'array', items: { type: 'string' }, description: 'HTTP methods' },
+    operation_id: { type: 'string', description: 'Glob matched against the whole operationId (* matches any run, ? one character)' },
+  },
+};
+
+/**
+ * Filter options shared by the tool schema and scaffold generators
+ */
+const operationFilterProperties = {
+  include: {
+    ...operationFilterSchema,
+    description: 'Only generate tools for operations matching every given criterion',
+  },
+  exclude: {
+    ...operationFilterSchema,
+    description: 'Skip operations matching any given criterion',
+  },
+  exclude_deprecated: {
+    type: 'boolean',
+    description: 'Skip operations marked deprecated (default: false)',
+  },
+};
+
+/**
+ * Tool naming options shared by the generators, openapi_search and openapi_diff
+ */
+const toolNamingProperties = {
+  naming: {
+    type: 'string',
+    enum: ['operation_id', 'snake_case', 'verb_noun', 'summary', 'template'],
+    description: 'How tool names are derived: operation_id as-is (default), snake_case of the operation id, verb_noun from method and path (list_customers), summary words, or template',
+  },
+  name_template: {
+    type: 'string',
+    description: 'Name template for the template strategy using {operationId}, {method}, {tag} and {path}, e.g. "{tag}_{operationId}"',
+  },
+  name_prefix: {
+    type: 'string',
+    description: 'Prefix added to every tool name, e.g. "stripe" gives stripe_list_customers',
+  },
+};
 
 /**
  * Tool definitions for the openapi-generate MCP server
@@ -8,18 +83,284 @@ import { openapiParse, generateToolSchemas, generateServerScaffold } from '../to
 const toolDefinitions = [
   {
     name: 'openapi_parse',
-    description: 'Parse an OpenAPI spec from URL or JSON string. Returns structured representation of endpoints, parameters, schemas.',
+    description: 'Parse an OpenAPI spec (or Postman Collection v2.1) from URL, JSON string or YAML string. Returns structured representation of endpoints, parameters, schemas.',
     inputSchema: {
       type: 'object',
       properties: {
         spec_url_or_json: {
           type: 'string',
-          description: 'URL to OpenAPI spec or raw JSON string of the spec',
+          description: 'URL to OpenAPI spec or raw JSON/YAML string of the spec',
+        },
+        convert_swagger2: {
+          type: 'boolean',
+          description: 'Upgrade Swagger 2.0 specs to OpenAPI 3.0 instead of rejecting them (default: false)',
+        },
+        files: {
+          type: 'object',
+          description: 'Multi-file spec as a map of relative file name to JSON/YAML content. spec_url_or_json then names the entry file',
+          additionalProperties: { type: 'string' },
+        },
+        entry_file: {
+          type: 'string',
+          description: 'Entry file within a local spec directory (default: openapi.yaml, openapi.json, ...)',
+        },
+        preserve_refs: {
+          type: 'boolean',
+          description: 'Keep $ref pointers to component schemas instead of inlining them (default: false)',
+        },
+        page_size: {
+          type: 'number',
+          description: 'Return operations in pages of this size; meta.pagination.next_cursor points at the next page',
+        },
+        cursor: {
+          type: 'string',
+          description: 'next_cursor from a previous page',
+        },
+        summary_only: {
+          type: 'boolean',
+          description: 'Return only the operation ids, methods, paths, summaries and tags, without parameters or schemas (default: false)',
+        },
+        overlays: {
+          type: 'array',
+          description: 'OpenAPI Overlay 1.0 documents (JSON/YAML strings or objects) applied in order before parsing; meta.overlays reports actions that matched nothing',
+          items: { type: ['string', 'object'] },
+        },
+        fetch: {
+          type: 'object',
+          description: 'Credentials and limits for fetching a spec URL and the files it references',
+          properties: {
+            headers: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Request headers such as Authorization, sent only to the spec URL\'s origin',
+            },
+            timeout_ms: {
+              type: 'number',
+              description: 'Time allowed for the whole fetch, in milliseconds; exceeding it returns TIMEOUT (default: 30000)',
+            },
+            max_bytes: {
+              type: 'number',
+              description: 'Largest total size of the fetched files, in bytes (default: 10485760)',
+            },
+            max_redirects: {
+              type: 'number',
+              description: 'Redirects followed per request (default: 5)',
+            },
+            allow_hosts: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Only these hosts may be fetched; "*.example.com" also matches subdomains',
+            },
+            deny_hosts: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Hosts that are never fetched, matched like allow_hosts',
+            },
+            allow_private_network: {
+              type: 'boolean',
+              description: 'Fetch from loopback, private and link-local addresses; hosts in allow_hosts are always allowed (default: false)',
+            },
+          },
         },
       },
       required: ['spec_url_or_json'],
     },
   },
+  {
+    name: 'openapi_lint',
+    description: 'Lint an OpenAPI spec for problems that affect MCP tool generation. Returns diagnostics with severity, rule id, JSON pointer and message.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        spec_url_or_json: {
+          type: 'string',
+          description: 'URL to OpenAPI spec or raw JSON/YAML string of the spec',
+        },
+        convert_swagger2: {
+          type: 'boolean',
+          description: 'Upgrade Swagger 2.0 specs to OpenAPI 3.0 before linting (default: false)',
+        },
+        files: {
+          type: 'object',
+          description: 'Multi-file spec as a map of relative file name to JSON/YAML content. spec_url_or_json then names the entry file',
+          additionalProperties: { type: 'string' },
+        },
+        entry_file: {
+          type: 'string',
+          description: 'Entry file within a local spec directory (default: openapi.yaml, openapi.json, ...)',
+        },
+      },
+      required: ['spec_url_or_json'],
+    },
+  },
+  {
+    name: 'openapi_diff',
+    description: 'Diff two versions of an OpenAPI spec and classify each change as breaking or non-breaking for the generated MCP tools.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        base: {
+          type: ['string', 'object'],
+          description: 'Previous spec: URL, raw JSON/YAML string, or parsed spec from openapi_parse',
+        },
+        revision: {
+          type: ['string', 'object'],
+          description: 'New spec: URL, raw JSON/YAML string, or parsed spec from openapi_parse',
+        },
+        convert_swagger2: {
+          type: 'boolean',
+          description: 'Upgrade Swagger 2.0 specs to OpenAPI 3.0 before diffing (default: false)',
+        },
+        ...toolNamingProperties,
+      },
+      required: ['base', 'revision'],
+    },
+  },
+  {
+    name: 'graphql_import',
+    description: 'Import a GraphQL schema (SDL or introspection result) as a parsed spec: queries and mutations become POST operations with generated documents and selection sets, ready for generate_tool_schemas and generate_server_scaffold.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schema: {
+          type: ['string', 'object'],
+          description: 'GraphQL SDL, or an introspection result as JSON string or object',
+        },
+        endpoint: {
+          type: 'string',
+          description: 'URL of the GraphQL endpoint the generated tools call (default: /graphql)',
+        },
+        title: {
+          type: 'string',
+          description: 'API title for the parsed spec (default: GraphQL API)',
+        },
+        selection_depth: {
+          type: 'number',
+          description: 'Levels of nested object fields included in generated selection sets (default: 2)',
+        },
+      },
+      required: ['schema'],
+    },
+  },
+  {
+    name: 'har_to_spec',
+    description: 'Infer an OpenAPI spec from recorded HAR traffic: requests are clustered into path templates with {id}-style parameters, and query, body and response schemas are inferred from the observed values. The parsed spec feeds generate_tool_schemas and generate_server_scaffold.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        har: {
+          type: ['string', 'object'],
+          description: 'HAR capture as JSON string or object',
+        },
+        base_url: {
+          type: 'string',
+          description: 'Only convert requests under this URL, with paths relative to it (default: the most requested origin)',
+        },
+        title: {
+          type: 'string',
+          description: 'API title for the inferred spec',
+        },
+        include_openapi: {
+          type: 'boolean',
+          description: 'Also return the inferred OpenAPI 3.0 document (default: false)',
+        },
+      },
+      required: ['har'],
+    },
+  },
+  {
+    name: 'openapi_export',
+    description: 'Serialize a parsed spec (e.g. after filtering, merging or overlays) back to an OpenAPI 3.0 or 3.1 document as JSON or YAML. The result parses back to the same parsed spec.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parsed_spec: {
+          type: 'object',
+          description: 'Parsed OpenAPI spec from openapi_parse (or pass spec_id)',
+        },
+        spec_id: {
+          type: 'string',
+          description: 'meta.spec_id from openapi_parse, used instead of sending parsed_spec back',
+        },
+        openapi_version: {
+          type: 'string',
+          enum: ['3.0', '3.1'],
+          description: 'OpenAPI version to emit (default: the parsed spec\'s own version line)',
+        },
+        format: {
+          type: 'string',
+          enum: ['json', 'yaml'],
+          description: 'Output format (default: json)',
+        },
+      },
+    },
+  },
+  {
+    name: 'openapi_merge',
+    description: 'Merge several parsed specs into one, e.g. to put one MCP server in front of several microservices. Operation ids, component schemas and security schemes are prefixed with each source\'s namespace, operations keep their own servers and security, and clashes that had to be resolved are reported.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        sources: {
+          type: 'array',
+          description: 'Specs to merge, in priority order',
+          items: {
+            type: 'object',
+            properties: {
+              namespace: {
+                type: 'string',
+                description: 'Prefix for this source\'s names (default: derived from its title)',
+              },
+              parsed_spec: {
+                type: 'object',
+                description: 'Parsed spec from openapi_parse (or pass spec_id)',
+              },
+              spec_id: {
+                type: 'string',
+                description: 'meta.spec_id from openapi_parse',
+              },
+            },
+          },
+        },
+        title: {
+          type: 'string',
+          description: 'Title of the merged spec (default: the source titles joined)',
+        },
+        version: {
+          type: 'string',
+          description: 'Version of the merged spec (default: 1.0.0)',
+        },
+      },
+      required: ['sources'],
+    },
+  },
+  {
+    name: 'openapi_search',
+    description: 'Find the operations in a parsed spec that best match a free-text question such as "which endpoint creates a refund?". Ranks operations by keyword relevance across operation ids, paths, summaries, descriptions, tags and parameter names, and returns compact hits with method, path and tool name.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        parsed_spec: {
+          type: 'object',
+          description: 'Parsed OpenAPI spec from openapi_parse (or pass spec_id)',
+        },
+        spec_id: {
+          type: 'string',
+          description: 'meta.spec_id from openapi_parse, used instead of sending parsed_spec back',
+        },
+        query: {
+          type: 'string',
+          description: 'Free-text search query',
+        },
+        limit: {
+          type: 'number',
+          description: 'Most hits returned (default: 10)',
+        },
+        ...toolNamingProperties,
+      },
+      required: ['query'],
+    },
+  },
   {
     name: 'generate_tool_schemas',
     description: 'Generate MCP tool definitions from parsed OpenAPI spec',
@@ -28,10 +369,30 @@ const toolDefinitions = [
       properties: {
         parsed_spec: {
           type: 'object',
-          description: 'Parsed OpenAPI spec from openapi_parse tool',
+          description: 'Parsed OpenAPI spec from openapi_parse tool (or pass spec_id)',
+        },
+        spec_id: {
+          type: 'string',
+          description: 'meta.spec_id from openapi_parse, used instead of sending parsed_spec back',
+        },
+        options: {
+          type: 'object',
+          description: 'Optional tool schema generation options',
+          properties: {
+            circular_refs: {
+              type: 'string',
+              enum: ['defs', 'truncate'],
+              description: 'How to emit recursive schemas: as $defs/$ref (default) or truncated at max_depth',
+            },
+            max_depth: {
+              type: 'number',
+              description: 'Nested schema refs followed before truncating a recursive schema (default: 5)',
+            },
+            ...operationFilterProperties,
+            ...toolNamingProperties,
+          },
         },
       },
-      required: ['parsed_spec'],
     },
   },
   {
@@ -42,7 +403,11 @@ const toolDefinitions = [
       properties: {
         parsed_spec: {
           type: 'object',
-          description: 'Parsed OpenAPI spec from openapi_parse tool',
+          description: 'Parsed OpenAPI spec from openapi_parse tool (or pass spec_id)',
+        },
+        spec_id: {
+          type: 'string',
+          description: 'meta.spec_id from openapi_parse, used instead of sending parsed_spec back',
         },
         language: {
           type: 'string',
@@ -71,16 +436,60 @@ const toolDefinitions = [
             },
             base_url: {
               type: 'string',
-              description: 'Base URL for API calls',
+              description: 'Base URL for API calls, replacing the spec\'s servers',
+            },
+            server: {
+              type: ['string', 'number'],
+              description: 'Server to call: an environment name matched against server descriptions and URLs (e.g. "staging"), or an index into servers (default: the first server)',
+            },
+            server_variables: {
+              type: 'object',
+              additionalProperties: { type: 'string' },
+              description: 'Values for the server URL variables, overriding their defaults. Values must be in the variable\'s enum when it has one',
+            },
+            include_webhooks: {
+              type: 'boolean',
+              description: 'Emit a POST /webhooks/<event> receiver that validates webhook and callback payloads (default: false)',
             },
+            ...operationFilterProperties,
+            ...toolNamingProperties,
           },
         },
       },
-      required: ['parsed_spec', 'language'],
+      required: ['language'],
     },
   },
 ];
 
+/**
+ * Tool result for a call with missing or invalid arguments
+ */
+function invalidInputResponse(id: JsonRpcRequest['id'], message: string): JsonRpcResponse {
+  return {
+    jsonrpc: '2.0',
+    id,
+    result: {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(errorResponse('INVALID_INPUT', message), null, 2),
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Tool naming options given as top-level call arguments
+ */
+function toolNamingArgs(args: Record<string, unknown> | undefined): ToolNamingOptions {
+  return {
+    naming: args?.naming as ToolNamingOptions['naming'],
+    name_template: args?.name_template as string | undefined,
+    name_prefix: args?.name_prefix as string | undefined,
+  };
+}
+
 /**
  * Handle a single JSON-RPC request
  */
@@ -126,113 +535,145 @@ async function handleJsonRpcRequest(request: JsonRpcRequest): Promise<JsonRpcRes
           case 'openapi_parse': {
             const specUrlOrJson = args?.spec_url_or_json as string;
             if (!specUrlOrJson) {
-              return {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify({
-                        ok: false,
-                        error: {
-                          code: 'INVALID_INPUT',
-                          message: 'spec_url_or_json is required',
-                          details: {},
-                        },
-                        meta: { retrieved_at: new Date().toISOString() },
-                      }, null, 2),
-                    },
-                  ],
-                },
-              };
+              return invalidInputResponse(id, 'spec_url_or_json is required');
+            }
+            const parseOptions = {
+              convert_swagger2: args?.convert_swagger2 as boolean | undefined,
+              files: args?.files as Record<string, string> | undefined,
+              entry_file: args?.entry_file as string | undefined,
+              preserve_refs: args?.preserve_refs as boolean | undefined,
+              page_size: args?.page_size as number | undefined,
+              cursor: args?.cursor as string | undefined,
+              overlays: args?.overlays as (string | Record<string, unknown>)[] | undefined,
+              fetch: args?.fetch as FetchOptions | undefined,
+            };
+            result = args?.summary_only
+              ? await openapiParseSummary(specUrlOrJson, parseOptions)
+              : await openapiParse(specUrlOrJson, parseOptions);
+            break;
+          }
+
+          case 'openapi_lint': {
+            const specUrlOrJson = args?.spec_url_or_json as string;
+            if (!specUrlOrJson) {
+              return invalidInputResponse(id, 'spec_url_or_json is required');
+            }
+            result = await openapiLint(specUrlOrJson, {
+              convert_swagger2: args?.convert_swagger2 as boolean | undefined,
+              files: args?.files as Record<string, string> | undefined,
+              entry_file: args?.entry_file as string | undefined,
+            });
+            break;
+          }
+
+          case 'openapi_diff': {
+            const base = args?.base as string | ParsedOpenAPISpec | undefined;
+            const revision = args?.revision as string | ParsedOpenAPISpec | undefined;
+            if (!base || !revision) {
+              return invalidInputResponse(id, 'base and revision are required');
+            }
+            result = await openapiDiff(base, revision, {
+              convert_swagger2: args?.convert_swagger2 as boolean | undefined,
+              ...toolNamingArgs(args),
+            });
+            break;
+          }
+
+          case 'graphql_import': {
+            const schema = args?.schema as string | Record<string, unknown> | undefined;
+            if (!schema) {
+              return invalidInputResponse(id, 'schema is required');
+            }
+            result = await graphqlImport(schema, {
+              endpoint: args?.endpoint as string | undefined,
+              title: args?.title as string | undefined,
+              selection_depth: args?.selection_depth as number | undefined,
+            });
+            break;
+          }
+
+          case 'har_to_spec': {
+            const har = args?.har as string | Record<string, unknown> | undefined;
+            if (!har) {
+              return invalidInputResponse(id, 'har is required');
+            }
+            result = await harToSpec(har, {
+              base_url: args?.base_url as string | undefined,
+              title: args?.title as string | undefined,
+              include_openapi: args?.include_openapi as boolean | undefined,
+            });
+            break;
+          }
+
+          case 'openapi_export': {
+            if (!args?.parsed_spec && !args?.spec_id) {
+              return invalidInputResponse(id, 'parsed_spec or spec_id is required');
+            }
+            const parsedSpec = await resolveParsedSpec(args.spec_id, args.parsed_spec);
+            result = parsedSpec.ok
+              ? await openapiExport(parsedSpec.data, {
+                  openapi_version: args.openapi_version as ExportOptions['openapi_version'],
+                  format: args.format as ExportOptions['format'],
+                })
+              : parsedSpec;
+            break;
+          }
+
+          case 'openapi_merge': {
+            const sources = args?.sources as MergeSource[] | undefined;
+            if (!Array.isArray(sources) || sources.length === 0) {
+              return invalidInputResponse(id, 'sources must be a non-empty array');
+            }
+            result = await mergeSpecs(sources, {
+              title: args?.title as string | undefined,
+              version: args?.version as string | undefined,
+            });
+            break;
+          }
+
+          case 'openapi_search': {
+            if (!args?.parsed_spec && !args?.spec_id) {
+              return invalidInputResponse(id, 'parsed_spec or spec_id is required');
+            }
+            if (typeof args.query !== 'string' || !args.query.trim()) {
+              return invalidInputResponse(id, 'query is required');
             }
-            result = await openapiParse(specUrlOrJson);
+            const parsedSpec = await resolveParsedSpec(args.spec_id, args.parsed_spec);
+            result = parsedSpec.ok
+              ? openapiSearch(parsedSpec.data, args.query, { limit: args.limit as number | undefined, ...toolNamingArgs(args) })
+              : parsedSpec;
             break;
           }
 
           case 'generate_tool_schemas': {
-            const parsedSpec = args?.parsed_spec as ParsedOpenAPISpec;
-            if (!parsedSpec) {
-              return {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify({
-                        ok: false,
-                        error: {
-                          code: 'INVALID_INPUT',
-                          message: 'parsed_spec is required',
-                          details: {},
-                        },
-                        meta: { retrieved_at: new Date().toISOString() },
-                      }, null, 2),
-                    },
-                  ],
-                },
-              };
+            if (!args?.parsed_spec && !args?.spec_id) {
+              return invalidInputResponse(id, 'parsed_spec or spec_id is required');
             }
-            result = generateToolSchemas(parsedSpec);
+            const parsedSpec = await resolveParsedSpec(args.spec_id, args.parsed_spec);
+            result = parsedSpec.ok
+              ? generateToolSchemas(parsedSpec.data, args.options as ToolSchemaOptions | undefined)
+              : parsedSpec;
             break;
           }
 
           case 'generate_server_scaffold': {
-            const { parsed_spec: parsedSpec, language, options } = args as {
-              parsed_spec: ParsedOpenAPISpec;
+            const { parsed_spec: inlineSpec, spec_id: specId, language, options } = args as {
+              parsed_spec?: ParsedOpenAPISpec;
+              spec_id?: string;
               language: 'typescript' | 'python';
               options?: ScaffoldOptions;
             };
 
-            if (!parsedSpec) {
-              return {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify({
-                        ok: false,
-                        error: {
-                          code: 'INVALID_INPUT',
-                          message: 'parsed_spec is required',
-                          details: {},
-                        },
-                        meta: { retrieved_at: new Date().toISOString() },
-                      }, null, 2),
-                    },
-                  ],
-                },
-              };
+            if (!inlineSpec && !specId) {
+              return invalidInputResponse(id, 'parsed_spec or spec_id is required');
             }
 
             if (!language || !['typescript', 'python'].includes(language)) {
-              return {
-                jsonrpc: '2.0',
-                id,
-                result: {
-                  content: [
-                    {
-                      type: 'text',
-                      text: JSON.stringify({
-                        ok: false,
-                        error: {
-                          code: 'INVALID_INPUT',
-                          message: 'language must be "typescript" or "python"',
-                          details: {},
-                        },
-                        meta: { retrieved_at: new Date().toISOString() },
-                      }, null, 2),
-                    },
-                  ],
-                },
-              };
+              return invalidInputResponse(id, 'language must be "typescript" or "python"');
             }
 
-            result = generateServerScaffold(parsedSpec, language, options);
+            const parsedSpec = await resolveParsedSpec(specId, inlineSpec);
+            result = parsedSpec.ok ? generateServerScaffold(parsedSpec.data, language, options) : parsedSpec;
             break;
           }
 
@@ -29,6 +29,10 @@ export interface ResponseMeta {
   pagination?: {
     next_cursor: string | null;
   };
+  /** Handle of the cached parsed spec, accepted by the generators in place of parsed_spec */
+  spec_id?: string;
+  /** Outcome of each overlay applied before parsing */
+  overlays?: OverlayReport[];
   warnings: string[];
 }
 
@@ -54,6 +58,8 @@ export interface ParsedOpenAPISpec {
   paths: ParsedPath[];
   schemas: Record<string, ParsedSchema>;
   security_schemes: Record<string, ParsedSecurityScheme>;
+  security?: ParsedSecurityRequirement[];
+  webhooks?: ParsedWebhook[];
 }
 
 export interface ParsedServer {
@@ -71,6 +77,23 @@ export interface ParsedPath {
   operations: ParsedOperation[];
 }
 
+/**
+ * Incoming request the API sends to subscribers (OpenAPI 3.1 webhooks)
+ */
+export interface ParsedWebhook {
+  name: string;
+  operations: ParsedOperation[];
+}
+
+/**
+ * Out-of-band request the API sends in response to an operation
+ */
+export interface ParsedCallback {
+  name: string;
+  expression: string;
+  operations: ParsedOperation[];
+}
+
 export interface ParsedOperation {
   method: string;
   operation_id: string;
@@ -80,8 +103,14 @@ export interface ParsedOperation {
   parameters: ParsedParameter[];
   request_body?: ParsedRequestBody;
   responses: ParsedResponse[];
+  /** Effective security: the operation's own, else the spec-level default. [] means public */
   security?: ParsedSecurityRequirement[];
+  /** Effective servers: the operation's own, else the path's, else the spec-level list */
+  servers?: ParsedServer[];
+  callbacks?: ParsedCallback[];
   deprecated?: boolean;
+  /** Vendor extensions (x-*) declared on the operation */
+  extensions?: Record<string, unknown>;
 }
 
 export interface ParsedParameter {
@@ -91,6 +120,33 @@ export interface ParsedParameter {
   required: boolean;
   deprecated?: boolean;
   schema: ParsedSchema;
+  style?: ParameterStyle;
+  explode?: boolean;
+  allow_reserved?: boolean;
+  allow_empty_value?: boolean;
+  content?: Record<string, {
+    schema: ParsedSchema;
+  }>;
+  example?: unknown;
+  examples?: Record<string, ParsedExample>;
+  /** Vendor extensions (x-*) declared on the parameter */
+  extensions?: Record<string, unknown>;
+}
+
+export type ParameterStyle =
+  | 'matrix'
+  | 'label'
+  | 'form'
+  | 'simple'
+  | 'spaceDelimited'
+  | 'pipeDelimited'
+  | 'deepObject';
+
+export interface ParsedExample {
+  summary?: string;
+  description?: string;
+  value?: unknown;
+  external_value?: string;
 }
 
 export interface ParsedRequestBody {
@@ -108,32 +164,65 @@ export interface ParsedResponse {
     schema: ParsedSchema;
   }>;
   headers?: Record<string, ParsedParameter>;
+  links?: Record<string, ParsedLink>;
+}
+
+export interface ParsedLink {
+  operation_id?: string;
+  operation_ref?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+  request_body?: unknown;
+  server?: ParsedServer;
 }
 
 export interface ParsedSchema {
-  type?: string;
+  type?: string | string[];
   format?: string;
   description?: string;
   properties?: Record<string, ParsedSchema>;
   items?: ParsedSchema;
+  prefixItems?: ParsedSchema[];
   required?: string[];
-  enum?: (string | number | boolean)[];
+  enum?: SchemaEnumValue[];
+  const?: unknown;
   default?: unknown;
   nullable?: boolean;
   oneOf?: ParsedSchema[];
   anyOf?: ParsedSchema[];
   allOf?: ParsedSchema[];
+  not?: ParsedSchema;
+  if?: ParsedSchema;
+  then?: ParsedSchema;
+  else?: ParsedSchema;
   additionalProperties?: boolean | ParsedSchema;
+  dependentRequired?: Record<string, string[]>;
+  $defs?: Record<string, ParsedSchema>;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  contentEncoding?: string;
+  contentMediaType?: string;
   example?: unknown;
+  examples?: unknown[];
   $ref?: string;
   title?: string;
+  /** Vendor extensions (x-*) declared on the schema */
+  extensions?: Record<string, unknown>;
 }
 
+export type SchemaEnumValue = string | number | boolean | null;
+
 export interface ParsedSecurityScheme {
   type: string;
   description?: string;
@@ -164,44 +253,430 @@ export interface MCPToolSchema {
     type: 'object';
     properties: Record<string, JSONSchema>;
     required: string[];
+    $defs?: Record<string, JSONSchema>;
   };
 }
 
 export interface JSONSchema {
-  type?: string;
+  type?: string | string[];
   description?: string;
   properties?: Record<string, JSONSchema>;
   items?: JSONSchema;
+  prefixItems?: JSONSchema[];
   required?: string[];
-  enum?: (string | number | boolean)[];
+  enum?: SchemaEnumValue[];
+  const?: unknown;
   default?: unknown;
+  examples?: unknown[];
   format?: string;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
   oneOf?: JSONSchema[];
   anyOf?: JSONSchema[];
   allOf?: JSONSchema[];
+  not?: JSONSchema;
+  if?: JSONSchema;
+  then?: JSONSchema;
+  else?: JSONSchema;
   additionalProperties?: boolean | JSONSchema;
+  dependentRequired?: Record<string, string[]>;
+  $defs?: Record<string, JSONSchema>;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  contentEncoding?: string;
+  contentMediaType?: string;
+  $ref?: string;
+}
+
+/**
+ * Criteria matched against operations. Within a list any entry may match
+ */
+export interface OperationFilter {
+  tags?: string[];
+  /** Path globs: '*' matches within a segment, '**' across segments */
+  paths?: string[];
+  methods?: string[];
+  /** Glob matched against the whole operation ID: '*' matches any run, '?' one character */
+  operation_id?: string;
+}
+
+/**
+ * Which operations become tools. An operation must match every criterion
+ * given in `include` and none of those given in `exclude`
+ */
+export interface OperationFilterOptions {
+  include?: OperationFilter;
+  exclude?: OperationFilter;
+  exclude_deprecated?: boolean;
+}
+
+/**
+ * An operation left out of tool generation, and why
+ */
+export interface FilteredOperation {
+  operation: string;
+  operation_id: string;
+  reason: string;
+}
+
+/**
+ * How tool names are derived from operations:
+ * - operation_id: the operation ID, lowercased
+ * - snake_case: the operation ID split into words, e.g. list_customer_sources
+ * - verb_noun: a verb from the method and the resource from the path, e.g. list_customers, get_customer
+ * - summary: the words of the summary, e.g. refund_charge
+ * - template: name_template with placeholders filled in
+ */
+export type ToolNamingStrategy = 'operation_id' | 'snake_case' | 'verb_noun' | 'summary' | 'template';
+
+/**
+ * How generated tools are named. x-mcp-name on an operation takes precedence
+ * over the strategy, but still gets the prefix
+ */
+export interface ToolNamingOptions {
+  /** Naming strategy (default: 'operation_id', or 'template' when name_template is set) */
+  naming?: ToolNamingStrategy;
+  /** Name pattern for the 'template' strategy, e.g. '{tag}_{operationId}'. Placeholders: {operationId}, {method}, {tag}, {path} */
+  name_template?: string;
+  /** Namespace prepended to every tool name, e.g. 'billing' gives 'billing_list_invoices' */
+  name_prefix?: string;
+}
+
+/**
+ * Tool schema generation options
+ */
+export interface ToolSchemaOptions extends OperationFilterOptions, ToolNamingOptions {
+  circular_refs?: 'defs' | 'truncate';
+  max_depth?: number;
+}
+
+/**
+ * Tool schemas generated from a parsed spec
+ */
+export interface GeneratedToolSchemas {
+  tools: MCPToolSchema[];
+  summary: {
+    total_tools: number;
+    by_tag: Record<string, number>;
+    filtered_out: number;
+    filtered: FilteredOperation[];
+  };
+}
+
+/**
+ * Spec parsing options
+ */
+export interface ParseOptions {
+  convert_swagger2?: boolean;
+  files?: Record<string, string>;
+  entry_file?: string;
+  preserve_refs?: boolean;
+  /** Operations per page; enables paging when set */
+  page_size?: number;
+  /** next_cursor from the previous page */
+  cursor?: string;
+  /** OpenAPI Overlay 1.0 documents (JSON/YAML strings or objects) applied in order before parsing */
+  overlays?: (string | Record<string, unknown>)[];
+  /** Credentials and limits for fetching a spec given as a URL, and the files it references */
+  fetch?: FetchOptions;
+}
+
+/**
+ * Credentials and limits for fetching specs over HTTP
+ */
+export interface FetchOptions {
+  /** Request headers such as Authorization, sent only to the spec URL's origin */
+  headers?: Record<string, string>;
+  /** Time allowed for fetching the spec and every file it references, in milliseconds (default: 30000) */
+  timeout_ms?: number;
+  /** Largest total size of the fetched files, in bytes (default: 10 MiB) */
+  max_bytes?: number;
+  /** Redirects followed per request (default: 5) */
+  max_redirects?: number;
+  /** Only these hosts may be fetched; '*.example.com' also matches subdomains */
+  allow_hosts?: string[];
+  /** Hosts that are never fetched, matched like allow_hosts */
+  deny_hosts?: string[];
+  /** Fetch from loopback, private and link-local addresses. Hosts listed in allow_hosts are always allowed (default: false) */
+  allow_private_network?: boolean;
+}
+
+/**
+ * Outcome of applying one overlay document
+ */
+export interface OverlayReport {
+  title?: string;
+  applied_actions: number;
+  /** Actions whose target selected no nodes */
+  unmatched_actions: {
+    index: number;
+    target: string;
+    description?: string;
+  }[];
+}
+
+/**
+ * Paging options for parsed operations
+ */
+export type PageOptions = Pick<ParseOptions, 'page_size' | 'cursor'>;
+
+/**
+ * An operation listed without its parameters or schemas
+ */
+export interface ParsedOperationSummary {
+  method: string;
+  path: string;
+  operation_id: string;
+  summary?: string;
+  tags?: string[];
+  deprecated?: boolean;
+}
+
+/**
+ * Outline of a parsed spec for walking large APIs before fetching details
+ */
+export interface ParsedSpecSummary {
+  openapi_version: string;
+  info: ParsedOpenAPISpec['info'];
+  servers: ParsedServer[];
+  total_operations: number;
+  operations: ParsedOperationSummary[];
+}
+
+/**
+ * Parsed spec cache settings
+ */
+export interface SpecCacheOptions {
+  /** Seconds an entry is kept after it was last used */
+  ttl_seconds?: number;
+  /** Upper bound on the serialized size of all in-memory entries */
+  max_bytes?: number;
+  /** Directory to also persist entries in, so they survive restarts */
+  directory?: string;
+  /** Upper bound on the size of all entries in the directory */
+  max_disk_bytes?: number;
+}
+
+/**
+ * GraphQL schema import options
+ */
+export interface GraphQLImportOptions {
+  /** URL of the GraphQL endpoint the generated tools POST to (default: /graphql) */
+  endpoint?: string;
+  title?: string;
+  /** Levels of nested object fields included in generated selection sets (default: 2) */
+  selection_depth?: number;
+}
+
+/**
+ * HAR traffic import options
+ */
+export interface HarToSpecOptions {
+  /** Only requests under this URL are kept, with paths relative to it (default: the most requested origin) */
+  base_url?: string;
+  title?: string;
+  /** Also return the inferred OpenAPI 3.0 document */
+  include_openapi?: boolean;
+}
+
+/**
+ * Spec inferred from recorded HAR traffic
+ */
+export interface HarToSpecResult {
+  parsed_spec: ParsedOpenAPISpec;
+  openapi?: OpenAPIV3.Document;
+}
+
+/**
+ * OpenAPI export options
+ */
+export interface ExportOptions {
+  /** OpenAPI version to emit (default: the parsed spec's own version line) */
+  openapi_version?: '3.0' | '3.1';
+  format?: 'json' | 'yaml';
+}
+
+/**
+ * A parsed spec serialized back to an OpenAPI document
+ */
+export interface ExportedOpenAPI {
+  openapi_version: string;
+  format: 'json' | 'yaml';
+  content: string;
+}
+
+/**
+ * One spec to merge, given inline or by spec_id
+ */
+export interface MergeSource {
+  /** Prefix for the source's operation ids, schemas and security schemes (default: from its title) */
+  namespace?: string;
+  parsed_spec?: ParsedOpenAPISpec;
+  spec_id?: string;
+}
+
+/**
+ * Spec merge options
+ */
+export interface MergeOptions {
+  title?: string;
+  version?: string;
+}
+
+/**
+ * A clash between sources that the merge resolved
+ */
+export interface MergeConflict {
+  kind: 'namespace' | 'operation_id' | 'schema' | 'security_scheme' | 'webhook' | 'operation' | 'openapi_version';
+  /** The clashing name, e.g. an operation id or "GET /users" */
+  name: string;
+  /** Namespaces of the sources involved */
+  sources: string[];
+  resolution: string;
+}
+
+/**
+ * Several specs merged into one
+ */
+export interface MergedSpec {
+  parsed_spec: ParsedOpenAPISpec;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Operation search options
+ */
+export interface SearchOptions extends ToolNamingOptions {
+  /** Most hits returned (default: 10) */
+  limit?: number;
+}
+
+/**
+ * An operation matching a search query
+ */
+export interface SearchHit {
+  method: string;
+  path: string;
+  operation_id: string;
+  /** Name of the tool generate_tool_schemas emits for the operation */
+  tool_name: string;
+  summary?: string;
+  score: number;
+  /** Query terms found in the operation */
+  matched_terms: string[];
+}
+
+/**
+ * Operations ranked by relevance to a query
+ */
+export interface SearchResult {
+  query: string;
+  hits: SearchHit[];
+  total_operations: number;
+}
+
+/**
+ * Spec linting options
+ */
+export type LintOptions = Pick<ParseOptions, 'convert_swagger2' | 'files' | 'entry_file'>;
+
+export type LintSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * A lint finding, located by JSON pointer into the spec document
+ */
+export interface LintDiagnostic {
+  severity: LintSeverity;
+  rule: string;
+  pointer: string;
+  message: string;
+}
+
+export interface LintResult {
+  diagnostics: LintDiagnostic[];
+  summary: {
+    total: number;
+    errors: number;
+    warnings: number;
+    infos: number;
+  };
+}
+
+/**
+ * Spec diff options, applied when either side is given as a raw spec
+ */
+export type DiffOptions = Pick<ParseOptions, 'convert_swagger2'> & ToolNamingOptions;
+
+export type DiffChangeKind =
+  | 'operation_added'
+  | 'operation_removed'
+  | 'tool_renamed'
+  | 'property_added'
+  | 'property_removed'
+  | 'property_required'
+  | 'property_optional'
+  | 'type_changed'
+  | 'enum_value_added'
+  | 'enum_value_removed'
+  | 'response_added'
+  | 'response_removed';
+
+/**
+ * A change between two spec versions. Input changes are measured against the
+ * generated tool input schema; response changes against the parsed response schema
+ */
+export interface DiffChange {
+  kind: DiffChangeKind;
+  breaking: boolean;
+  scope: 'operation' | 'input' | 'response';
+  operation: string;
+  tool: string;
+  status?: string;
+  location?: string;
+  message: string;
+}
+
+export interface DiffResult {
+  changes: DiffChange[];
+  summary: {
+    breaking: number;
+    non_breaking: number;
+    operations_added: number;
+    operations_removed: number;
+    operations_changed: number;
+  };
 }
 
 /**
  * Scaffold generation options
  */
-export interface ScaffoldOptions {
+export interface ScaffoldOptions extends OperationFilterOptions, ToolNamingOptions {
   server_name?: string;
   server_version?: string;
   author?: string;
   include_tests?: boolean;
   base_url?: string;
+  /** Server to call: an environment name matched against server descriptions and URLs (e.g. 'staging'), or an index into servers */
+  server?: string | number;
+  /** Values for the selected server's URL variables, overriding their defaults */
+  server_variables?: Record<string, string>;
+  include_webhooks?: boolean;
 }
 
 export interface GeneratedScaffold {
   files: GeneratedFile[];
   language: 'typescript' | 'python';
   tool_count: number;
+  filtered: FilteredOperation[];
 }
 
 export interface GeneratedFile {
@@ -232,6 +707,15 @@ export function isOpenAPIV3(spec: unknown): spec is OpenAPIV3.Document {
   );
 }
 
+/**
+ * Check whether a schema admits a type, whether its `type` is one name or,
+ * as OpenAPI 3.1 allows, a list of them such as ["object", "null"]
+ */
+export function hasType(schema: object, type: string): boolean {
+  const types = (schema as { type?: unknown }).type;
+  return Array.isArray(types) ? types.includes(type) : types === type;
+}
+
 export function isOpenAPIV3_1(spec: unknown): spec is OpenAPIV3_1.Document {
   return (
     typeof spec === 'object' &&
@@ -122,6 +122,13 @@ describe('HTTP Transport - /mcp endpoint (stateless)', () => {
     // Verify expected tools are present
     const toolNames = body.result.tools.map((t) => t.name);
     expect(toolNames).toContain('openapi_parse');
+    expect(toolNames).toContain('openapi_lint');
+    expect(toolNames).toContain('openapi_diff');
+    expect(toolNames).toContain('graphql_import');
+    expect(toolNames).toContain('har_to_spec');
+    expect(toolNames).toContain('openapi_export');
+    expect(toolNames).toContain('openapi_merge');
+    expect(toolNames).toContain('openapi_search');
     expect(toolNames).toContain('generate_tool_schemas');
     expect(toolNames).toContain('generate_server_scaffold');
   });
@@ -141,6 +148,76 @@ describe('HTTP Transport - /mcp endpoint (stateless)', () => {
     expect(openapiParseTool!.inputSchema.required).toContain('spec_url_or_json');
   });
 
+  it('should lint a spec through tools/call', async () => {
+    const response = await sendMcpRequest(TEST_PORT, 'tools/call', {
+      name: 'openapi_lint',
+      arguments: {
+        spec_url_or_json: JSON.stringify({
+          openapi: '3.0.3',
+          info: { title: 'Lint API', version: '1.0.0' },
+          paths: { '/ping': { get: { responses: { '200': { description: 'OK' } } } } },
+        }),
+      },
+    });
+
+    expect(response.status).toBe(200);
+    const body = response.body as { result: { content: Array<{ text: string }> } };
+    const result = JSON.parse(body.result.content[0].text);
+    expect(result.ok).toBe(true);
+    expect(result.data.diagnostics.map((d: { rule: string }) => d.rule)).toContain('operation-operation-id');
+  });
+
+  it('should page parsed operations through tools/call', async () => {
+    const response = await sendMcpRequest(TEST_PORT, 'tools/call', {
+      name: 'openapi_parse',
+      arguments: {
+        spec_url_or_json: JSON.stringify({
+          openapi: '3.0.3',
+          info: { title: 'Paged API', version: '1.0.0' },
+          paths: {
+            '/a': { get: { operationId: 'getA', responses: { '200': { description: 'OK' } } } },
+            '/b': { get: { operationId: 'getB', responses: { '200': { description: 'OK' } } } },
+          },
+        }),
+        page_size: 1,
+        summary_only: true,
+      },
+    });
+
+    expect(response.status).toBe(200);
+    const body = response.body as { result: { content: Array<{ text: string }> } };
+    const result = JSON.parse(body.result.content[0].text);
+    expect(result.ok).toBe(true);
+    expect(result.data.operations).toEqual([{ method: 'GET', path: '/a', operation_id: 'getA' }]);
+    expect(result.meta.pagination.next_cursor).toEqual(expect.any(String));
+  });
+
+  it('should generate tool schemas from a cached spec_id', async () => {
+    const parseResponse = await sendMcpRequest(TEST_PORT, 'tools/call', {
+      name: 'openapi_parse',
+      arguments: {
+        spec_url_or_json: JSON.stringify({
+          openapi: '3.0.3',
+          info: { title: 'Cached API', version: '1.0.0' },
+          paths: { '/ping': { get: { operationId: 'ping', responses: { '200': { description: 'OK' } } } } },
+        }),
+      },
+    });
+    const parseBody = parseResponse.body as { result: { content: Array<{ text: string }> } };
+    const specId = JSON.parse(parseBody.result.content[0].text).meta.spec_id;
+    expect(specId).toEqual(expect.any(String));
+
+    const response = await sendMcpRequest(TEST_PORT, 'tools/call', {
+      name: 'generate_tool_schemas',
+      arguments: { spec_id: specId },
+    });
+
+    const body = response.body as { result: { content: Array<{ text: string }> } };
+    const result = JSON.parse(body.result.content[0].text);
+    expect(result.ok).toBe(true);
+    expect(result.data.tools.map((t: { name: string }) => t.name)).toEqual(['ping']);
+  });
+
   it('should handle unknown method gracefully', async () => {
     const response = await sendMcpRequest(TEST_PORT, 'unknown/method', {});
 
@@ -1,8 +1,24 @@
-import { describe, it, expect } from 'vitest';
-import { openapiParse, generateOperationId } from '../../src/tools/parse.js';
+import { describe, it, expect, afterEach, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, mkdir, readdir, writeFile, rm, utimes } from 'fs/promises';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import yaml from 'js-yaml';
+import { dirname, join } from 'path';
+import { openapiParse, openapiParseSummary, generateOperationId } from '../../src/tools/parse.js';
+import { convertSwagger2 } from '../../src/tools/swagger2.js';
+import { configureSpecRoot } from '../../src/tools/bundle.js';
+import { configureSpecCache, getCachedSpec, resolveParsedSpec } from '../../src/tools/cache.js';
+import { openapiLint } from '../../src/tools/lint.js';
+import { openapiDiff } from '../../src/tools/diff.js';
+import { graphqlImport } from '../../src/tools/graphql.js';
+import { harToSpec } from '../../src/tools/har.js';
+import { openapiExport } from '../../src/tools/export.js';
+import { mergeSpecs } from '../../src/tools/merge.js';
+import { openapiSearch } from '../../src/tools/search.js';
 import { generateToolSchemas, sanitizeToolName } from '../../src/tools/schemas.js';
 import { generateServerScaffold } from '../../src/tools/scaffold.js';
-import type { ParsedOpenAPISpec } from '../../src/types.js';
+import type { ParsedOpenAPISpec, ToolSchemaOptions } from '../../src/types.js';
 
 // Sample OpenAPI spec for testing
 const sampleOpenAPISpec = {
@@ -213,6 +229,2718 @@ describe('openapi_parse', () => {
   });
 });
 
+describe('openapi_parse YAML input', () => {
+  const yamlSpec = `openapi: 3.0.3
+info:
+  title: YAML API
+  version: 1.0.0
+paths:
+  /items:
+    get:
+      operationId: listItems
+      responses:
+        '200':
+          description: OK
+`;
+
+  it('should parse an inline YAML spec', async () => {
+    const result = await openapiParse(yamlSpec);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.info.title).toBe('YAML API');
+      expect(result.data.paths[0].operations[0].operation_id).toBe('listItems');
+      expect(result.meta.source).toBe('yaml_input');
+    }
+  });
+
+  it('should record json_input as the source for JSON specs', async () => {
+    const result = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.meta.source).toBe('json_input');
+    }
+  });
+
+  it('should parse a YAML flow mapping that starts with a brace', async () => {
+    const flowSpec = `{openapi: 3.0.3, info: {title: Flow API, version: 1.0.0},
+  paths: {/items: {get: {operationId: listItems, responses: {'200': {description: OK}}}}}}`;
+
+    const result = await openapiParse(flowSpec);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.info.title).toBe('Flow API');
+    expect(result.data.paths[0].operations[0].operation_id).toBe('listItems');
+    expect(result.meta.source).toBe('yaml_input');
+  });
+
+  it('should report the JSON error when brace input is neither JSON nor YAML', async () => {
+    const result = await openapiParse('{"openapi": "3.0.3", "info": {');
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('PARSE_ERROR');
+    expect(result.error.message).toBe('Invalid JSON provided');
+  });
+
+  it('should report YAML syntax errors with line and column', async () => {
+    const result = await openapiParse('openapi: 3.0.3\ninfo:\n  title: [unclosed\n  version: 1.0.0\n');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('PARSE_ERROR');
+      expect(result.error.details.line).toEqual(expect.any(Number));
+      expect(result.error.details.column).toEqual(expect.any(Number));
+    }
+  });
+});
+
+describe('openapi_parse Swagger 2.0 conversion', () => {
+  const swaggerSpec = {
+    swagger: '2.0',
+    info: { title: 'Legacy API', version: '1.0.0' },
+    host: 'api.legacy.example.com',
+    basePath: '/v1',
+    schemes: ['https'],
+    consumes: ['application/json'],
+    produces: ['application/json'],
+    paths: {
+      '/widgets': {
+        get: {
+          operationId: 'listWidgets',
+          parameters: [
+            { name: 'ids', in: 'query', type: 'array', items: { type: 'string' }, collectionFormat: 'tsv' },
+          ],
+          responses: {
+            '200': {
+              description: 'Widgets',
+              schema: { type: 'array', items: { $ref: '#/definitions/Widget' } },
+            },
+          },
+        },
+        post: {
+          operationId: 'createWidget',
+          parameters: [
+            { name: 'body', in: 'body', required: true, schema: { $ref: '#/definitions/Widget' } },
+          ],
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/widgets/{id}/image': {
+        put: {
+          operationId: 'uploadImage',
+          consumes: ['multipart/form-data'],
+          parameters: [
+            { name: 'id', in: 'path', required: true, type: 'string' },
+            { name: 'file', in: 'formData', required: true, type: 'file' },
+          ],
+          responses: { '204': { description: 'Uploaded' } },
+        },
+      },
+    },
+    definitions: {
+      Widget: {
+        type: 'object',
+        required: ['name'],
+        properties: { name: { type: 'string' }, color: { type: 'string', 'x-nullable': true } },
+      },
+    },
+    securityDefinitions: {
+      oauth: {
+        type: 'oauth2',
+        flow: 'application',
+        tokenUrl: 'https://auth.legacy.example.com/token',
+        scopes: { read: 'Read access' },
+      },
+    },
+  };
+
+  it('should reject Swagger 2.0 specs unless conversion is enabled', async () => {
+    const result = await openapiParse(JSON.stringify(swaggerSpec));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.details.provided_version).toBe('2.0');
+    }
+  });
+
+  it('should convert Swagger 2.0 specs into the parsed shape', async () => {
+    const result = await openapiParse(JSON.stringify(swaggerSpec), { convert_swagger2: true });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.openapi_version).toBe('3.0.3');
+    expect(result.data.servers[0].url).toBe('https://api.legacy.example.com/v1');
+    expect(result.data.schemas.Widget.properties?.color.nullable).toBe(true);
+    expect(result.data.security_schemes.oauth.flows?.clientCredentials?.token_url).toBe(
+      'https://auth.legacy.example.com/token'
+    );
+
+    const operations = result.data.paths.flatMap((p) => p.operations);
+    const createWidget = operations.find((op) => op.operation_id === 'createWidget');
+    expect(createWidget?.request_body?.required).toBe(true);
+    expect(createWidget?.request_body?.content['application/json'].schema.properties).toHaveProperty('name');
+
+    const uploadImage = operations.find((op) => op.operation_id === 'uploadImage');
+    const upload = uploadImage?.request_body?.content['multipart/form-data'].schema;
+    expect(upload?.properties?.file).toEqual({ type: 'string', format: 'binary' });
+    expect(upload?.required).toEqual(['file']);
+    expect(uploadImage?.parameters.map((p) => p.name)).toEqual(['id']);
+  });
+
+  it('should record lossy conversions in meta.warnings', async () => {
+    const result = await openapiParse(JSON.stringify(swaggerSpec), { convert_swagger2: true });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.meta.warnings[0]).toContain('Converted Swagger 2.0');
+      expect(result.meta.warnings.some((w) => w.includes("collectionFormat 'tsv'"))).toBe(true);
+    }
+  });
+
+  it('should carry vendor extensions over so x-mcp-* overrides still apply', async () => {
+    const extended = {
+      ...swaggerSpec,
+      'x-api-id': 'legacy',
+      paths: {
+        '/widgets': {
+          'x-owner': 'widgets-team',
+          get: { ...swaggerSpec.paths['/widgets'].get, 'x-mcp-name': 'find_widgets' },
+          post: { ...swaggerSpec.paths['/widgets'].post, 'x-mcp-hidden': true },
+        },
+        '/widgets/{id}/image': {
+          put: {
+            ...swaggerSpec.paths['/widgets/{id}/image'].put,
+            parameters: [
+              { name: 'id', in: 'path', required: true, type: 'string', 'x-mcp-param-description': 'Widget to update' },
+              { name: 'file', in: 'formData', required: true, type: 'file', 'x-mcp-param-description': 'PNG image' },
+            ],
+          },
+        },
+      },
+    };
+
+    const conversion = convertSwagger2(extended as unknown as Parameters<typeof convertSwagger2>[0]);
+    expect(conversion.spec).toHaveProperty('x-api-id', 'legacy');
+    expect(conversion.spec.paths['/widgets']).toHaveProperty('x-owner', 'widgets-team');
+
+    const parsed = await openapiParse(JSON.stringify(extended), { convert_swagger2: true });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const result = generateToolSchemas(parsed.data);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.tools.map((tool) => tool.name)).toEqual(['find_widgets', 'uploadimage']);
+    const upload = result.data.tools[1].inputSchema.properties;
+    expect(upload.id.description).toBe('Widget to update');
+    expect(upload.file.description).toBe('PNG image');
+  });
+});
+
+describe('openapi_parse remote fetching', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { url?: string; authorization?: string }[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests.push({ url: req.url, authorization: req.headers.authorization });
+      if (req.url === '/moved') {
+        res.writeHead(301, { location: '/private/openapi.json' });
+        res.end();
+      } else if (req.url === '/private/openapi.json') {
+        res.writeHead(req.headers.authorization === 'Bearer secret' ? 200 : 401);
+        res.end(JSON.stringify(sampleOpenAPISpec));
+      } else if (req.url === '/slow') {
+        setTimeout(() => res.end(JSON.stringify(sampleOpenAPISpec)), 500);
+      } else if (req.url === '/loop') {
+        res.writeHead(302, { location: '/loop' });
+        res.end();
+      } else if (req.url === '/schemas/pet.json') {
+        res.end(JSON.stringify({ type: 'object', properties: { name: { type: 'string' } } }));
+      } else {
+        res.end(JSON.stringify(sampleOpenAPISpec));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should send headers through redirects on the same origin', async () => {
+    const result = await openapiParse(`${baseUrl}/moved`, {
+      fetch: { headers: { Authorization: 'Bearer secret' }, allow_hosts: ['127.0.0.1'] },
+    });
+
+    expect(result.ok).toBe(true);
+    expect(requests.find((r) => r.url === '/private/openapi.json')?.authorization).toBe('Bearer secret');
+  });
+
+  it('should block private network addresses unless allowed', async () => {
+    const blocked = await openapiParse(`${baseUrl}/openapi.json`);
+    expect(blocked.ok).toBe(false);
+    if (!blocked.ok) {
+      expect(blocked.error.code).toBe('INVALID_INPUT');
+      expect(blocked.error.message).toContain('private network address');
+    }
+
+    const allowed = await openapiParse(`${baseUrl}/openapi.json`, { fetch: { allow_private_network: true } });
+    expect(allowed.ok).toBe(true);
+
+    const denied = await openapiParse(`${baseUrl}/openapi.json`, {
+      fetch: { allow_private_network: true, deny_hosts: ['127.0.0.1'] },
+    });
+    expect(denied.ok).toBe(false);
+  });
+
+  it('should enforce the timeout, size and redirect limits', async () => {
+    const fetch = { allow_private_network: true };
+
+    const slow = await openapiParse(`${baseUrl}/slow`, { fetch: { ...fetch, timeout_ms: 100 } });
+    expect(slow.ok).toBe(false);
+    if (!slow.ok) {
+      expect(slow.error.code).toBe('TIMEOUT');
+    }
+
+    const large = await openapiParse(`${baseUrl}/openapi.json`, { fetch: { ...fetch, max_bytes: 100 } });
+    expect(large.ok).toBe(false);
+    if (!large.ok) {
+      expect(large.error.message).toContain('max_bytes');
+    }
+
+    const loop = await openapiParse(`${baseUrl}/loop`, { fetch: { ...fetch, max_redirects: 2 } });
+    expect(loop.ok).toBe(false);
+    if (!loop.ok) {
+      expect(loop.error.message).toContain('redirected more than 2 times');
+    }
+  });
+
+  it('should fetch the remote refs of inline specs under the same rules', async () => {
+    const spec = JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Inline', version: '1.0.0' },
+      paths: {
+        '/pets': {
+          get: {
+            operationId: 'listPets',
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { $ref: `${baseUrl}/schemas/pet.json` } } },
+              },
+            },
+          },
+        },
+      },
+    });
+    requests.length = 0;
+
+    const blocked = await openapiParse(spec);
+    expect(blocked.ok).toBe(false);
+    if (!blocked.ok) {
+      expect(blocked.error.code).toBe('INVALID_INPUT');
+      expect(blocked.error.message).toContain('private network address');
+    }
+    expect(requests).toHaveLength(0);
+
+    const tooLarge = await openapiParse(spec, { fetch: { allow_private_network: true, max_bytes: 10 } });
+    expect(!tooLarge.ok && tooLarge.error.message).toContain('max_bytes');
+
+    // Without a spec URL, headers only go to hosts listed in allow_hosts
+    await openapiParse(spec, { fetch: { allow_private_network: true, headers: { Authorization: 'Bearer secret' } } });
+    expect(requests.at(-1)?.authorization).toBeUndefined();
+
+    const allowed = await openapiParse(spec, {
+      fetch: { allow_hosts: ['127.0.0.1'], headers: { Authorization: 'Bearer secret' } },
+    });
+    expect(allowed.ok).toBe(true);
+    expect(requests.at(-1)?.authorization).toBe('Bearer secret');
+    if (allowed.ok) {
+      const schema = allowed.data.paths[0].operations[0].responses[0].content?.['application/json'].schema;
+      expect(schema?.properties?.name.type).toBe('string');
+    }
+
+    // Refs to local files are never read for inline specs
+    const local = await openapiParse(spec.replace(`${baseUrl}/schemas/pet.json`, './package.json'));
+    expect(local.ok).toBe(false);
+  });
+});
+
+describe('openapi_parse overlays', () => {
+  const overlay = {
+    overlay: '1.0.0',
+    info: { title: 'Pet Store fixes', version: '1.0.0' },
+    actions: [
+      {
+        target: "$.paths['/pets/{petId}'].get.parameters[?(@.name == 'petId')].schema",
+        description: 'Pet IDs are numeric',
+        update: { type: 'integer', format: 'int64' },
+      },
+      {
+        target: '$.components.schemas.Pet.properties.species.enum',
+        update: 'hamster',
+      },
+      {
+        target: "$.paths.*[?@.operationId == 'createPet']",
+        remove: true,
+      },
+      {
+        target: '$.paths./owners',
+        description: 'Owners were dropped from the vendor spec',
+        update: { summary: 'Owners' },
+      },
+    ],
+  };
+
+  it('should apply update and remove actions before parsing', async () => {
+    const result = await openapiParse(JSON.stringify(sampleOpenAPISpec), { overlays: [overlay] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const pets = result.data.paths.find((p) => p.path === '/pets')!;
+    expect(pets.operations.map((op) => op.operation_id)).toEqual(['listPets']);
+
+    const getPet = result.data.paths.find((p) => p.path === '/pets/{petId}')!.operations[0];
+    expect(getPet.parameters[0].schema).toEqual({ type: 'integer', format: 'int64' });
+    expect(result.data.schemas.Pet.properties?.species.enum).toEqual(['dog', 'cat', 'bird', 'fish', 'hamster']);
+  });
+
+  it('should report actions that matched nothing', async () => {
+    const result = await openapiParse(JSON.stringify(sampleOpenAPISpec), { overlays: [overlay] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.meta.overlays).toEqual([{
+      title: 'Pet Store fixes',
+      applied_actions: 3,
+      unmatched_actions: [
+        { index: 3, target: '$.paths./owners', description: 'Owners were dropped from the vendor spec' },
+      ],
+    }]);
+    expect(result.meta.warnings).toContain("Overlay 'Pet Store fixes' action 3 ($.paths./owners) matched nothing");
+  });
+
+  it('should apply YAML overlays in order', async () => {
+    const rename = 'overlay: 1.0.0\nactions:\n  - target: $.info\n    update:\n      title: Renamed\n';
+    const suffix = {
+      overlay: '1.0.0',
+      actions: [{ target: '$.info.title', update: 'Renamed Again' }],
+    };
+    const result = await openapiParse(JSON.stringify(sampleOpenAPISpec), { overlays: [rename, suffix] });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.info.title).toBe('Renamed Again');
+  });
+
+  it('should reject documents that are not overlays', async () => {
+    const result = await openapiParse(JSON.stringify(sampleOpenAPISpec), {
+      overlays: [{ overlay: '2.0.0', actions: [{ target: '$.info', update: {} }] }],
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+    expect(result.error.details).toMatchObject({ overlay: 0, provided_version: '2.0.0' });
+  });
+});
+
+describe('openapi_parse Postman collections', () => {
+  const collection = {
+    info: {
+      name: 'Shop API',
+      schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json',
+    },
+    variable: [{ key: 'baseUrl', value: 'https://shop.example.com/api' }],
+    auth: { type: 'bearer', bearer: [{ key: 'token', value: '{{token}}', type: 'string' }] },
+    item: [
+      {
+        name: 'Orders',
+        item: [
+          {
+            name: 'Get order',
+            request: {
+              method: 'GET',
+              url: {
+                raw: '{{baseUrl}}/orders/:orderId?expand=true',
+                host: ['{{baseUrl}}'],
+                path: ['orders', ':orderId'],
+                query: [{ key: 'expand', value: 'true' }],
+                variable: [{ key: 'orderId', value: '42', description: 'Order number' }],
+              },
+            },
+            response: [
+              {
+                name: 'Found',
+                code: 200,
+                header: [{ key: 'Content-Type', value: 'application/json' }],
+                body: '{"id": 42, "placed_at": "2024-01-02T03:04:05Z", "note": "gift"}',
+              },
+              {
+                name: 'Found without note',
+                code: 200,
+                header: [{ key: 'Content-Type', value: 'application/json' }],
+                body: '{"id": 7, "placed_at": "2024-02-03T04:05:06Z"}',
+              },
+            ],
+          },
+          {
+            name: 'Create order',
+            request: {
+              method: 'POST',
+              auth: { type: 'apikey', apikey: [{ key: 'key', value: 'X-Shop-Key' }, { key: 'in', value: 'header' }] },
+              url: '{{baseUrl}}/orders',
+              body: { mode: 'raw', raw: '{"sku": "A-1", "quantity": {{qty}}}', options: { raw: { language: 'json' } } },
+            },
+          },
+        ],
+      },
+      {
+        name: 'Health',
+        request: { method: 'GET', auth: { type: 'noauth' }, url: '{{baseUrl}}/health' },
+      },
+    ],
+  };
+
+  it('should convert folders, variables, examples and auth into the parsed shape', async () => {
+    const result = await openapiParse(JSON.stringify(collection));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.info.title).toBe('Shop API');
+    expect(result.data.servers).toEqual([
+      { url: '{baseUrl}', variables: { baseUrl: { default: 'https://shop.example.com/api' } } },
+    ]);
+    expect(result.data.paths.map((p) => p.path)).toEqual(['/orders/{orderId}', '/orders', '/health']);
+
+    const getOrder = result.data.paths[0].operations[0];
+    expect(getOrder.operation_id).toBe('getOrder');
+    expect(getOrder.tags).toEqual(['Orders']);
+    expect(getOrder.parameters.map((p) => [p.name, p.in, p.schema.type])).toEqual([
+      ['orderId', 'path', 'integer'],
+      ['expand', 'query', 'boolean'],
+    ]);
+    expect(getOrder.security).toEqual([{ bearerAuth: [] }]);
+
+    const body = getOrder.responses[0].content?.['application/json'].schema;
+    expect(body?.properties?.placed_at).toMatchObject({ type: 'string', format: 'date-time' });
+    expect(body?.required).toEqual(['id', 'placed_at']);
+
+    const createOrder = result.data.paths[1].operations[0];
+    expect(createOrder.request_body?.content['application/json'].schema.properties?.sku.type).toBe('string');
+    expect(createOrder.security).toEqual([{ apiKeyAuth: [] }]);
+    expect(result.data.security_schemes.apiKeyAuth).toMatchObject({ type: 'apiKey', name: 'X-Shop-Key', in: 'header' });
+
+    expect(result.data.paths[2].operations[0].security).toEqual([]);
+    expect(result.meta.warnings).toContain("Converted Postman collection 'Shop API' to OpenAPI 3.0.3");
+  });
+
+  it('should reject collections in other formats', async () => {
+    const result = await openapiParse(JSON.stringify({
+      ...collection,
+      info: { ...collection.info, schema: 'https://schema.getpostman.com/json/collection/v1.0.0/collection.json' },
+    }));
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+  });
+});
+
+describe('graphql_import', () => {
+  const sdl = `
+    scalar DateTime
+
+    type User {
+      id: ID!
+      name: String
+      createdAt: DateTime
+      friends(first: Int = 10): [User!]!
+      posts(after: String!): [Post!]!
+    }
+
+    type Post {
+      id: ID!
+      title: String!
+    }
+
+    input UserFilter {
+      name: String
+      role: Role = USER
+    }
+
+    enum Role { ADMIN USER }
+
+    type Query {
+      "Fetch a user by ID"
+      user(id: ID!): User
+      users(filter: UserFilter, limit: Int): [User!]!
+    }
+
+    type Mutation {
+      createUser(name: String!, role: Role): User!
+    }
+
+    type Subscription {
+      userAdded: User
+    }
+  `;
+
+  it('should map queries and mutations to POST operations with generated documents', async () => {
+    const result = await graphqlImport(sdl, { endpoint: 'https://api.example.com/graphql' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(result.data.paths).toHaveLength(1);
+    expect(result.data.paths[0].path).toBe('/graphql');
+
+    const operations = result.data.paths[0].operations;
+    expect(operations.map((op) => [op.method, op.operation_id, op.tags?.[0]])).toEqual([
+      ['POST', 'user', 'query'],
+      ['POST', 'users', 'query'],
+      ['POST', 'createUser', 'mutation'],
+    ]);
+    expect(operations[0].extensions?.['x-graphql']).toEqual({
+      operation: 'query',
+      field: 'user',
+      document: 'query User($id: ID!) { user(id: $id) { id name createdAt friends { id name createdAt } } }',
+    });
+    expect(result.meta.spec_id).toEqual(expect.any(String));
+    expect(result.meta.warnings).toContain('Skipped subscriptions (userAdded); they have no request/response tool equivalent');
+  });
+
+  it('should map input types and scalars into tool input schemas', async () => {
+    const parsed = await graphqlImport(sdl);
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    expect(parsed.data.schemas.Role).toEqual({ type: 'string', enum: ['ADMIN', 'USER'] });
+
+    const result = generateToolSchemas(parsed.data);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const users = result.data.tools.find((t) => t.name === 'users')!;
+    expect(users.inputSchema.properties.limit).toEqual({ type: 'integer', format: 'int32' });
+    expect(users.inputSchema.properties.filter.properties?.role).toMatchObject({ type: 'string', enum: ['ADMIN', 'USER'] });
+
+    const createUser = result.data.tools.find((t) => t.name === 'createuser')!;
+    expect(createUser.inputSchema.required).toEqual(['name']);
+  });
+
+  it('should scaffold tools that send the generated document', async () => {
+    const parsed = await graphqlImport(sdl, { endpoint: 'https://api.example.com/graphql' });
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const result = generateServerScaffold(parsed.data, 'typescript');
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const toolFile = result.data.files.find((f) => f.path === 'src/tools/user.ts')!;
+    expect(toolFile.content).toContain('const DOCUMENT = "query User($id: ID!)');
+    expect(toolFile.content).toContain('const url = `${loadApiBaseUrl()}/graphql`;');
+    expect(toolFile.content).toContain("payload.data?.['user']");
+    // Without declared security the API key goes out as a bearer token
+    expect(toolFile.content).toContain('...(apiKey && { Authorization: `Bearer ${apiKey}` }),');
+
+    const keyed = generateServerScaffold({
+      ...parsed.data,
+      security_schemes: { key: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+      paths: parsed.data.paths.map((path) => ({
+        ...path,
+        operations: path.operations.map((operation) => ({ ...operation, security: [{ key: [] }] })),
+      })),
+    }, 'python');
+    expect(keyed.ok).toBe(true);
+    if (keyed.ok) {
+      const pythonTool = keyed.data.files.find((f) => f.path === 'src/tools/user.py')!.content;
+      expect(pythonTool).toContain('url = load_config().api_base_url + "/graphql"');
+      expect(pythonTool).toContain('headers={"X-API-Key": api_key} if api_key else {},');
+    }
+  });
+
+  it('should report changed arguments of each operation in a diff', async () => {
+    const base = await graphqlImport(sdl);
+    const revision = await graphqlImport(sdl.replace('user(id: ID!): User', 'user(id: ID!, tenant: ID!): User'));
+    if (!base.ok || !revision.ok) throw new Error('schema failed to import');
+
+    const result = await openapiDiff(base.data, revision.data);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.changes).toEqual([expect.objectContaining({
+      kind: 'property_added',
+      breaking: true,
+      operation: 'POST /graphql (query user)',
+      location: 'tenant',
+    })]);
+  });
+
+  it('should report SDL syntax errors with line and column', async () => {
+    const result = await graphqlImport('type Query {\n  user(: ID): User\n}');
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('PARSE_ERROR');
+    expect(result.error.details.line).toBe(2);
+  });
+});
+
+describe('har_to_spec', () => {
+  const entry = (
+    method: string,
+    url: string,
+    status: number,
+    responseBody?: unknown,
+    requestBody?: unknown,
+    headers: { name: string; value: string }[] = []
+  ) => ({
+    request: {
+      method,
+      url,
+      headers,
+      ...(requestBody !== undefined && {
+        postData: { mimeType: 'application/json', text: JSON.stringify(requestBody) },
+      }),
+    },
+    response: {
+      status,
+      statusText: status === 201 ? 'Created' : 'OK',
+      content: responseBody === undefined
+        ? { mimeType: 'text/plain', text: '' }
+        : { mimeType: 'application/json; charset=utf-8', text: JSON.stringify(responseBody) },
+    },
+  });
+
+  const har = {
+    log: {
+      entries: [
+        entry('GET', 'https://app.example.com/static/main.js', 200),
+        entry('OPTIONS', 'https://api.example.com/v1/users', 204),
+        entry('GET', 'https://api.example.com/v1/users?limit=10&page=2', 200, [{ id: 1, name: 'Ada' }], undefined, [
+          { name: 'Authorization', value: 'Bearer abc' },
+        ]),
+        entry('GET', 'https://api.example.com/v1/users?limit=20', 200, []),
+        entry('GET', 'https://api.example.com/v1/users/42', 200, { id: 42, name: 'Ada', email: 'ada@example.com' }),
+        entry('GET', 'https://api.example.com/v1/users/7', 200, { id: 7, name: 'Bob' }),
+        entry('GET', 'https://api.example.com/v1/users/7/orders/3f2a8c1e-0b7d-4c8e-9a3f-1234567890ab', 200, { total: 1.5 }),
+        entry('POST', 'https://api.example.com/v1/users', 201, { id: 8 }, { name: 'Eve', admin: false }),
+        entry('GET', 'https://metrics.example.com/collect?event=view', 200, {}),
+      ],
+    },
+  };
+
+  it('should cluster requests into path templates with inferred schemas', async () => {
+    const result = await harToSpec(har);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const spec = result.data.parsed_spec;
+    expect(spec.servers).toEqual([{ url: 'https://api.example.com' }]);
+    expect(spec.paths.map((p) => p.path)).toEqual([
+      '/v1/users',
+      '/v1/users/{userId}',
+      '/v1/users/{userId}/orders/{orderId}',
+    ]);
+    expect(result.data.openapi).toBeUndefined();
+    expect(result.meta.spec_id).toEqual(expect.any(String));
+    expect(result.meta.warnings).toContain('Skipped 2 requests for page assets, CORS preflights, failed or non-HTTP requests');
+    expect(result.meta.warnings).toContain('Skipped requests to other hosts (metrics.example.com); pass base_url to choose the API host');
+
+    const [orderId] = spec.paths[2].operations[0].parameters.filter((p) => p.name === 'orderId');
+    expect(orderId.schema).toEqual({ type: 'string', format: 'uuid' });
+
+    const getUser = spec.paths[1].operations[0];
+    expect(getUser.parameters[0]).toMatchObject({ name: 'userId', in: 'path', schema: { type: 'integer' }, example: 42 });
+    // email was only seen on one of the two responses
+    expect(getUser.responses[0].content?.['application/json'].schema).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        name: { type: 'string' },
+        email: { type: 'string', format: 'email' },
+      },
+      required: ['id', 'name'],
+    });
+  });
+
+  it('should infer query parameters, request bodies and credentials', async () => {
+    const result = await harToSpec(har);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const [listUsers, createUser] = result.data.parsed_spec.paths[0].operations;
+    expect(listUsers.parameters.map((p) => [p.name, p.required, p.schema.type])).toEqual([
+      ['limit', true, 'integer'],
+      ['page', false, 'integer'],
+    ]);
+    expect(listUsers.security).toEqual([{ bearerAuth: [] }]);
+    expect(result.data.parsed_spec.security_schemes.bearerAuth).toMatchObject({ type: 'http', scheme: 'bearer' });
+
+    expect(createUser.request_body?.required).toBe(true);
+    expect(createUser.request_body?.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['name', 'admin'],
+    });
+    expect(createUser.responses[0].status_code).toBe('201');
+  });
+
+  it('should limit conversion to base_url and return the OpenAPI document', async () => {
+    const result = await harToSpec(JSON.stringify(har), {
+      base_url: 'https://api.example.com/v1/users/7',
+      title: 'Orders API',
+      include_openapi: true,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.parsed_spec.info.title).toBe('Orders API');
+    expect(result.data.parsed_spec.paths.map((p) => p.path)).toEqual(['/', '/orders/{orderId}']);
+    expect(result.data.openapi?.openapi).toBe('3.0.3');
+    expect(result.data.openapi?.servers).toEqual([{ url: 'https://api.example.com/v1/users/7' }]);
+    expect(Object.keys(result.data.openapi?.paths || {})).toEqual(['/', '/orders/{orderId}']);
+
+    const tools = generateToolSchemas(result.data.parsed_spec);
+    expect(tools.ok).toBe(true);
+  });
+
+  it('should reject documents that are not HAR', async () => {
+    const result = await harToSpec({ entries: [] });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+  });
+});
+
+describe('openapi_parse multi-file bundles', () => {
+  const bundleFiles = {
+    'openapi.yaml': `openapi: 3.0.3
+info:
+  title: Bundled API
+  version: 1.0.0
+paths:
+  /orders:
+    $ref: paths/orders.yaml
+components:
+  schemas:
+    Order:
+      $ref: schemas/order.yaml
+`,
+    'paths/orders.yaml': `get:
+  operationId: listOrders
+  responses:
+    '200':
+      description: Orders
+      content:
+        application/json:
+          schema:
+            type: array
+            items:
+              $ref: ../schemas/order.yaml
+`,
+    'schemas/order.yaml': `type: object
+properties:
+  id:
+    type: string
+  total:
+    type: number
+`,
+  };
+
+  it('should resolve relative refs across a file map', async () => {
+    const result = await openapiParse('openapi.yaml', { files: bundleFiles });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.meta.source).toBe('bundle:openapi.yaml');
+    expect(result.data.schemas.Order.properties).toHaveProperty('total');
+    const listOrders = result.data.paths[0].operations[0];
+    expect(listOrders.operation_id).toBe('listOrders');
+    expect(listOrders.responses[0].content?.['application/json'].schema.items?.properties).toHaveProperty('id');
+  });
+
+  it('should report unresolved refs with the referencing JSON pointer', async () => {
+    const result = await openapiParse('openapi.yaml', {
+      files: { ...bundleFiles, 'schemas/order.yaml': 'type: object\nproperties:\n  customer:\n    $ref: customer.yaml\n' },
+    });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+
+    expect(result.error.code).toBe('PARSE_ERROR');
+    expect(result.error.details.unresolved).toContainEqual(
+      expect.objectContaining({
+        ref: 'customer.yaml',
+        file: 'schemas/order.yaml',
+        pointer: '/properties/customer',
+      })
+    );
+  });
+
+  describe('from a local directory', () => {
+    let root: string;
+    let specDir: string;
+
+    beforeAll(async () => {
+      root = await mkdtemp(join(tmpdir(), 'openapi-root-'));
+      specDir = join(root, 'specs');
+      for (const [name, content] of Object.entries(bundleFiles)) {
+        await mkdir(dirname(join(specDir, name)), { recursive: true });
+        await writeFile(join(specDir, name), content);
+      }
+      await writeFile(join(root, 'secret.yaml'), 'type: string\n');
+    });
+
+    afterEach(() => configureSpecRoot());
+    afterAll(() => rm(root, { recursive: true, force: true }));
+
+    it('should resolve a local spec directory inside the spec root', async () => {
+      configureSpecRoot(root);
+
+      const result = await openapiParse(specDir);
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.meta.source).toBe(specDir);
+        expect(result.data.info.title).toBe('Bundled API');
+        expect(result.data.schemas).toHaveProperty('Order');
+      }
+
+      // Relative to the root too
+      const relative = await openapiParse('specs');
+      expect(relative.ok && relative.data.info.title).toBe('Bundled API');
+    });
+
+    it('should not read local paths without a spec root', async () => {
+      const result = await openapiParse(specDir);
+
+      expect(result.ok).toBe(false);
+      if (!result.ok) {
+        expect(result.error.code).toBe('UPSTREAM_ERROR');
+      }
+    });
+
+    it('should reject paths, entry files and refs outside the spec root', async () => {
+      configureSpecRoot(specDir);
+
+      const path = await openapiParse(join(root, 'secret.yaml'));
+      expect(!path.ok && path.error.message).toBe('Local spec path is outside the spec root');
+
+      const entry = await openapiParse(specDir, { entry_file: '../secret.yaml' });
+      expect(!entry.ok && entry.error.message).toBe('Entry file is outside the spec root');
+
+      const escaping = join(specDir, 'escaping.yaml');
+      await writeFile(escaping, bundleFiles['openapi.yaml'].replace('$ref: schemas/order.yaml', '$ref: ../secret.yaml'));
+      try {
+        const ref = await openapiParse(escaping);
+        expect(ref.ok).toBe(false);
+        if (!ref.ok) {
+          expect(ref.error.code).toBe('PARSE_ERROR');
+          expect(ref.error.details.unresolved).toContainEqual(expect.objectContaining({
+            ref: '../secret.yaml',
+            file: 'escaping.yaml',
+            pointer: '/components/schemas/Order',
+          }));
+        }
+      } finally {
+        await rm(escaping, { force: true });
+      }
+    });
+  });
+});
+
+describe('spec cache', () => {
+  afterEach(() => configureSpecCache());
+
+  it('should return a content-hash spec_id that resolves to the parsed spec', async () => {
+    const first = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    const second = await openapiParse(JSON.stringify(sampleOpenAPISpec, null, 2));
+
+    expect(first.ok && second.ok).toBe(true);
+    if (!first.ok || !second.ok) return;
+
+    expect(first.meta.spec_id).toMatch(/^[0-9a-f]{32}$/);
+    expect(second.meta.spec_id).toBe(first.meta.spec_id);
+
+    const resolved = await resolveParsedSpec(first.meta.spec_id, undefined);
+    expect(resolved.ok).toBe(true);
+    if (resolved.ok) expect(resolved.data).toEqual(first.data);
+  });
+
+  it('should reject unknown spec IDs', async () => {
+    const result = await resolveParsedSpec('0'.repeat(32), undefined);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+    expect(result.error.details.spec_id).toBe('0'.repeat(32));
+  });
+
+  it('should evict least recently used specs beyond max_bytes', async () => {
+    const small = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    if (!small.ok) throw new Error('sample spec failed to parse');
+    const size = Buffer.byteLength(JSON.stringify(small.data));
+
+    configureSpecCache({ max_bytes: size + 10 });
+
+    const first = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    const second = await openapiParse(JSON.stringify({ ...sampleOpenAPISpec, info: { title: 'Other API', version: '1.0.0' } }));
+    if (!first.ok || !second.ok) throw new Error('sample spec failed to parse');
+
+    expect(await getCachedSpec(first.meta.spec_id!)).toBeUndefined();
+    expect(await getCachedSpec(second.meta.spec_id!)).toBeDefined();
+  });
+
+  it('should leave out spec_id and warn when a spec fits neither in memory nor on disk', async () => {
+    configureSpecCache({ max_bytes: 16 });
+
+    const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    expect(parsed.meta.spec_id).toBeUndefined();
+    expect(parsed.meta.warnings.some((warning) => warning.includes('has no spec_id'))).toBe(true);
+  });
+
+  it('should keep specs larger than max_bytes on disk only', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'openapi-cache-'));
+    try {
+      configureSpecCache({ max_bytes: 16, directory: dir });
+      const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+      if (!parsed.ok) throw new Error('sample spec failed to parse');
+
+      expect(parsed.meta.warnings).toEqual([]);
+      expect(await getCachedSpec(parsed.meta.spec_id!)).toEqual(parsed.data);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should hand out frozen copies that callers cannot corrupt', async () => {
+    const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    if (!parsed.ok) throw new Error('sample spec failed to parse');
+
+    // The caller's own result stays writable and is not shared with the cache
+    parsed.data.info.title = 'Changed';
+    const cached = await getCachedSpec(parsed.meta.spec_id!);
+    expect(cached?.info.title).toBe('Pet Store API');
+
+    expect(() => { cached!.paths[0].operations.pop(); }).toThrow(TypeError);
+    expect((await getCachedSpec(parsed.meta.spec_id!))?.paths[0].operations).toHaveLength(2);
+  });
+
+  it('should bound the cache directory and prune expired files on write', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'openapi-cache-'));
+    try {
+      const spec = (title: string) => JSON.stringify({ ...sampleOpenAPISpec, info: { title, version: '1.0.0' } });
+      const first = await openapiParse(spec('First'));
+      if (!first.ok) throw new Error('sample spec failed to parse');
+      const size = Buffer.byteLength(JSON.stringify(first.data));
+
+      configureSpecCache({ directory: dir, max_bytes: 16, max_disk_bytes: size * 2 + 100 });
+      const ids: string[] = [];
+      for (const title of ['First', 'Second', 'Third']) {
+        const parsed = await openapiParse(spec(title));
+        if (!parsed.ok) throw new Error('sample spec failed to parse');
+        ids.push(parsed.meta.spec_id!);
+      }
+
+      // Only the two most recent specs fit
+      expect((await readdir(dir)).sort()).toEqual([`${ids[1]}.json`, `${ids[2]}.json`].sort());
+
+      // Expired files go on the next write, even if they are never read again
+      await utimes(join(dir, `${ids[1]}.json`), new Date(0), new Date(0));
+      await openapiParse(spec('Fourth'));
+      expect(await readdir(dir)).not.toContain(`${ids[1]}.json`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should persist specs to the cache directory', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'openapi-cache-'));
+    try {
+      configureSpecCache({ directory: dir });
+      const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+      if (!parsed.ok) throw new Error('sample spec failed to parse');
+
+      // A fresh cache, as after a restart, falls back to the directory
+      configureSpecCache({ directory: dir });
+      expect(await getCachedSpec(parsed.meta.spec_id!)).toEqual(parsed.data);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('openapi_parse pagination', () => {
+  const pagedSpec = {
+    openapi: '3.0.0',
+    info: { title: 'Paged API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          operationId: 'listUsers',
+          tags: ['users'],
+          summary: 'List users',
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/User' } } } },
+            },
+          },
+        },
+        post: { operationId: 'createUser', tags: ['users'], responses: { '201': { description: 'Created' } } },
+      },
+      '/orders': {
+        get: {
+          operationId: 'listOrders',
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        User: { type: 'object', properties: { id: { type: 'string' } } },
+        Order: { type: 'object', properties: { buyer: { $ref: '#/components/schemas/User' } } },
+        Unused: { type: 'string' },
+      },
+    },
+  };
+
+  it('should walk operations page by page with next_cursor', async () => {
+    const spec = JSON.stringify(pagedSpec);
+
+    const first = await openapiParse(spec, { page_size: 2, preserve_refs: true });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+
+    expect(first.data.paths).toHaveLength(1);
+    expect(first.data.paths[0].operations.map((op) => op.operation_id)).toEqual(['listUsers', 'createUser']);
+    expect(Object.keys(first.data.schemas)).toEqual(['User']);
+    expect(first.meta.pagination?.next_cursor).toEqual(expect.any(String));
+
+    const second = await openapiParse(spec, { page_size: 2, preserve_refs: true, cursor: first.meta.pagination!.next_cursor! });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+
+    expect(second.data.paths.map((p) => p.path)).toEqual(['/orders']);
+    expect(Object.keys(second.data.schemas).sort()).toEqual(['Order', 'User']);
+    expect(second.meta.pagination?.next_cursor).toBeNull();
+  });
+
+  it('should reject malformed cursors and page sizes', async () => {
+    const spec = JSON.stringify(pagedSpec);
+
+    const badCursor = await openapiParse(spec, { cursor: 'not-a-cursor' });
+    expect(badCursor.ok).toBe(false);
+    if (!badCursor.ok) expect(badCursor.error.code).toBe('INVALID_INPUT');
+
+    const badSize = await openapiParse(spec, { page_size: 0 });
+    expect(badSize.ok).toBe(false);
+    if (!badSize.ok) expect(badSize.error.code).toBe('INVALID_INPUT');
+  });
+
+  it('should serve later pages from the cached spec the cursor names', async () => {
+    const first = await openapiParse(JSON.stringify(pagedSpec), { page_size: 2 });
+    expect(first.ok).toBe(true);
+    if (!first.ok) return;
+
+    // The spec input is not loaded again while the cursor's spec is cached
+    const cursor = first.meta.pagination!.next_cursor!;
+    const second = await openapiParse('http://127.0.0.1:9/openapi.json', { page_size: 2, cursor });
+    expect(second.ok).toBe(true);
+    if (!second.ok) return;
+    expect(second.meta.spec_id).toBe(first.meta.spec_id);
+    expect(second.data.paths.map((p) => p.path)).toEqual(['/orders']);
+
+    const outline = await openapiParseSummary('http://127.0.0.1:9/openapi.json', { page_size: 2, cursor });
+    expect(outline.ok && outline.data.operations.map((op) => op.operation_id)).toEqual(['listOrders']);
+  });
+
+  it('should reject a cursor once the spec it was issued for has changed', async () => {
+    configureSpecCache({ max_bytes: 16 });
+    try {
+      const first = await openapiParse(JSON.stringify(pagedSpec), { page_size: 2 });
+      expect(first.ok).toBe(true);
+      if (!first.ok) return;
+
+      const changed = JSON.stringify({ ...pagedSpec, info: { title: 'Paged API', version: '2.0.0' } });
+      const result = await openapiParse(changed, { page_size: 2, cursor: first.meta.pagination!.next_cursor! });
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.code).toBe('INVALID_INPUT');
+      expect(result.error.message).toContain('different spec');
+
+      // The unchanged spec still pages, even though it is not cached
+      const same = await openapiParse(JSON.stringify(pagedSpec), { page_size: 2, cursor: first.meta.pagination!.next_cursor! });
+      expect(same.ok && same.data.paths.map((p) => p.path)).toEqual(['/orders']);
+    } finally {
+      configureSpecCache();
+    }
+  });
+
+  it('should outline operations without schemas in summary mode', async () => {
+    const result = await openapiParseSummary(JSON.stringify(pagedSpec), { page_size: 1 });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.total_operations).toBe(3);
+    expect(result.data.operations).toEqual([
+      { method: 'GET', path: '/users', operation_id: 'listUsers', summary: 'List users', tags: ['users'], deprecated: undefined },
+    ]);
+    expect(result.data).not.toHaveProperty('schemas');
+    expect(result.meta.pagination?.next_cursor).toEqual(expect.any(String));
+  });
+});
+
+describe('circular schemas', () => {
+  const circularSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Comments API', version: '1.0.0' },
+    paths: {
+      '/comments': {
+        post: {
+          operationId: 'createComment',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { $ref: '#/components/schemas/Comment' },
+              },
+            },
+          },
+          responses: { '201': { $ref: '#/components/responses/Created' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Comment: {
+          type: 'object',
+          required: ['text'],
+          properties: {
+            text: { type: 'string' },
+            replies: { type: 'array', items: { $ref: '#/components/schemas/Comment' } },
+          },
+        },
+      },
+      responses: {
+        Created: {
+          description: 'Created',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Comment' } } },
+        },
+      },
+    },
+  };
+
+  it('should parse self-referencing schemas without overflowing the stack', async () => {
+    const result = await openapiParse(JSON.stringify(circularSpec));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.schemas.Comment.properties?.replies.items).toEqual({
+        $ref: '#/components/schemas/Comment',
+      });
+    }
+  });
+
+  it('should keep schema refs and inline other components with preserve_refs', async () => {
+    const result = await openapiParse(JSON.stringify(circularSpec), { preserve_refs: true });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const operation = result.data.paths[0].operations[0];
+    expect(operation.request_body?.content['application/json'].schema).toEqual({
+      $ref: '#/components/schemas/Comment',
+    });
+    expect(operation.responses[0].description).toBe('Created');
+    expect(operation.responses[0].content?.['application/json'].schema.$ref).toBe('#/components/schemas/Comment');
+  });
+
+  it('should emit $defs for recursive schemas in generated tools', async () => {
+    const parseResult = await openapiParse(JSON.stringify(circularSpec), { preserve_refs: true });
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const tool = result.data.tools[0];
+      expect(tool.inputSchema.properties.replies.items).toEqual({ $ref: '#/$defs/Comment' });
+      expect(tool.inputSchema.$defs?.Comment.properties?.replies.items).toEqual({ $ref: '#/$defs/Comment' });
+      expect(tool.inputSchema.required).toEqual(['text']);
+    }
+  });
+
+  it('should truncate recursive schemas at max_depth with a warning', async () => {
+    const parseResult = await openapiParse(JSON.stringify(circularSpec), { preserve_refs: true });
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data, { circular_refs: 'truncate', max_depth: 2 });
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      const tool = result.data.tools[0];
+      expect(tool.inputSchema.$defs).toBeUndefined();
+      const nested = tool.inputSchema.properties.replies.items?.properties?.replies.items;
+      expect(nested?.description).toContain('truncated');
+      expect(result.meta.warnings).toContain("Recursive schema 'Comment' truncated at depth 2");
+    }
+  });
+});
+
+describe('JSON Schema 2020-12 keywords', () => {
+  const keywordSpec = {
+    openapi: '3.1.0',
+    info: { title: 'Keyword API', version: '1.0.0' },
+    paths: {
+      '/shapes': {
+        post: {
+          operationId: 'createShape',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['id', 'kind'],
+                  properties: {
+                    id: { type: 'string', readOnly: true },
+                    kind: { const: 'polygon' },
+                    label: { type: ['string', 'null'], examples: ['triangle'] },
+                    sides: { type: 'integer', exclusiveMinimum: 2, multipleOf: 1 },
+                    point: { type: 'array', prefixItems: [{ type: 'number' }, { type: 'number' }], minItems: 2, maxItems: 2 },
+                    tags: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+                    image: { type: 'string', contentEncoding: 'base64', contentMediaType: 'image/png' },
+                    secret: { type: 'string', writeOnly: true },
+                    color: { not: { const: 'transparent' } },
+                  },
+                  dependentRequired: { label: ['kind'] },
+                  if: { properties: { kind: { const: 'polygon' } } },
+                  then: { required: ['sides'] },
+                  else: { required: [] },
+                },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+    },
+  };
+
+  it('should carry 3.1 keywords into ParsedSchema', async () => {
+    const result = await openapiParse(JSON.stringify(keywordSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const schema = result.data.paths[0].operations[0].request_body!.content['application/json'].schema;
+    expect(schema.properties?.label.type).toEqual(['string', 'null']);
+    expect(schema.properties?.label.examples).toEqual(['triangle']);
+    expect(schema.properties?.kind.const).toBe('polygon');
+    expect(schema.properties?.sides.exclusiveMinimum).toBe(2);
+    expect(schema.properties?.point.prefixItems).toHaveLength(2);
+    expect(schema.properties?.tags.uniqueItems).toBe(true);
+    expect(schema.properties?.image.contentEncoding).toBe('base64');
+    expect(schema.properties?.color.not?.const).toBe('transparent');
+    expect(schema.dependentRequired).toEqual({ label: ['kind'] });
+    expect(schema.then?.required).toEqual(['sides']);
+  });
+
+  it('should normalize OpenAPI 3.0 boolean exclusive bounds', async () => {
+    const spec30 = {
+      openapi: '3.0.3',
+      info: { title: 'Bounds API', version: '1.0.0' },
+      paths: {},
+      components: {
+        schemas: {
+          Ratio: { type: 'number', minimum: 0, exclusiveMinimum: true, maximum: 1, nullable: true },
+        },
+      },
+    };
+
+    const result = await openapiParse(JSON.stringify(spec30));
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.schemas.Ratio.exclusiveMinimum).toBe(0);
+      expect(result.data.schemas.Ratio.minimum).toBeUndefined();
+      expect(result.data.schemas.Ratio.maximum).toBe(1);
+    }
+  });
+
+  it('should constrain generated tool inputs with the same keywords', async () => {
+    const parseResult = await openapiParse(JSON.stringify(keywordSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { properties, required } = result.data.tools[0].inputSchema;
+    expect(properties).not.toHaveProperty('id');
+    expect(required).toEqual(['kind']);
+    expect(properties.label.type).toEqual(['string', 'null']);
+    expect(properties.sides.exclusiveMinimum).toBe(2);
+    expect(properties.point).toMatchObject({ minItems: 2, maxItems: 2 });
+    expect(properties.secret.writeOnly).toBe(true);
+    expect(properties.image.contentMediaType).toBe('image/png');
+  });
+
+  it('should flatten request bodies typed as a list including object', async () => {
+    const schema = keywordSpec.paths['/shapes'].post.requestBody.content['application/json'].schema;
+    const nullableBody = structuredClone(keywordSpec);
+    nullableBody.paths['/shapes'].post.requestBody.content['application/json'].schema = {
+      ...schema,
+      type: ['object', 'null'] as unknown as string,
+    };
+
+    const parseResult = await openapiParse(JSON.stringify(nullableBody));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { properties, required } = result.data.tools[0].inputSchema;
+    expect(properties).not.toHaveProperty('body');
+    expect(properties.sides.exclusiveMinimum).toBe(2);
+    expect(required).toEqual(['kind']);
+  });
+});
+
+describe('parameter serialization, response headers and links', () => {
+  const serializationSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Serialization API', version: '1.0.0' },
+    paths: {
+      '/search': {
+        get: {
+          operationId: 'search',
+          parameters: [
+            { name: 'ids', in: 'query', schema: { type: 'array', items: { type: 'string' } }, style: 'spaceDelimited', explode: false },
+            { name: 'filter', in: 'query', schema: { type: 'object' }, style: 'deepObject', allowReserved: true },
+            { name: 'tags', in: 'query', schema: { type: 'array', items: { type: 'string' } }, examples: { two: { summary: 'Two tags', value: ['a', 'b'] } } },
+            { name: 'coords', in: 'query', content: { 'application/json': { schema: { type: 'object', properties: { lat: { type: 'number' } } } } } },
+            { name: 'id', in: 'path', required: true, schema: { type: 'string' }, example: 'abc' },
+          ],
+          responses: {
+            '200': {
+              description: 'Results',
+              headers: {
+                'X-RateLimit-Remaining': { description: 'Requests left', schema: { type: 'integer' } },
+                Link: { schema: { type: 'string' } },
+              },
+              links: {
+                NextPage: { operationId: 'search', parameters: { cursor: '$response.body#/next' } },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+
+  it('should capture style, explode, allowReserved and examples', async () => {
+    const result = await openapiParse(JSON.stringify(serializationSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const params = Object.fromEntries(result.data.paths[0].operations[0].parameters.map((p) => [p.name, p]));
+    expect(params.ids).toMatchObject({ style: 'spaceDelimited', explode: false });
+    expect(params.filter).toMatchObject({ style: 'deepObject', explode: false, allow_reserved: true });
+    expect(params.tags).toMatchObject({ style: 'form', explode: true });
+    expect(params.tags.examples?.two.value).toEqual(['a', 'b']);
+    expect(params.id).toMatchObject({ style: 'simple', explode: false, example: 'abc' });
+  });
+
+  it('should capture content-based parameters', async () => {
+    const result = await openapiParse(JSON.stringify(serializationSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const coords = result.data.paths[0].operations[0].parameters.find((p) => p.name === 'coords');
+    expect(coords?.content).toHaveProperty('application/json');
+    expect(coords?.schema.properties).toHaveProperty('lat');
+    expect(coords?.style).toBeUndefined();
+  });
+
+  it('should populate response headers and links', async () => {
+    const result = await openapiParse(JSON.stringify(serializationSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const response = result.data.paths[0].operations[0].responses[0];
+    expect(response.headers?.['X-RateLimit-Remaining']).toMatchObject({
+      name: 'X-RateLimit-Remaining',
+      in: 'header',
+      description: 'Requests left',
+      schema: { type: 'integer' },
+    });
+    expect(response.headers).toHaveProperty('Link');
+    expect(response.links?.NextPage).toEqual({
+      operation_id: 'search',
+      parameters: { cursor: '$response.body#/next' },
+    });
+  });
+});
+
+describe('effective security and servers', () => {
+  const securedSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Secured API', version: '1.0.0' },
+    servers: [{ url: 'https://api.example.com' }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/items': {
+        get: { operationId: 'listItems', responses: { '200': { description: 'OK' } } },
+        post: {
+          operationId: 'createItem',
+          security: [{ oauth: ['items:write'] }, { apiKey: [] }],
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/health': {
+        get: { operationId: 'health', security: [], responses: { '200': { description: 'OK' } } },
+      },
+      '/uploads': {
+        servers: [{ url: 'https://uploads.example.com' }],
+        get: { operationId: 'listUploads', responses: { '200': { description: 'OK' } } },
+        put: {
+          operationId: 'putUpload',
+          servers: [{ url: 'https://eu.uploads.example.com' }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        oauth: {
+          type: 'oauth2',
+          flows: { clientCredentials: { tokenUrl: 'https://auth.example.com/token', scopes: { 'items:write': 'Write' } } },
+        },
+      },
+    },
+  };
+
+  const operationsById = (spec: ParsedOpenAPISpec) =>
+    Object.fromEntries(spec.paths.flatMap((p) => p.operations).map((op) => [op.operation_id, op]));
+
+  it('should inherit global security unless overridden, keeping the empty opt-out', async () => {
+    const result = await openapiParse(JSON.stringify(securedSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const ops = operationsById(result.data);
+    expect(result.data.security).toEqual([{ bearerAuth: [] }]);
+    expect(ops.listItems.security).toEqual([{ bearerAuth: [] }]);
+    expect(ops.createItem.security).toEqual([{ oauth: ['items:write'] }, { apiKey: [] }]);
+    expect(ops.health.security).toEqual([]);
+  });
+
+  it('should resolve servers from the operation, path or spec level', async () => {
+    const result = await openapiParse(JSON.stringify(securedSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const ops = operationsById(result.data);
+    expect(ops.listItems.servers?.[0].url).toBe('https://api.example.com');
+    expect(ops.listUploads.servers?.[0].url).toBe('https://uploads.example.com');
+    expect(ops.putUpload.servers?.[0].url).toBe('https://eu.uploads.example.com');
+  });
+
+  it('should use effective servers and security in scaffolded tools', async () => {
+    const parseResult = await openapiParse(JSON.stringify(securedSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'typescript');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const toolFile = (name: string) => result.data.files.find((f) => f.path === `src/tools/${name}.ts`)?.content;
+    expect(toolFile('listitems')).toContain('GET https://api.example.com/items');
+    expect(toolFile('listitems')).toContain('Auth: bearerAuth');
+    expect(toolFile('createitem')).toContain('Auth: oauth [items:write] or apiKey');
+    expect(toolFile('health')).toContain('Auth: none (public endpoint)');
+    expect(toolFile('putupload')).toContain('PUT https://eu.uploads.example.com/uploads');
+    expect(toolFile('putupload')).toContain("const url = 'https://eu.uploads.example.com/uploads';");
+    expect(toolFile('listuploads')).toContain('GET https://uploads.example.com/uploads');
+  });
+});
+
+describe('webhooks and callbacks', () => {
+  const webhookSpec = {
+    openapi: '3.1.0',
+    info: { title: 'Webhook API', version: '1.0.0' },
+    paths: {
+      '/subscriptions': {
+        post: {
+          operationId: 'subscribe',
+          responses: { '201': { description: 'Subscribed' } },
+          callbacks: {
+            onStatus: {
+              '{$request.body#/callbackUrl}': {
+                post: {
+                  requestBody: {
+                    content: {
+                      'application/json': {
+                        schema: { type: 'object', required: ['status'], properties: { status: { type: 'string' } } },
+                      },
+                    },
+                  },
+                  responses: { '200': { description: 'Acknowledged' } },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    webhooks: {
+      newPet: {
+        post: {
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          responses: { '200': { description: 'Acknowledged' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          required: ['id', 'name'],
+          additionalProperties: false,
+          properties: { id: { type: 'integer', readOnly: true }, name: { type: 'string' } },
+        },
+      },
+    },
+  };
+
+  it('should parse webhooks and operation callbacks', async () => {
+    const result = await openapiParse(JSON.stringify(webhookSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.webhooks).toHaveLength(1);
+    expect(result.data.webhooks?.[0].name).toBe('newPet');
+    expect(result.data.webhooks?.[0].operations[0].request_body?.content['application/json'].schema.required).toEqual(['id', 'name']);
+
+    const callbacks = result.data.paths[0].operations[0].callbacks;
+    expect(callbacks?.[0]).toMatchObject({ name: 'onStatus', expression: '{$request.body#/callbackUrl}' });
+    expect(callbacks?.[0].operations[0].method).toBe('POST');
+  });
+
+  it('should not turn webhooks into tools', async () => {
+    const parseResult = await openapiParse(JSON.stringify(webhookSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.tools.map((t) => t.name)).toEqual(['subscribe']);
+    }
+  });
+
+  it('should emit a webhook receiver only when requested', async () => {
+    const parseResult = await openapiParse(JSON.stringify(webhookSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const plain = generateServerScaffold(parseResult.data, 'typescript');
+    expect(plain.ok).toBe(true);
+    if (plain.ok) {
+      expect(plain.data.files.map((f) => f.path)).not.toContain('src/webhooks.ts');
+    }
+
+    const result = generateServerScaffold(parseResult.data, 'typescript', { include_webhooks: true });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const file = (path: string) => result.data.files.find((f) => f.path === path)?.content;
+    const webhooks = file('src/webhooks.ts');
+    expect(webhooks).toContain('"newPet"');
+    expect(webhooks).toContain('"subscribe.onStatus"');
+    expect(webhooks).toContain('receiveWebhook');
+    expect(file('src/transport/http.ts')).toContain("app.post('/webhooks/:event'");
+    expect(file('src/tools/list_webhook_events.ts')).toContain('getWebhookEvents');
+    expect(file('src/server.ts')).toContain("case 'list_webhook_events'");
+    expect(JSON.parse(file('package.json') || '{}').dependencies).toHaveProperty('ajv');
+  });
+
+  it('should skip callbacks of filtered operations and disambiguate event names', async () => {
+    const callback = (schema: object) => ({
+      '{$request.body#/callbackUrl}': {
+        post: {
+          requestBody: { content: { 'application/json': { schema } } },
+          responses: { '200': { description: 'Acknowledged' } },
+        },
+      },
+    });
+    const parseResult = await openapiParse(JSON.stringify({
+      ...webhookSpec,
+      paths: {
+        ...webhookSpec.paths,
+        '/exports': {
+          post: {
+            operationId: 'export',
+            tags: ['admin'],
+            responses: { '202': { description: 'Accepted' } },
+            callbacks: { onDone: callback({ type: 'object' }) },
+          },
+        },
+      },
+      webhooks: {
+        ...webhookSpec.webhooks,
+        'new pet': webhookSpec.webhooks.newPet,
+        'new/pet': webhookSpec.webhooks.newPet,
+      },
+    }));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'typescript', { include_webhooks: true, exclude: { tags: ['admin'] } });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const webhooks = result.data.files.find((f) => f.path === 'src/webhooks.ts')!.content;
+    const schemas = JSON.parse(webhooks.match(/WEBHOOK_SCHEMAS: Record<string, object> = ([\s\S]*?\n});/)![1]);
+    expect(Object.keys(schemas)).toEqual(['newPet', 'new_pet', 'new_pet_2', 'subscribe.onStatus']);
+  });
+
+  it('should keep readOnly fields in webhook payload schemas', async () => {
+    const parseResult = await openapiParse(JSON.stringify(webhookSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'python', { include_webhooks: true });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    // The API sends the payload, so the server-populated id arrives with it
+    const webhooks = result.data.files.find((f) => f.path === 'src/webhooks.py')!.content;
+    const schemas = JSON.parse(JSON.parse(webhooks.match(/json\.loads\((".*")\)/)![1]));
+    expect(schemas.newPet).toMatchObject({
+      required: ['id', 'name'],
+      additionalProperties: false,
+      properties: { id: { type: 'integer', readOnly: true }, name: { type: 'string' } },
+    });
+  });
+
+  it('should emit a Python webhook receiver', async () => {
+    const parseResult = await openapiParse(JSON.stringify(webhookSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'python', { include_webhooks: true });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const file = (path: string) => result.data.files.find((f) => f.path === path)?.content;
+    expect(file('src/webhooks.py')).toContain('Draft202012Validator');
+    expect(file('src/http_transport.py')).toContain('Route("/webhooks/{event}", webhook, methods=["POST"])');
+    expect(file('src/http_transport.py')).toContain('receive_webhook(request.path_params["event"], payload)');
+    expect(file('src/main.py')).toContain('serve_webhooks(host=host, port=webhook_port)');
+    expect(file('.env.example')).toContain('WEBHOOK_PORT=8081');
+    expect(file('pyproject.toml')).toContain('starlette');
+    expect(file('src/server.py')).toContain('name="list_webhook_events"');
+    expect(file('pyproject.toml')).toContain('jsonschema');
+  });
+});
+
+describe('vendor extensions', () => {
+  const extendedSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Extended API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: {
+          operationId: 'listUsersV2',
+          summary: 'List users',
+          'x-mcp-name': 'find_users',
+          'x-mcp-description': 'Search users by name',
+          'x-rate-limit': { per_minute: 60 },
+          parameters: [
+            { name: 'q', in: 'query', schema: { type: 'string' }, description: 'Query', 'x-mcp-param-description': 'Part of the user name' },
+            { name: 'trace', in: 'header', schema: { type: 'string' }, 'x-mcp-hidden': true },
+          ],
+          responses: { '200': { description: 'OK' } },
+        },
+        post: {
+          operationId: 'createUser',
+          requestBody: {
+            required: true,
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/internal/reindex': {
+        post: { operationId: 'reindex', 'x-mcp-hidden': true, responses: { '202': { description: 'Accepted' } } },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: 'object',
+          required: ['name', 'tenant'],
+          'x-entity': 'user',
+          properties: {
+            name: { type: 'string', 'x-mcp-param-description': 'Full name of the user' },
+            tenant: { type: 'string', 'x-mcp-hidden': true },
+          },
+        },
+      },
+    },
+  };
+
+  it('should preserve x-* extensions on operations, parameters and schemas', async () => {
+    const result = await openapiParse(JSON.stringify(extendedSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const operation = result.data.paths[0].operations[0];
+    expect(operation.extensions).toEqual({
+      'x-mcp-name': 'find_users',
+      'x-mcp-description': 'Search users by name',
+      'x-rate-limit': { per_minute: 60 },
+    });
+    expect(operation.parameters[1].extensions).toEqual({ 'x-mcp-hidden': true });
+    expect(result.data.schemas.User.extensions).toEqual({ 'x-entity': 'user' });
+    expect(result.data.schemas.User.properties?.tenant.extensions).toEqual({ 'x-mcp-hidden': true });
+  });
+
+  it('should honor x-mcp-* overrides when generating tools', async () => {
+    const parseResult = await openapiParse(JSON.stringify(extendedSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.tools.map((t) => t.name)).toEqual(['find_users', 'createuser']);
+
+    const findUsers = result.data.tools[0];
+    expect(findUsers.description).toBe('Search users by name');
+    expect(findUsers.inputSchema.properties.q.description).toBe('Part of the user name');
+    expect(findUsers.inputSchema.properties).not.toHaveProperty('trace');
+
+    const createUser = result.data.tools[1];
+    expect(createUser.inputSchema.properties.name.description).toBe('Full name of the user');
+    expect(createUser.inputSchema.properties).not.toHaveProperty('tenant');
+    expect(createUser.inputSchema.required).toEqual(['name']);
+  });
+
+  it('should pair renamed tools with their endpoints in the scaffold', async () => {
+    const parseResult = await openapiParse(JSON.stringify(extendedSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'typescript');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const toolFile = result.data.files.find((f) => f.path === 'src/tools/find_users.ts');
+    expect(toolFile?.content).toContain('GET http://localhost:8080/users');
+    expect(result.data.files.map((f) => f.path)).not.toContain('src/tools/reindex.ts');
+  });
+});
+
+describe('operation filters', () => {
+  const filterSpec = {
+    openapi: '3.0.0',
+    info: { title: 'Filter API', version: '1.0.0' },
+    paths: {
+      '/users': {
+        get: { operationId: 'listUsers', tags: ['users'], responses: { '200': { description: 'OK' } } },
+        post: { operationId: 'createUser', tags: ['users'], responses: { '201': { description: 'Created' } } },
+      },
+      '/users/{id}': {
+        delete: {
+          operationId: 'deleteUser',
+          tags: ['users', 'admin'],
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '204': { description: 'Deleted' } },
+        },
+      },
+      '/internal/jobs/{id}/retry': {
+        post: {
+          operationId: 'legacyRetryJob',
+          deprecated: true,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '202': { description: 'Accepted' } },
+        },
+      },
+    },
+  };
+
+  async function parseFilterSpec() {
+    const result = await openapiParse(JSON.stringify(filterSpec));
+    if (!result.ok) throw new Error('filter spec failed to parse');
+    return result.data;
+  }
+
+  it('should keep only operations matching every include criterion', async () => {
+    const result = generateToolSchemas(await parseFilterSpec(), {
+      include: { tags: ['users'], methods: ['get', 'post'] },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.tools.map((t) => t.name)).toEqual(['listusers', 'createuser']);
+    expect(result.data.summary.filtered_out).toBe(2);
+    expect(result.data.summary.filtered).toEqual([
+      { operation: 'DELETE /users/{id}', operation_id: 'deleteUser', reason: 'method not in include.methods (GET, POST)' },
+      { operation: 'POST /internal/jobs/{id}/retry', operation_id: 'legacyRetryJob', reason: 'no tag in include.tags (users)' },
+    ]);
+  });
+
+  it('should drop operations matching any exclude criterion or marked deprecated', async () => {
+    const parsed = await parseFilterSpec();
+
+    const byPath = generateToolSchemas(parsed, { exclude: { paths: ['/internal/**'], tags: ['admin'] } });
+    expect(byPath.ok).toBe(true);
+    if (!byPath.ok) return;
+    expect(byPath.data.tools.map((t) => t.name)).toEqual(['listusers', 'createuser']);
+    expect(byPath.data.summary.filtered.map((f) => f.reason)).toEqual([
+      "tag 'admin' is excluded",
+      "path matches excluded glob '/internal/**'",
+    ]);
+
+    const byPattern = generateToolSchemas(parsed, { exclude: { operation_id: 'legacy*' }, include: { paths: ['/users/*'] } });
+    expect(byPattern.ok).toBe(true);
+    if (!byPattern.ok) return;
+    expect(byPattern.data.tools.map((t) => t.name)).toEqual(['deleteuser']);
+
+    const deprecated = generateToolSchemas(parsed, { exclude_deprecated: true });
+    expect(deprecated.ok).toBe(true);
+    if (!deprecated.ok) return;
+    expect(deprecated.data.summary.filtered).toEqual([
+      { operation: 'POST /internal/jobs/{id}/retry', operation_id: 'legacyRetryJob', reason: 'deprecated' },
+    ]);
+  });
+
+  it('should match operation_id globs literally and in linear time', async () => {
+    const parsed = await parseFilterSpec();
+
+    const literal = generateToolSchemas(parsed, { include: { operation_id: '(list|create)*' } });
+    expect(literal.ok && literal.data.tools).toEqual([]);
+
+    const single = generateToolSchemas(parsed, { include: { operation_id: '?istUser?' } });
+    expect(single.ok && single.data.tools.map((t) => t.name)).toEqual(['listusers']);
+
+    // A backtracking matcher would not finish on this glob
+    const started = Date.now();
+    const pathological = generateToolSchemas(parsed, {
+      include: { operation_id: `${'*a'.repeat(200)}*x`, paths: [`${'*'.repeat(200)}/**/x`] },
+    });
+    expect(pathological.ok && pathological.data.tools).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('should reject a non-string operation_id glob', async () => {
+    const result = generateToolSchemas(await parseFilterSpec(), { include: { operation_id: 42 as unknown as string } });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+    expect(result.error.details.field).toBe('include.operation_id');
+  });
+
+  it('should apply filters to the scaffold and report what was left out', async () => {
+    const result = generateServerScaffold(await parseFilterSpec(), 'typescript', {
+      exclude: { methods: ['DELETE'] },
+      exclude_deprecated: true,
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.tool_count).toBe(2);
+    const paths = result.data.files.map((f) => f.path);
+    expect(paths).toContain('src/tools/listusers.ts');
+    expect(paths).not.toContain('src/tools/deleteuser.ts');
+    expect(result.data.filtered.map((f) => f.operation_id)).toEqual(['deleteUser', 'legacyRetryJob']);
+  });
+});
+
+describe('openapi_lint', () => {
+  const lintSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Lint API', version: '1.0.0' },
+    security: [{ apiKey: [] }],
+    paths: {
+      '/users/{id}': {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' }, description: 'User ID' }],
+        get: {
+          operationId: 'getUser',
+          summary: 'Get a user',
+          parameters: [
+            { name: 'fields', in: 'query' },
+            { name: 'filter', in: 'query', description: 'Filter', schema: {} },
+          ],
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } } } },
+        },
+        put: {
+          operationId: 'getUser',
+          description: 'Replace a user',
+          requestBody: { $ref: '#/components/requestBodies/Missing' },
+          responses: { '200': { description: 'OK' } },
+        },
+        delete: { responses: { '204': { description: 'Deleted' } } },
+      },
+    },
+    components: {
+      schemas: {
+        User: { type: 'object', properties: { id: { type: 'string' } } },
+        Orphan: { type: 'object', properties: { self: { $ref: '#/components/schemas/Orphan' } } },
+      },
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        unusedOauth: { type: 'oauth2', flows: {} },
+      },
+    },
+  };
+
+  const findDiagnostic = (diagnostics: { rule: string; pointer: string }[], rule: string, pointer: string) =>
+    diagnostics.find((d) => d.rule === rule && d.pointer === pointer);
+
+  it('should report diagnostics with severity, rule and JSON pointer', async () => {
+    const result = await openapiLint(JSON.stringify(lintSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { diagnostics } = result.data;
+    expect(findDiagnostic(diagnostics, 'operation-operation-id', '/paths/~1users~1{id}/delete')).toMatchObject({
+      severity: 'warning',
+    });
+    expect(findDiagnostic(diagnostics, 'operation-operation-id-unique', '/paths/~1users~1{id}/put/operationId')).toMatchObject({
+      severity: 'error',
+    });
+    expect(findDiagnostic(diagnostics, 'operation-description', '/paths/~1users~1{id}/delete')).toBeDefined();
+    expect(findDiagnostic(diagnostics, 'parameter-description', '/paths/~1users~1{id}/get/parameters/0')).toBeDefined();
+    expect(findDiagnostic(diagnostics, 'parameter-schema', '/paths/~1users~1{id}/get/parameters/0')).toBeDefined();
+    expect(findDiagnostic(diagnostics, 'parameter-schema', '/paths/~1users~1{id}/get/parameters/1/schema')).toBeDefined();
+    expect(findDiagnostic(diagnostics, 'request-body-ref', '/paths/~1users~1{id}/put/requestBody')).toMatchObject({
+      severity: 'error',
+    });
+  });
+
+  it('should accept request body refs that resolve, which parsing inlines', async () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Body API', version: '1.0.0' },
+      paths: {
+        '/users': {
+          post: {
+            operationId: 'createUser',
+            summary: 'Create a user',
+            requestBody: { $ref: '#/components/requestBodies/NewUser' },
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+      components: {
+        requestBodies: {
+          NewUser: {
+            required: true,
+            content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } },
+          },
+        },
+      },
+    };
+
+    const result = await openapiLint(JSON.stringify(spec));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.diagnostics.filter((d) => d.rule === 'request-body-ref')).toEqual([]);
+
+    for (const preserve_refs of [false, true]) {
+      const parsed = await openapiParse(JSON.stringify(spec), { preserve_refs });
+      expect(parsed.ok).toBe(true);
+      if (!parsed.ok) return;
+      expect(parsed.data.paths[0].operations[0].request_body?.required).toBe(true);
+    }
+  });
+
+  it('should explain that a dangling request body ref fails parsing', async () => {
+    const result = await openapiLint(JSON.stringify(lintSpec));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(findDiagnostic(result.data.diagnostics, 'request-body-ref', '/paths/~1users~1{id}/put/requestBody')?.message)
+      .toContain('PARSE_ERROR');
+
+    const parsed = await openapiParse(JSON.stringify(lintSpec));
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.error.code).toBe('PARSE_ERROR');
+  });
+
+  it('should report unused components, ignoring self-references', async () => {
+    const result = await openapiLint(JSON.stringify(lintSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const unused = result.data.diagnostics.filter((d) => d.rule === 'component-unused').map((d) => d.pointer);
+    expect(unused).toEqual(['/components/schemas/Orphan', '/components/securitySchemes/unusedOauth']);
+  });
+
+  it('should summarize diagnostics by severity', async () => {
+    const result = await openapiLint(JSON.stringify(lintSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { summary, diagnostics } = result.data;
+    expect(summary.total).toBe(diagnostics.length);
+    expect(summary.errors + summary.warnings + summary.infos).toBe(summary.total);
+    expect(summary.errors).toBe(2);
+  });
+
+  it('should reject unsupported spec versions', async () => {
+    const result = await openapiLint(JSON.stringify({ swagger: '2.0', info: { title: 'Old', version: '1' }, paths: {} }));
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('INVALID_INPUT');
+    }
+  });
+});
+
+describe('openapi_diff', () => {
+  const baseSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Orders API', version: '1.0.0' },
+    paths: {
+      '/orders': {
+        get: {
+          operationId: 'listOrders',
+          parameters: [
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['open', 'closed', 'void'] } },
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'legacy', in: 'query', schema: { type: 'boolean' } },
+          ],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Order' } } } },
+            },
+          },
+        },
+        post: {
+          operationId: 'createOrder',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { type: 'object', required: ['item'], properties: { item: { type: 'string' }, note: { type: 'string' } } },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/orders/{id}': {
+        delete: {
+          operationId: 'deleteOrder',
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '204': { description: 'Deleted' } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Order: { type: 'object', required: ['id', 'total'], properties: { id: { type: 'string' }, total: { type: 'number' } } },
+      },
+    },
+  };
+
+  const revisionSpec = {
+    ...baseSpec,
+    info: { title: 'Orders API', version: '2.0.0' },
+    paths: {
+      '/orders': {
+        get: {
+          operationId: 'listOrders',
+          parameters: [
+            { name: 'status', in: 'query', schema: { type: 'string', enum: ['open', 'closed', 'pending'] } },
+            { name: 'limit', in: 'query', schema: { type: ['integer', 'string'] } },
+            { name: 'cursor', in: 'query', schema: { type: 'string' } },
+          ],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Order' } } } },
+            },
+          },
+        },
+        post: {
+          operationId: 'placeOrder',
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  type: 'object',
+                  required: ['item', 'note'],
+                  properties: { item: { type: 'string' }, note: { type: 'string' } },
+                },
+              },
+            },
+          },
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/orders/{id}/refund': {
+        post: { operationId: 'refundOrder', responses: { '200': { description: 'OK' } } },
+      },
+    },
+    components: {
+      schemas: {
+        Order: { type: 'object', required: ['id'], properties: { id: { type: 'string' }, total: { type: 'number' } } },
+      },
+    },
+  };
+
+  const findChange = (changes: { kind: string; operation: string; location?: string }[], kind: string, location?: string) =>
+    changes.find((c) => c.kind === kind && (location === undefined || c.location === location));
+
+  it('should classify breaking and non-breaking changes', async () => {
+    const result = await openapiDiff(JSON.stringify(baseSpec), JSON.stringify(revisionSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const { changes } = result.data;
+    expect(findChange(changes, 'operation_removed')).toMatchObject({ operation: 'DELETE /orders/{id}', breaking: true });
+    expect(findChange(changes, 'operation_added')).toMatchObject({ operation: 'POST /orders/{id}/refund', breaking: false });
+    expect(findChange(changes, 'tool_renamed')).toMatchObject({ tool: 'placeorder', breaking: true });
+    expect(findChange(changes, 'enum_value_removed', 'status')).toMatchObject({ scope: 'input', breaking: true });
+    expect(findChange(changes, 'enum_value_added', 'status')).toMatchObject({ scope: 'input', breaking: false });
+    expect(findChange(changes, 'type_changed', 'limit')).toMatchObject({ breaking: false });
+    expect(findChange(changes, 'property_removed', 'legacy')).toMatchObject({ breaking: true });
+    expect(findChange(changes, 'property_added', 'cursor')).toMatchObject({ breaking: false });
+    expect(findChange(changes, 'property_required', 'note')).toMatchObject({ breaking: true });
+  });
+
+  it('should report tool names as generate_tool_schemas assigns them', async () => {
+    const spec = (paths: Record<string, unknown>) => JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Users', version: '1.0.0' },
+      paths,
+    });
+    const byId = { '/users/{id}': { get: { responses: { '200': { description: 'OK' } } } } };
+    const literal = { '/users/id': { get: { responses: { '200': { description: 'OK' } } } } };
+
+    const result = await openapiDiff(spec(byId), spec({ ...byId, ...literal }));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    // The new operation takes the name, so the existing tool is renamed
+    const revision = await openapiParse(spec({ ...byId, ...literal }));
+    const generated = revision.ok && generateToolSchemas(revision.data);
+    const names = generated && generated.ok ? generated.data.tools.map((tool) => tool.name) : [];
+    expect(findChange(result.data.changes, 'operation_added')).toMatchObject({ tool: 'get_users_id' });
+    expect(findChange(result.data.changes, 'tool_renamed')).toMatchObject({
+      operation: 'GET /users/{id}',
+      tool: names[0],
+      breaking: true,
+    });
+    expect(names[0]).toMatch(/^get_users_id_[0-9a-f]{6}$/);
+  });
+
+  it('should name tools with the requested naming options', async () => {
+    const result = await openapiDiff(JSON.stringify(baseSpec), JSON.stringify(revisionSpec), {
+      naming: 'verb_noun',
+      name_prefix: 'shop',
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(findChange(result.data.changes, 'operation_removed')).toMatchObject({ tool: 'shop_delete_order' });
+    expect(findChange(result.data.changes, 'tool_renamed')).toBeUndefined();
+
+    const invalid = await openapiDiff(JSON.stringify(baseSpec), JSON.stringify(revisionSpec), { name_template: '{resource}' });
+    expect(!invalid.ok && invalid.error.code).toBe('INVALID_INPUT');
+  });
+
+  it('should compare response schemas through component refs', async () => {
+    const result = await openapiDiff(JSON.stringify(baseSpec), JSON.stringify(revisionSpec));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(findChange(result.data.changes, 'property_optional', '[].total')).toMatchObject({
+      scope: 'response',
+      status: '200',
+      breaking: true,
+    });
+  });
+
+  it('should accept parsed specs and summarize the diff', async () => {
+    const base = await openapiParse(JSON.stringify(baseSpec));
+    expect(base.ok).toBe(true);
+    if (!base.ok) return;
+
+    const unchanged = await openapiDiff(base.data, base.data);
+    expect(unchanged.ok).toBe(true);
+    if (unchanged.ok) {
+      expect(unchanged.data.changes).toEqual([]);
+    }
+
+    const result = await openapiDiff(base.data, JSON.stringify(revisionSpec));
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.data.summary).toMatchObject({ operations_added: 1, operations_removed: 1, operations_changed: 2 });
+      expect(result.data.summary.breaking + result.data.summary.non_breaking).toBe(result.data.changes.length);
+    }
+  });
+
+  it('should report which side failed to parse', async () => {
+    const result = await openapiDiff(JSON.stringify(baseSpec), '{ not json');
+
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.error.code).toBe('PARSE_ERROR');
+      expect(result.error.details.side).toBe('revision');
+    }
+  });
+});
+
+describe('openapi_export', () => {
+  const treeSpec = {
+    openapi: '3.1.0',
+    info: { title: 'Tree API', version: '1.0.0' },
+    security: [{ apiKey: [] }],
+    paths: {
+      '/nodes/{id}': {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer', exclusiveMinimum: 0 } }],
+        get: {
+          operationId: 'getNode',
+          security: [],
+          parameters: [{ name: 'fields', in: 'query', explode: false, schema: { type: 'array', items: { type: 'string' } } }],
+          responses: {
+            '200': {
+              description: 'A node',
+              headers: { 'X-Rate-Limit': { required: true, schema: { type: 'integer' } } },
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } },
+            },
+          },
+        },
+      },
+    },
+    webhooks: {
+      nodeCreated: { post: { operationId: 'nodeCreated', responses: { '200': { description: 'OK' } } } },
+    },
+    components: {
+      schemas: {
+        Node: {
+          type: 'object',
+          required: ['id'],
+          properties: {
+            id: { type: 'integer' },
+            label: { type: ['string', 'null'], examples: ['root'] },
+            children: { type: 'array', items: { $ref: '#/components/schemas/Node' } },
+          },
+        },
+      },
+      securitySchemes: { apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' } },
+    },
+  };
+
+  it('should round-trip a parsed spec through openapi_parse', async () => {
+    for (const source of [sampleOpenAPISpec, treeSpec]) {
+      for (const format of ['json', 'yaml'] as const) {
+        const parsed = await openapiParse(JSON.stringify(source));
+        if (!parsed.ok) throw new Error('fixture failed to parse');
+
+        const exported = await openapiExport(parsed.data, { format });
+        expect(exported.ok).toBe(true);
+        if (!exported.ok) return;
+        expect(exported.meta.warnings).toEqual([]);
+
+        const reparsed = await openapiParse(exported.data.content);
+        expect(reparsed.ok).toBe(true);
+        if (!reparsed.ok) return;
+        expect(reparsed.data).toEqual(parsed.data);
+      }
+    }
+  });
+
+  it('should restore component refs and keep only non-default operation settings', async () => {
+    const parsed = await openapiParse(JSON.stringify(treeSpec));
+    if (!parsed.ok) throw new Error('fixture failed to parse');
+
+    const exported = await openapiExport(parsed.data);
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+
+    expect(exported.data.openapi_version).toBe('3.1.0');
+    const document = JSON.parse(exported.data.content);
+    const getNode = document.paths['/nodes/{id}'].get;
+    expect(getNode.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Node' });
+    expect(getNode.security).toEqual([]);
+    expect(getNode.servers).toBeUndefined();
+    expect(getNode.parameters[1]).toEqual({
+      name: 'fields',
+      in: 'query',
+      explode: false,
+      schema: { type: 'array', items: { type: 'string' } },
+    });
+  });
+
+  it('should convert to OpenAPI 3.0 and report what it cannot express', async () => {
+    const parsed = await openapiParse(JSON.stringify(treeSpec));
+    if (!parsed.ok) throw new Error('fixture failed to parse');
+
+    const exported = await openapiExport(parsed.data, { openapi_version: '3.0', format: 'yaml' });
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+
+    expect(exported.data.openapi_version).toBe('3.0.3');
+    expect(exported.meta.warnings).toEqual(['Dropped webhooks (nodeCreated); they need OpenAPI 3.1']);
+
+    const document = yaml.load(exported.data.content) as Record<string, any>;
+    expect(document.paths['/nodes/{id}'].get.parameters[0].schema).toEqual({
+      type: 'integer',
+      minimum: 0,
+      exclusiveMinimum: true,
+    });
+    expect(document.components.schemas.Node.properties.label).toEqual({
+      type: 'string',
+      nullable: true,
+      example: 'root',
+    });
+  });
+
+  it('should report the GraphQL operations that do not fit on the endpoint path', async () => {
+    const parsed = await graphqlImport('type Query { a: Int, b: Int }');
+    if (!parsed.ok) throw new Error('schema failed to import');
+
+    const exported = await openapiExport(parsed.data);
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+
+    const document = JSON.parse(exported.data.content);
+    expect(Object.keys(document.paths)).toEqual(['/graphql']);
+    expect(document.paths['/graphql'].post['x-graphql'].field).toBe('a');
+    expect(exported.meta.warnings).toContain(
+      'Skipped POST /graphql (b): another operation already uses that method and path'
+    );
+  });
+
+  it('should skip operations that share a method and path', async () => {
+    const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    if (!parsed.ok) throw new Error('fixture failed to parse');
+
+    const pets = parsed.data.paths.find((path) => path.path === '/pets')!;
+    pets.operations.push({ ...pets.operations[0], operation_id: 'listPetsAgain' });
+
+    const exported = await openapiExport(parsed.data);
+    expect(exported.ok).toBe(true);
+    if (!exported.ok) return;
+
+    expect(JSON.parse(exported.data.content).paths['/pets'].get.operationId).toBe('listPets');
+    expect(exported.meta.warnings).toContain(
+      'Skipped GET /pets (listPetsAgain): another operation already uses that method and path'
+    );
+  });
+
+  it('should reject unknown target versions', async () => {
+    const parsed = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    if (!parsed.ok) throw new Error('fixture failed to parse');
+
+    for (const version of ['2.0', 'toString', '__proto__', 'constructor']) {
+      const result = await openapiExport(parsed.data, { openapi_version: version as '3.0' });
+      expect(result.ok).toBe(false);
+      if (result.ok) return;
+      expect(result.error.code).toBe('INVALID_INPUT');
+    }
+  });
+});
+
+describe('openapi_merge', () => {
+  const serviceSpec = (title: string, server: string, resource: string) => ({
+    openapi: '3.0.3',
+    info: { title, version: '1.0.0' },
+    servers: [{ url: server }],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/health': {
+        get: { operationId: 'health', security: [], responses: { '200': { description: 'OK' } } },
+      },
+      [`/${resource}/{id}`]: {
+        get: {
+          operationId: `get_${resource}`,
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Item' } } },
+              links: { self: { operationId: `get_${resource}`, parameters: { id: '$response.body#/id' } } },
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: { Item: { type: 'object', properties: { id: { type: 'string' } } } },
+      securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } },
+    },
+  });
+
+  const parseService = async (title: string, server: string, resource: string) => {
+    const parsed = await openapiParse(JSON.stringify(serviceSpec(title, server, resource)), { preserve_refs: true });
+    if (!parsed.ok) throw new Error('fixture failed to parse');
+    return parsed;
+  };
+
+  it('should namespace operation ids, schemas and security schemes per source', async () => {
+    const users = await parseService('Users Service', 'https://users.internal', 'users');
+    const orders = await parseService('Orders Service', 'https://orders.internal', 'orders');
+
+    const result = await mergeSpecs([
+      { parsed_spec: users.data },
+      { spec_id: orders.meta.spec_id, namespace: 'orders' },
+    ], { title: 'Platform' });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const merged = result.data.parsed_spec;
+    expect(merged.info.title).toBe('Platform');
+    expect(merged.servers).toEqual([]);
+    expect(Object.keys(merged.schemas)).toEqual(['users_service_Item', 'orders_Item']);
+    expect(Object.keys(merged.security_schemes)).toEqual(['users_service_bearerAuth', 'orders_bearerAuth']);
+    expect(result.meta.spec_id).toEqual(expect.any(String));
+
+    const getOrder = merged.paths.find((p) => p.path === '/orders/{id}')!.operations[0];
+    expect(getOrder.operation_id).toBe('orders_get_orders');
+    expect(getOrder.servers).toEqual([{ url: 'https://orders.internal' }]);
+    expect(getOrder.security).toEqual([{ orders_bearerAuth: [] }]);
+    expect(getOrder.responses[0].content?.['application/json'].schema).toEqual({ $ref: '#/components/schemas/orders_Item' });
+    expect(getOrder.responses[0].links?.self.operation_id).toBe('orders_get_orders');
+  });
+
+  it('should mount clashing operations under their namespace and keep calling their own path', async () => {
+    const users = await parseService('Users Service', 'https://users.internal', 'users');
+    const orders = await parseService('Orders Service', 'https://orders.internal', 'orders');
+
+    const result = await mergeSpecs([
+      { parsed_spec: users.data, namespace: 'users' },
+      { parsed_spec: orders.data, namespace: 'orders' },
+    ]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const paths = result.data.parsed_spec.paths;
+    expect(paths.map((p) => [p.path, p.operations.map((op) => op.operation_id)])).toEqual([
+      ['/health', ['users_health']],
+      ['/users/{id}', ['users_get_users']],
+      ['/orders/health', ['orders_health']],
+      ['/orders/{id}', ['orders_get_orders']],
+    ]);
+    const mounted = paths.find((p) => p.path === '/orders/health')!.operations[0];
+    expect(mounted.servers).toEqual([{ url: 'https://orders.internal' }]);
+    expect(mounted.extensions).toEqual({ 'x-mcp-upstream-path': '/health' });
+    expect(result.data.conflicts).toEqual([{
+      kind: 'operation',
+      name: 'GET /health',
+      sources: ['users', 'orders'],
+      resolution: "'orders_health' was mounted at /orders/health; it still calls GET /health on https://orders.internal",
+    }]);
+
+    // Every operation becomes its own tool, and the mounted one calls the orders service's /health
+    const tools = generateToolSchemas(result.data.parsed_spec);
+    if (!tools.ok) throw new Error('tool generation failed');
+    expect(tools.data.tools.map((t) => t.name)).toEqual(['users_health', 'users_get_users', 'orders_health', 'orders_get_orders']);
+
+    const scaffold = generateServerScaffold(result.data.parsed_spec, 'typescript');
+    if (!scaffold.ok) throw new Error('scaffold generation failed');
+    const tool = scaffold.data.files.find((f) => f.path === 'src/tools/orders_health.ts')!.content;
+    expect(tool).toContain('https://orders.internal/health');
+    expect(tool).not.toContain('/orders/health');
+  });
+
+  it('should rename clashing namespaces and mount operations that clash on the same server', async () => {
+    const first = await parseService('Users Service', 'https://api.internal', 'users');
+    const second = await parseService('Users Service', 'https://api.internal', 'accounts');
+
+    const result = await mergeSpecs([{ parsed_spec: first.data }, { parsed_spec: second.data }]);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.parsed_spec.servers).toEqual([{ url: 'https://api.internal' }]);
+    expect(result.data.conflicts).toEqual([
+      {
+        kind: 'namespace',
+        name: 'users_service',
+        sources: ['users_service', 'users_service'],
+        resolution: "The later source was renamed to 'users_service_2'",
+      },
+      {
+        kind: 'operation',
+        name: 'GET /health',
+        sources: ['users_service', 'users_service_2'],
+        resolution: "'users_service_2_health' was mounted at /users_service_2/health; it still calls GET /health on https://api.internal",
+      },
+    ]);
+  });
+
+  it('should reject sources without a spec', async () => {
+    const result = await mergeSpecs([{ namespace: 'empty' }]);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.error.code).toBe('INVALID_INPUT');
+    expect(result.error.details.source).toBe(0);
+  });
+});
+
+describe('openapi_search', () => {
+  const paymentsSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Payments', version: '1.0.0' },
+    paths: {
+      '/refunds': {
+        get: { operationId: 'listRefunds', summary: 'List refunds', tags: ['Refunds'], responses: { '200': { description: 'OK' } } },
+        post: {
+          operationId: 'createRefund',
+          summary: 'Refund a charge',
+          tags: ['Refunds'],
+          responses: { '201': { description: 'Created' } },
+        },
+      },
+      '/charges': {
+        post: { operationId: 'createCharge', summary: 'Charge a card', tags: ['Charges'], responses: { '201': { description: 'Created' } } },
+      },
+      '/charges/{chargeId}': {
+        get: {
+          operationId: 'getCharge',
+          summary: 'Retrieve a charge',
+          parameters: [{ name: 'chargeId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+      '/customers/{customerId}/payment_methods': {
+        get: {
+          operationId: 'listCustomerPaymentMethods',
+          description: 'Cards and bank accounts saved for a customer',
+          parameters: [{ name: 'customerId', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '200': { description: 'OK' } },
+        },
+      },
+    },
+  };
+
+  it('should rank the operation that answers the question first', async () => {
+    const parsed = await openapiParse(JSON.stringify(paymentsSpec));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const result = openapiSearch(parsed.data, 'which endpoint creates a refund?');
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.data.total_operations).toBe(5);
+    expect(result.data.hits[0]).toMatchObject({
+      method: 'POST',
+      path: '/refunds',
+      operation_id: 'createRefund',
+      tool_name: 'createrefund',
+      matched_terms: ['create', 'refund'],
+    });
+    expect(result.data.hits.map((hit) => hit.operation_id)).toContain('listRefunds');
+    expect(result.data.hits.map((hit) => hit.operation_id)).not.toContain('getCharge');
+  });
+
+  it('should match descriptions, parameter names and split identifiers', async () => {
+    const parsed = await openapiParse(JSON.stringify(paymentsSpec));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const saved = openapiSearch(parsed.data, 'saved bank accounts');
+    expect(saved.ok && saved.data.hits[0].operation_id).toBe('listCustomerPaymentMethods');
+
+    const byParameter = openapiSearch(parsed.data, 'charge_id', { limit: 1 });
+    expect(byParameter.ok && byParameter.data.hits.map((hit) => hit.operation_id)).toEqual(['getCharge']);
+
+    const noTerms = openapiSearch(parsed.data, 'which is the');
+    expect(noTerms.ok).toBe(true);
+    if (noTerms.ok) {
+      expect(noTerms.data.hits).toEqual([]);
+      expect(noTerms.meta.warnings[0]).toContain('no searchable terms');
+    }
+
+    expect(openapiSearch(parsed.data, '  ').ok).toBe(false);
+  });
+
+  it('should report tool names under the requested naming options', async () => {
+    const parsed = await openapiParse(JSON.stringify(paymentsSpec));
+    expect(parsed.ok).toBe(true);
+    if (!parsed.ok) return;
+
+    const result = openapiSearch(parsed.data, 'create a refund', { naming: 'verb_noun', name_prefix: 'pay' });
+    expect(result.ok && result.data.hits[0]).toMatchObject({ operation_id: 'createRefund', tool_name: 'pay_create_refund' });
+
+    const invalid = openapiSearch(parsed.data, 'refund', { naming: 'template' });
+    expect(!invalid.ok && invalid.error.code).toBe('INVALID_INPUT');
+  });
+});
+
 describe('generateOperationId', () => {
   it('should generate operation ID from method and path', () => {
     expect(generateOperationId('get', '/users')).toBe('get_users');
@@ -281,6 +3009,131 @@ describe('generate_tool_schemas', () => {
       expect(result.error.code).toBe('INVALID_INPUT');
     }
   });
+
+  it('should make colliding tool names unique and report each rename', async () => {
+    const longId = `export_${'report_'.repeat(12)}`;
+    const parseResult = await openapiParse(JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Collisions', version: '1.0.0' },
+      paths: {
+        '/users/{id}': { get: { responses: { '200': { description: 'OK' } } } },
+        '/users/id': { get: { responses: { '200': { description: 'OK' } } } },
+        '/pets': {
+          get: { operationId: 'listPets', responses: { '200': { description: 'OK' } } },
+          post: { operationId: 'ListPets', responses: { '200': { description: 'OK' } } },
+        },
+        '/pet-tags': {
+          get: { operationId: 'list-pet-tags', responses: { '200': { description: 'OK' } } },
+          post: { operationId: 'list_pet_tags', responses: { '200': { description: 'OK' } } },
+        },
+        '/reports/a': { get: { operationId: `${longId}a`, responses: { '200': { description: 'OK' } } } },
+        '/reports/b': { get: { operationId: `${longId}b`, responses: { '200': { description: 'OK' } } } },
+      },
+    }));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateToolSchemas(parseResult.data);
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const names = result.data.tools.map((tool) => tool.name);
+    expect(new Set(names).size).toBe(8);
+    expect(names[0]).toMatch(/^get_users_id_[0-9a-f]{6}$/);
+    expect(names[1]).toBe('get_users_id');
+    expect(names[2]).toBe('listpets');
+    expect(names[3]).toMatch(/^listpets_[0-9a-f]{6}$/);
+    expect(names[4]).toBe('list-pet-tags');
+    expect(names[5]).toMatch(/^list_pet_tags_[0-9a-f]{6}$/);
+    expect(names[7]).toHaveLength(64);
+    expect(names[7].slice(0, 50)).toBe(names[6].slice(0, 50));
+
+    expect(result.meta.warnings).toHaveLength(4);
+    expect(result.meta.warnings[0]).toBe(
+      `Tool name 'get_users_id' of GET /users/{id} is already used by GET /users/id ('get_users_id'); renamed to '${names[0]}'`
+    );
+
+    // Names depend only on the operations, not on their order in the spec
+    const reordered = generateToolSchemas({ ...parseResult.data, paths: [...parseResult.data.paths].reverse() });
+    expect(reordered.ok && reordered.data.tools.map((tool) => tool.name).sort()).toEqual([...names].sort());
+
+    // Scaffolds use the same names, so no tool file overwrites another
+    const scaffold = generateServerScaffold(parseResult.data, 'typescript');
+    expect(scaffold.ok).toBe(true);
+    if (scaffold.ok) {
+      const toolFiles = scaffold.data.files.filter((file) => /^src\/tools\/(?!index)/.test(file.path));
+      expect(toolFiles).toHaveLength(8);
+      const renamed = toolFiles.find((file) => file.path === `src/tools/${names[0]}.ts`);
+      expect(renamed?.content).toContain('GET http://localhost:8080/users/{id}');
+    }
+  });
+
+  it('should name tools with the configured naming strategy and prefix', async () => {
+    const parseResult = await openapiParse(JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Payments', version: '1.0.0' },
+      paths: {
+        '/v1/customers': {
+          get: { operationId: 'listAllCustomers', summary: 'List all customers', tags: ['Customers'], responses: { '200': { description: 'OK' } } },
+        },
+        '/v1/customers/{customer}/sources/{id}': {
+          get: { operationId: 'retrieveSource', summary: 'Retrieve a source', tags: ['Sources'], responses: { '200': { description: 'OK' } } },
+        },
+        '/v1/charges/{charge}/capture': {
+          post: { operationId: 'captureCharge', tags: ['Charges'], responses: { '200': { description: 'OK' } } },
+        },
+        '/v1/refunds': {
+          post: { operationId: 'postRefunds', summary: 'Refund a charge', 'x-mcp-name': 'issue_refund', responses: { '200': { description: 'OK' } } },
+        },
+      },
+    }));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const names = (options: ToolSchemaOptions) => {
+      const result = generateToolSchemas(parseResult.data, options);
+      expect(result.ok).toBe(true);
+      return result.ok ? result.data.tools.map((tool) => tool.name) : [];
+    };
+
+    expect(names({})).toEqual(['listallcustomers', 'retrievesource', 'capturecharge', 'issue_refund']);
+    expect(names({ naming: 'snake_case' })).toEqual(['list_all_customers', 'retrieve_source', 'capture_charge', 'issue_refund']);
+    expect(names({ naming: 'verb_noun' })).toEqual(['list_customers', 'get_customer_source', 'capture_charge', 'issue_refund']);
+    expect(names({ naming: 'summary' })).toEqual(['list_all_customers', 'retrieve_source', 'capture_charge', 'issue_refund']);
+    expect(names({ name_template: '{tag}_{operationId}' })).toEqual([
+      'customers_listallcustomers',
+      'sources_retrievesource',
+      'charges_capturecharge',
+      'issue_refund',
+    ]);
+
+    // The prefix applies to x-mcp-name too, so every tool shares the namespace
+    expect(names({ naming: 'verb_noun', name_prefix: 'stripe' })).toEqual([
+      'stripe_list_customers',
+      'stripe_get_customer_source',
+      'stripe_capture_charge',
+      'stripe_issue_refund',
+    ]);
+  });
+
+  it('should reject invalid naming options', async () => {
+    const parseResult = await openapiParse(JSON.stringify(sampleOpenAPISpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const missing = generateToolSchemas(parseResult.data, { naming: 'template' });
+    expect(!missing.ok && missing.error.code).toBe('INVALID_INPUT');
+
+    const unknown = generateToolSchemas(parseResult.data, { name_template: '{resource}_{operationId}' });
+    expect(unknown.ok).toBe(false);
+    if (!unknown.ok) {
+      expect(unknown.error.code).toBe('INVALID_INPUT');
+      expect(unknown.error.details.unknown_placeholders).toEqual(['resource']);
+    }
+
+    const strategy = generateToolSchemas(parseResult.data, { naming: 'camel' as ToolSchemaOptions['naming'] });
+    expect(!strategy.ok && strategy.error.code).toBe('INVALID_INPUT');
+  });
 });
 
 describe('sanitizeToolName', () => {
@@ -349,6 +3202,42 @@ describe('generate_server_scaffold', () => {
     }
   });
 
+  it('should emit Python tool schemas without JSON literals', async () => {
+    const parseResult = await openapiParse(JSON.stringify({
+      openapi: '3.0.3',
+      info: { title: 'Flags', version: '1.0.0' },
+      paths: {
+        '/flags': {
+          get: {
+            operationId: 'listFlags',
+            description: 'List "feature" flags\nacross projects',
+            parameters: [
+              { name: 'enabled', in: 'query', schema: { type: 'boolean', default: true } },
+              { name: 'owner', in: 'query', schema: { type: 'string', nullable: true, default: null } },
+            ],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    }));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const tools = generateToolSchemas(parseResult.data);
+    const result = generateServerScaffold(parseResult.data, 'python');
+    expect(tools.ok && result.ok).toBe(true);
+    if (!tools.ok || !result.ok) return;
+
+    const server = result.data.files.find((f) => f.path === 'src/server.py')!.content;
+    expect(server).not.toContain('inputSchema={');
+
+    // The schema string holds the same JSON the tool schema generator emits,
+    // defaults of true and null included
+    const loaded = server.match(/inputSchema=json\.loads\((".*")\)/)!;
+    expect(JSON.parse(JSON.parse(loaded[1]))).toEqual(tools.data.tools[0].inputSchema);
+    expect(server).toContain(`description=${JSON.stringify(tools.data.tools[0].description)}`);
+  });
+
   it('should return error for invalid language', async () => {
     const parseResult = await openapiParse(JSON.stringify(sampleOpenAPISpec));
     expect(parseResult.ok).toBe(true);
@@ -406,6 +3295,91 @@ describe('generate_server_scaffold', () => {
       expect(mainFile?.content).toContain('#!/usr/bin/env python3');
     }
   });
+  const regionalSpec = {
+    openapi: '3.0.3',
+    info: { title: 'Regional API', version: '1.0.0' },
+    servers: [
+      {
+        url: 'https://{region}.api.example.com/{version}',
+        description: 'Production',
+        variables: {
+          region: { default: 'us-east', enum: ['us-east', 'eu-west'], description: 'Region to call' },
+          version: { default: 'v2' },
+        },
+      },
+      { url: 'https://staging.example.com/v2', description: 'Staging' },
+    ],
+    paths: {
+      '/items': {
+        get: { operationId: 'listItems', responses: { '200': { description: 'OK' } } },
+      },
+    },
+  };
+
+  it('should expand server URL variables and expose them as env settings', async () => {
+    const parseResult = await openapiParse(JSON.stringify(regionalSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const result = generateServerScaffold(parseResult.data, 'typescript', {
+      server_variables: { region: 'eu-west' },
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    const file = (path: string) => result.data.files.find((f) => f.path === path)!.content;
+    expect(file('src/tools/listitems.ts')).toContain('GET https://eu-west.api.example.com/v2/items');
+    // Tools read the base URL at call time, so the env settings take effect
+    expect(file('src/tools/listitems.ts')).toContain("import { loadApiBaseUrl } from '../config.js';");
+    expect(file('src/tools/listitems.ts')).toContain('const url = `${loadApiBaseUrl()}/items`;');
+    expect(file('.env.example')).toContain('API_SERVER_REGION=eu-west');
+    expect(file('.env.example')).toContain('API_SERVER_VERSION=v2');
+    expect(file('.env.example')).toContain('# API_BASE_URL=https://eu-west.api.example.com/v2');
+    expect(file('src/config.ts')).toContain('url: "https://{region}.api.example.com/{version}"');
+    expect(file('src/config.ts')).toContain('export function loadApiBaseUrl()');
+
+    const python = generateServerScaffold(parseResult.data, 'python');
+    expect(python.ok).toBe(true);
+    if (python.ok) {
+      const config = python.data.files.find((f) => f.path === 'src/config.py')!.content;
+      expect(config).toContain('"region": {"env": "API_SERVER_REGION", "default": "us-east"');
+      expect(config).toContain('os.getenv("API_BASE_URL") or resolve_api_base_url()');
+
+      const tool = python.data.files.find((f) => f.path === 'src/tools/listitems.py')!.content;
+      expect(tool).toContain('from ..config import load_config');
+      expect(tool).toContain('url = load_config().api_base_url + "/items"');
+    }
+  });
+
+  it('should select a server by environment and validate variables', async () => {
+    const parseResult = await openapiParse(JSON.stringify(regionalSpec));
+    expect(parseResult.ok).toBe(true);
+    if (!parseResult.ok) return;
+
+    const staging = generateServerScaffold(parseResult.data, 'typescript', { server: 'staging' });
+    expect(staging.ok).toBe(true);
+    if (staging.ok) {
+      const env = staging.data.files.find((f) => f.path === '.env.example')!.content;
+      expect(env).toContain('API_BASE_URL=https://staging.example.com/v2');
+      expect(env).not.toContain('API_SERVER_');
+    }
+
+    const badValue = generateServerScaffold(parseResult.data, 'typescript', { server_variables: { region: 'ap-south' } });
+    expect(badValue.ok).toBe(false);
+    if (!badValue.ok) {
+      expect(badValue.error.code).toBe('INVALID_INPUT');
+      expect(badValue.error.message).toContain('us-east, eu-west');
+    }
+
+    const unknownServer = generateServerScaffold(parseResult.data, 'typescript', { server: 'sandbox' });
+    expect(unknownServer.ok).toBe(false);
+    if (!unknownServer.ok) {
+      expect(unknownServer.error.details.available).toHaveLength(2);
+    }
+
+    const unknownVariable = generateServerScaffold(parseResult.data, 'typescript', { server_variables: { zone: 'a' } });
+    expect(unknownVariable.ok).toBe(false);
+  });
 });
 
 describe('response envelope format', () => {